@@ -0,0 +1,171 @@
+// Bundle Import Dialog - choose how each conflicting template is handled,
+// then show what happened to every template in the bundle
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useIsMobile } from '@/hooks/use-mobile';
+import {
+  CONFLICT_RESOLUTIONS,
+  findConflict,
+  findMalformedElement,
+  findSharedConflicts,
+  type BundleImportOutcome,
+  type ConflictResolution
+} from '@/lib/template-bundle';
+import type { SavedTemplate } from '@/lib/template-store';
+
+interface BundleImportDialogProps {
+  /** Templates read from the bundle; the dialog is open while this is set */
+  incoming: SavedTemplate[] | null;
+  existing: SavedTemplate[];
+  /** Resolves with the per-template report, or null if nothing was written */
+  onImport: (resolutions: Record<string, ConflictResolution>) => Promise<BundleImportOutcome[] | null>;
+  onClose: () => void;
+}
+
+const OUTCOME_LABELS: Record<BundleImportOutcome['action'], string> = {
+  added: 'Added',
+  skipped: 'Skipped',
+  overwritten: 'Overwritten',
+  'kept-both': 'Kept both',
+  rejected: 'Rejected',
+};
+
+const buttonClass =
+  'bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all focus-visible:ring-0 focus-visible:ring-offset-0';
+
+const selectClass =
+  'h-7 border-2 border-black dark:border-gray-100 rounded-none bg-white dark:bg-gray-700 px-1 text-xs font-mono font-bold';
+
+const BundleImportDialog: React.FC<BundleImportDialogProps> = ({ incoming, existing, onImport, onClose }) => {
+  const isMobile = useIsMobile();
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [outcomes, setOutcomes] = useState<BundleImportOutcome[] | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Start every new bundle from a clean slate
+  useEffect(() => {
+    setResolutions({});
+    setOutcomes(null);
+  }, [incoming]);
+
+  const rows = useMemo(() => {
+    const shared = findSharedConflicts(incoming ?? [], existing);
+    return (incoming ?? []).map(tpl => ({
+      tpl,
+      conflict: findConflict(tpl, existing),
+      isShared: shared.has(tpl.id),
+      malformed: findMalformedElement(tpl.elements)
+    }));
+  }, [incoming, existing]);
+  const conflictCount = rows.filter(row => row.conflict).length;
+
+  const resolveAll = (resolution: ConflictResolution) => {
+    setResolutions(Object.fromEntries(rows.filter(row => row.conflict).map(row => [row.tpl.id, resolution])));
+  };
+
+  const runImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await onImport(resolutions);
+      if (result) setOutcomes(result);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={incoming !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="border-2 border-black dark:border-gray-100 rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.5)] bg-[#F2FCE2] dark:bg-gray-800">
+        <DialogHeader className="border-b-2 border-black dark:border-gray-100 pb-2 mb-2">
+          <DialogTitle className={`${isMobile ? 'text-lg' : 'text-xl'} font-black`}>
+            {outcomes ? 'Import Report' : 'Import Templates'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {outcomes ? (
+          <ul className="max-h-[50vh] overflow-y-auto divide-y divide-black/20 pr-2 font-mono text-sm">
+            {outcomes.map((outcome, index) => (
+              <li key={index} className="py-1 flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="truncate">
+                    {outcome.name}
+                    {outcome.savedAs && <span className="text-gray-600"> → {outcome.savedAs}</span>}
+                  </div>
+                  {outcome.reason && <div className="text-xs text-gray-600">{outcome.reason}</div>}
+                </div>
+                <span className="shrink-0 text-xs font-bold">{OUTCOME_LABELS[outcome.action]}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="space-y-2 font-mono">
+            <p className="text-sm">
+              {rows.length} template{rows.length === 1 ? '' : 's'} in bundle
+              {conflictCount > 0 && `, ${conflictCount} already in your library`}.
+            </p>
+            {conflictCount > 1 && (
+              <div className="flex items-center gap-2 text-xs font-bold">
+                <span>All conflicts:</span>
+                {CONFLICT_RESOLUTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => resolveAll(option.value)}
+                    className="border-2 border-black dark:border-gray-400 px-1 bg-white dark:bg-gray-700 hover:bg-[#9AE66E]"
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            <ul className="max-h-[45vh] overflow-y-auto divide-y divide-black/20 pr-2 text-sm">
+              {rows.map(({ tpl, conflict, isShared, malformed }) => (
+                <li key={tpl.id} className="py-1 flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-bold truncate">{tpl.name}</div>
+                    <div className="text-xs text-gray-600">
+                      {malformed
+                        ? `Malformed element at ${malformed}, won't be imported`
+                        : conflict
+                          ? `Conflicts with "${conflict.name}"${isShared ? ', like another template in this bundle' : ''}`
+                          : 'New'}
+                    </div>
+                  </div>
+                  {conflict && !malformed && (
+                    <select
+                      aria-label={`Resolve ${tpl.name}`}
+                      value={resolutions[tpl.id] ?? 'skip'}
+                      onChange={(e) => setResolutions(prev => ({ ...prev, [tpl.id]: e.target.value as ConflictResolution }))}
+                      className={selectClass}
+                    >
+                      {CONFLICT_RESOLUTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          {outcomes ? (
+            <Button onClick={onClose} className={buttonClass}>Close</Button>
+          ) : (
+            <>
+              <Button onClick={onClose} className={buttonClass}>Cancel</Button>
+              <Button onClick={runImport} disabled={isImporting || rows.length === 0} className={buttonClass}>
+                {isImporting ? 'Importing…' : 'Import'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BundleImportDialog;
@@ -0,0 +1,119 @@
+// Command Palette - Ctrl/Cmd+K access to every builder action and to any element by tag or content
+
+import React, { useMemo } from 'react';
+import { CornerDownRight } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut
+} from '@/components/ui/command';
+import { listElements } from '@/lib/tree-ops';
+import type { XMLElement } from './PromptBuilder';
+
+export interface PaletteAction {
+  id: string;
+  label: string;
+  group: string;
+  icon?: React.ReactNode;
+  shortcut?: string;
+  /** Extra words to match, e.g. "remove" for Delete */
+  keywords?: string[];
+  disabled?: boolean;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  actions: PaletteAction[];
+  elements: XMLElement[];
+  onJumpTo: (element: XMLElement) => void;
+}
+
+// Long content would swamp the list; the search still sees all of it
+const snippet = (content: string) => {
+  const line = content.trim().replace(/\s+/g, ' ');
+  return line.length > 60 ? `${line.slice(0, 60)}…` : line;
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onOpenChange, actions, elements, onJumpTo }) => {
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, PaletteAction[]>();
+    actions
+      .filter(action => !action.disabled)
+      .forEach(action => byGroup.set(action.group, [...(byGroup.get(action.group) ?? []), action]));
+    return [...byGroup.entries()];
+  }, [actions]);
+
+  const targets = useMemo(() => (open ? listElements(elements) : []), [open, elements]);
+
+  // Close first so focus returns to the page before the action opens dialogs or moves focus
+  const runAndClose = (run: () => void) => {
+    onOpenChange(false);
+    run();
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Type a command or search elements…" className="font-mono" />
+      <CommandList className="max-h-[60vh] font-mono">
+        <CommandEmpty>No matching commands or elements.</CommandEmpty>
+        {groups.map(([group, items], index) => (
+          <React.Fragment key={group}>
+            {index > 0 && <CommandSeparator />}
+            <CommandGroup heading={group}>
+              {items.map(action => (
+                <CommandItem
+                  key={action.id}
+                  value={`${action.group} ${action.label}`}
+                  keywords={action.keywords}
+                  onSelect={() => runAndClose(action.run)}
+                  className="rounded-none gap-2 data-[selected=true]:bg-[#9AE66E]/50"
+                >
+                  {action.icon}
+                  <span>{action.label}</span>
+                  {action.shortcut && <CommandShortcut>{action.shortcut}</CommandShortcut>}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </React.Fragment>
+        ))}
+        {targets.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Jump to element">
+              {targets.map(({ element, path }) => {
+                const isText = element.kind === 'text';
+                const label = isText ? '#text' : `<${element.tagName}>`;
+                return (
+                  <CommandItem
+                    key={element.id}
+                    // Ids keep values unique; tag, path and full content are what people search for
+                    value={`${element.id} ${element.tagName} ${element.content}`}
+                    keywords={['jump', 'go to', ...path]}
+                    onSelect={() => runAndClose(() => onJumpTo(element))}
+                    className="rounded-none gap-2 data-[selected=true]:bg-[#9AE66E]/50"
+                  >
+                    <CornerDownRight className="h-4 w-4 stroke-[3] shrink-0" />
+                    <span className="font-bold shrink-0">{label}</span>
+                    <span className="truncate text-xs text-gray-600 dark:text-gray-400">
+                      {path.length > 0 && `${path.join(' › ')} · `}
+                      {snippet(element.content)}
+                    </span>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
@@ -1,10 +1,20 @@
-
 import React, { useState, useEffect } from 'react';
-import { XMLElement } from './PromptBuilder';
+import { ContentEscaping, XMLAttribute, XMLElement } from './PromptBuilder';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Plus, X } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { cn } from '@/lib/utils';
+
+// 'inherit' clears the override so the document-wide setting applies
+const ESCAPING_OPTIONS: Array<{ label: string; value: ContentEscaping | 'inherit' }> = [
+  { label: 'Inherit', value: 'inherit' },
+  { label: 'Raw', value: 'raw' },
+  { label: 'Escape', value: 'escape' },
+  { label: 'CDATA', value: 'cdata' },
+];
 
 interface ElementEditorProps {
   element: XMLElement;
@@ -15,11 +25,15 @@ const ElementEditor: React.FC<ElementEditorProps> = ({ element, onUpdate }) => {
   const isMobile = useIsMobile();
   const [tagName, setTagName] = useState(element.tagName);
   const [content, setContent] = useState(element.content);
+  const [attributes, setAttributes] = useState<XMLAttribute[]>(element.attributes ?? []);
+  // Text runs between elements have no tag or attributes, only content
+  const isText = element.kind === 'text';
 
   useEffect(() => {
     setTagName(element.tagName);
     setContent(element.content);
-  }, [element.id, element.tagName, element.content]);
+    setAttributes(element.attributes ?? []);
+  }, [element.id, element.tagName, element.content, element.attributes]);
 
   const handleTagNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newTagName = e.target.value.replace(/\s+/g, '-').toLowerCase();
@@ -38,21 +52,117 @@ const ElementEditor: React.FC<ElementEditorProps> = ({ element, onUpdate }) => {
     });
   };
 
+  const commitAttributes = (next: XMLAttribute[]) => {
+    setAttributes(next);
+    onUpdate({
+      ...element,
+      attributes: next
+    });
+  };
+
+  const handleAttributeChange = (index: number, field: keyof XMLAttribute, value: string) => {
+    // Attribute names cannot contain whitespace; values are free text
+    const nextValue = field === 'name' ? value.replace(/\s+/g, '-') : value;
+    commitAttributes(attributes.map((attr, i) => (i === index ? { ...attr, [field]: nextValue } : attr)));
+  };
+
+  const handleEscapingChange = (value: ContentEscaping | 'inherit') => {
+    const { escaping: _previous, ...rest } = element;
+    onUpdate(value === 'inherit' ? rest : { ...rest, escaping: value });
+  };
+
+  const addAttribute = () => {
+    commitAttributes([...attributes, { name: '', value: '' }]);
+  };
+
+  const removeAttribute = (index: number) => {
+    commitAttributes(attributes.filter((_, i) => i !== index));
+  };
+
   return (
     <div className="flex flex-col h-full font-mono space-y-4">
-      <div className="flex-shrink-0">
-        <Label htmlFor="tagName" className={`font-black text-black dark:text-white ${isMobile ? 'text-xs' : 'text-sm'}`}>Tag Name</Label>
-        <Input
-          id="tagName"
-          value={tagName}
-          onChange={handleTagNameChange}
-          placeholder="Enter tag name"
-          className={`mt-1 border-2 border-black dark:border-gray-400 rounded-none focus:ring-[#9AE66E] focus:border-[#9AE66E] font-mono ${isMobile ? 'text-xs' : 'text-sm'}`}
-        />
-      </div>
+      {!isText && (
+        <div className="flex-shrink-0">
+          <Label htmlFor="tagName" className={`font-black text-black dark:text-white ${isMobile ? 'text-xs' : 'text-sm'}`}>Tag Name</Label>
+          <Input
+            id="tagName"
+            value={tagName}
+            onChange={handleTagNameChange}
+            placeholder="Enter tag name"
+            className={`mt-1 border-2 border-black dark:border-gray-400 rounded-none focus:ring-[#9AE66E] focus:border-[#9AE66E] font-mono ${isMobile ? 'text-xs' : 'text-sm'}`}
+          />
+        </div>
+      )}
+
+      {!isText && (
+        <div className="flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <Label className={`font-black text-black dark:text-white ${isMobile ? 'text-xs' : 'text-sm'}`}>Attributes</Label>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={addAttribute}
+              title="Add attribute"
+            >
+              <Plus className="h-4 w-4 stroke-[3]" />
+            </Button>
+          </div>
+          {attributes.length > 0 && (
+            <div className="mt-1 space-y-1 max-h-[96px] overflow-y-auto">
+              {attributes.map((attr, index) => (
+                <div key={index} className="flex items-center gap-1">
+                  <Input
+                    value={attr.name}
+                    onChange={(e) => handleAttributeChange(index, 'name', e.target.value)}
+                    placeholder="name"
+                    aria-label="Attribute name"
+                    className={`h-8 w-1/3 border-2 border-black dark:border-gray-400 rounded-none focus:ring-[#9AE66E] focus:border-[#9AE66E] font-mono ${isMobile ? 'text-xs' : 'text-sm'}`}
+                  />
+                  <span className="font-black">=</span>
+                  <Input
+                    value={attr.value}
+                    onChange={(e) => handleAttributeChange(index, 'value', e.target.value)}
+                    placeholder="value"
+                    aria-label="Attribute value"
+                    className={`h-8 flex-1 border-2 border-black dark:border-gray-400 rounded-none focus:ring-[#9AE66E] focus:border-[#9AE66E] font-mono ${isMobile ? 'text-xs' : 'text-sm'}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 flex-shrink-0 text-destructive hover:text-destructive"
+                    onClick={() => removeAttribute(index)}
+                    title="Remove attribute"
+                  >
+                    <X className="h-4 w-4 stroke-[3]" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
       
       <div className="flex flex-col flex-1 min-h-0">
-        <Label htmlFor="content" className={`font-black text-black dark:text-white ${isMobile ? 'text-xs' : 'text-sm'}`}>Content</Label>
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="content" className={`font-black text-black dark:text-white ${isMobile ? 'text-xs' : 'text-sm'}`}>{isText ? 'Text' : 'Content'}</Label>
+          <div className="flex gap-1" role="group" aria-label="Content escaping">
+            {ESCAPING_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => handleEscapingChange(option.value)}
+                title={option.value === 'inherit' ? 'Use the document escaping setting' : `${option.label} content`}
+                className={cn(
+                  "border-2 border-black dark:border-gray-400 px-1 text-xs font-bold",
+                  (element.escaping ?? 'inherit') === option.value ? "bg-[#9AE66E] text-black" : "bg-white dark:bg-gray-700"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
         <Textarea
           id="content"
           value={content}
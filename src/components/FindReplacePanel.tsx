@@ -0,0 +1,135 @@
+// Find & Replace Panel - search bar above the tree
+// Enter jumps to the next match, Shift+Enter to the previous one, Escape closes
+
+import React, { useEffect, useRef } from 'react';
+import { ArrowDown, ArrowUp, CaseSensitive, Regex, WholeWord, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { useIsMobile } from '@/hooks/use-mobile';
+import type { UseFindReplaceReturn } from '@/hooks/useFindReplace';
+import type { FindOptions } from '@/lib/find-replace';
+
+interface FindReplacePanelProps {
+  find: UseFindReplaceReturn;
+  onNavigate: (index: number) => void;
+  onReplace: () => void;
+  onReplaceAll: () => void;
+}
+
+const buttonClass =
+  'h-8 bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all';
+
+const TOGGLES: Array<{ key: keyof FindOptions; label: string; icon: React.ReactNode }> = [
+  { key: 'caseSensitive', label: 'Match case', icon: <CaseSensitive className="h-4 w-4 stroke-[2.5]" /> },
+  { key: 'wholeWord', label: 'Whole word', icon: <WholeWord className="h-4 w-4 stroke-[2.5]" /> },
+  { key: 'regex', label: 'Regular expression', icon: <Regex className="h-4 w-4 stroke-[2.5]" /> },
+];
+
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ find, onNavigate, onReplace, onReplaceAll }) => {
+  const isMobile = useIsMobile();
+  const queryRef = useRef<HTMLInputElement | null>(null);
+  const { query, replacement, options, matches, currentIndex, error } = find;
+
+  useEffect(() => {
+    queryRef.current?.focus();
+    queryRef.current?.select();
+  }, []);
+
+  const step = (delta: number) => {
+    if (matches.length === 0) return;
+    onNavigate((currentIndex + delta + matches.length) % matches.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      find.setIsOpen(false);
+    }
+  };
+
+  const inputClass = `h-8 border-2 border-black dark:border-gray-400 rounded-none focus:ring-[#9AE66E] focus:border-[#9AE66E] font-mono ${isMobile ? 'text-xs' : 'text-sm'}`;
+  const status = error
+    ? error
+    : !query
+      ? 'Tags and content, including collapsed and hidden elements'
+      : matches.length === 0
+        ? 'No matches'
+        : `${currentIndex + 1} of ${matches.length}`;
+
+  return (
+    <div className="mb-3 p-2 space-y-2 border-2 border-black dark:border-gray-100 bg-[#F2FCE2] dark:bg-gray-900 font-mono" onKeyDown={handleKeyDown}>
+      <div className="flex items-center gap-1">
+        <Input
+          ref={queryRef}
+          value={query}
+          onChange={(e) => {
+            find.setQuery(e.target.value);
+            find.setCurrentIndex(0);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              step(e.shiftKey ? -1 : 1);
+            }
+          }}
+          placeholder="Find"
+          aria-label="Find"
+          aria-invalid={Boolean(error)}
+          className={cn(inputClass, 'flex-1', error && 'border-destructive')}
+        />
+        {TOGGLES.map(toggle => (
+          <button
+            key={toggle.key}
+            type="button"
+            onClick={() => find.setOptions({ ...options, [toggle.key]: !options[toggle.key] })}
+            title={toggle.label}
+            aria-label={toggle.label}
+            aria-pressed={options[toggle.key]}
+            className={cn(
+              'h-8 w-8 flex items-center justify-center border-2 border-black dark:border-gray-400',
+              options[toggle.key] ? 'bg-[#9AE66E] text-black' : 'bg-white dark:bg-gray-700'
+            )}
+          >
+            {toggle.icon}
+          </button>
+        ))}
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => step(-1)} disabled={matches.length === 0} title="Previous match (Shift+Enter)">
+          <ArrowUp className="h-4 w-4 stroke-[3]" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => step(1)} disabled={matches.length === 0} title="Next match (Enter)">
+          <ArrowDown className="h-4 w-4 stroke-[3]" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => find.setIsOpen(false)} title="Close (Escape)">
+          <X className="h-4 w-4 stroke-[3]" />
+        </Button>
+      </div>
+      <div className="flex items-center gap-1">
+        <Input
+          value={replacement}
+          onChange={(e) => find.setReplacement(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              onReplace();
+            }
+          }}
+          placeholder={options.regex ? 'Replace ($1, $<name> allowed)' : 'Replace'}
+          aria-label="Replace"
+          className={cn(inputClass, 'flex-1')}
+        />
+        <Button size="sm" onClick={onReplace} disabled={matches.length === 0} className={buttonClass}>
+          Replace
+        </Button>
+        <Button size="sm" onClick={onReplaceAll} disabled={matches.length === 0} className={buttonClass}>
+          All
+        </Button>
+      </div>
+      <p role="status" className={cn('text-xs', error ? 'text-destructive' : 'text-gray-600 dark:text-gray-400')}>
+        {status}
+      </p>
+    </div>
+  );
+};
+
+export default FindReplacePanel;
@@ -29,8 +29,9 @@ const HelpDialog: React.FC = () => {
             <p className="font-bold mb-1">Getting Started:</p>
             <ul className="list-disc pl-5 space-y-1">
               <li>Click "Add Element" to create a new XML tag</li>
-              <li>Select any element to edit its name and content</li>
+              <li>Select any element to edit its name, attributes and content</li>
               <li>Add child elements to create nested structures</li>
+              <li>Write {'{{name}}'} placeholders in content and fill them in on the Variables tab</li>
             </ul>
           </div>
           
@@ -40,6 +41,19 @@ const HelpDialog: React.FC = () => {
               <li>Toggle elements to collapse/expand them</li>
               <li>Use the up/down arrows to rearrange elements</li>
               <li>Child elements will stay within their parent when rearranged</li>
+              <li>Undo and redo any change with Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z</li>
+              <li>
+                Click the tree to focus it, then use the keyboard: ↑/↓ to move between elements, ←/→ to collapse, expand or go to the parent,
+                Enter to edit the tag name, Tab/Shift+Tab to indent or outdent, and Alt+↑/↓ to reorder
+              </li>
+              <li>Duplicate an element and everything inside it with its copy button, the right-click menu or Ctrl/Cmd+D; the right-click menu can also number copies (example-1 → example-2) in the tag name or an attribute</li>
+              <li>Shift-click to select a range of elements or Ctrl/Cmd-click to add one; then delete, hide, collapse or wrap them together, or drag them as a group</li>
+              <li>Copy, cut and paste elements with Ctrl/Cmd+C, X and V while the tree has focus, even between tabs; pasted XML from other apps becomes elements too. "Paste as child" is in the command palette</li>
+              <li>To drag with the keyboard, focus an element's drag handle and press Space, move with the arrow keys, then Space again to drop</li>
+              <li>Press Ctrl/Cmd+K for the command palette: run any action or jump to an element by tag or content</li>
+              <li>Press Ctrl/Cmd+Shift+F (or the search button) to find and replace in tag names and content, collapsed and hidden elements included; match case, whole word and regular expressions are toggles, and each replace can be undone</li>
+              <li>Type in the filter box above the tree to show only elements whose tag or content matches, with their parent elements for context and a count of matches inside each; clear it to get the tree back as it was</li>
+              <li>Right-click an element and open "Restructure" (or use the command palette) to wrap it in a new parent, unwrap it, merge it with its next sibling, split its content into children on blank lines or # headings, or turn tags written in its content into real elements; each step can be undone</li>
             </ul>
           </div>
           
@@ -47,7 +61,12 @@ const HelpDialog: React.FC = () => {
             <p className="font-bold mb-1">Preview & Export:</p>
             <ul className="list-disc pl-5 space-y-1">
               <li>Preview your XML on the right panel</li>
+              <li>Click "Source" to edit the XML as text; changes flow back into the tree</li>
               <li>Copy the final XML when you're done</li>
+              <li>Click "Share" to get a link that carries the whole prompt; recipients open it in the builder or as a read-only preview</li>
+              <li>Reviewers can read a prompt without the editor at /view (the eye icon): paste a share link or a template bundle there</li>
+              <li>For long prompts, "Create short link" stores a copy on the server and gives a short /s/… link that expires</li>
+              <li>Export saved templates as a bundle file from the Load dialog, and import bundles there too</li>
             </ul>
           </div>
           <div>
@@ -58,6 +77,8 @@ const HelpDialog: React.FC = () => {
                 to load it instantly
               </li>
               <li>Or use the Import button to load a file</li>
+              <li>Text between or around elements is kept as “text” nodes in the tree</li>
+              <li>If parts of the input could not be read, an import report shows where</li>
             </ul>
           </div>
         </div>
@@ -0,0 +1,56 @@
+// Highlighted Text - marks search matches inside a piece of text
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import type { TextRange } from '@/lib/find-replace';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: TextRange[];
+  /** Start offset of the current match, drawn stronger than the rest */
+  currentStart?: number;
+  /**
+   * Characters to keep before the first (or current) match; earlier text becomes "…".
+   * For one-line previews where a late match would be cut off.
+   */
+  context?: number;
+  className?: string;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges, currentStart, context, className }) => {
+  if (ranges.length === 0) return <span className={className}>{text}</span>;
+
+  const focus = ranges.find(([start]) => start === currentStart)?.[0] ?? ranges[0][0];
+  const offset = context !== undefined ? Math.max(0, focus - context) : 0;
+
+  const parts: React.ReactNode[] = [];
+  let last = offset;
+  ranges.forEach(([start, end]) => {
+    if (end <= offset) return;
+    const from = Math.max(start, offset);
+    if (from > last) parts.push(text.slice(last, from));
+    parts.push(
+      <mark
+        key={start}
+        className={cn(
+          'text-black rounded-none',
+          start === currentStart ? 'bg-orange-400 outline outline-1 outline-black' : 'bg-yellow-200'
+        )}
+        data-current-match={start === currentStart ? true : undefined}
+      >
+        {text.slice(from, end)}
+      </mark>
+    );
+    last = end;
+  });
+  parts.push(text.slice(last));
+
+  return (
+    <span className={className}>
+      {offset > 0 && '…'}
+      {parts}
+    </span>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,108 @@
+// Import Report Dialog - what the parser had to work around during an import
+// Clicking an entry selects the affected spot in the original source
+
+import React, { useRef, useState } from 'react';
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useIsMobile } from '@/hooks/use-mobile';
+import type { ParseDiagnostic } from '@/lib/loose-xml';
+
+export interface ImportReport {
+  source: string;
+  diagnostics: ParseDiagnostic[];
+}
+
+interface ImportReportDialogProps {
+  report: ImportReport | null;
+  onClose: () => void;
+}
+
+const ImportReportDialog: React.FC<ImportReportDialogProps> = ({ report, onClose }) => {
+  const isMobile = useIsMobile();
+  const sourceRef = useRef<HTMLTextAreaElement>(null);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  const jumpTo = (diagnostic: ParseDiagnostic, index: number) => {
+    setActiveIndex(index);
+    const textarea = sourceRef.current;
+    if (!textarea) return;
+
+    textarea.focus();
+    textarea.setSelectionRange(diagnostic.offset, diagnostic.offset + Math.max(diagnostic.length, 1));
+    // Selecting doesn't scroll a read-only textarea everywhere; put the line near the top
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, (diagnostic.line - 3) * lineHeight);
+  };
+
+  const errorCount = report?.diagnostics.filter(d => d.severity === 'error').length ?? 0;
+  const warningCount = (report?.diagnostics.length ?? 0) - errorCount;
+
+  return (
+    <Dialog
+      open={report !== null}
+      onOpenChange={(open) => {
+        if (!open) {
+          setActiveIndex(null);
+          onClose();
+        }
+      }}
+    >
+      <DialogContent className="max-w-2xl border-2 border-black dark:border-gray-100 rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.5)] bg-[#F2FCE2] dark:bg-gray-800">
+        <DialogHeader className="border-b-2 border-black dark:border-gray-100 pb-2 mb-2">
+          <DialogTitle className={`${isMobile ? 'text-lg' : 'text-xl'} font-black`}>Import Report</DialogTitle>
+        </DialogHeader>
+
+        {report && (
+          <div className="space-y-3 font-mono">
+            <p className="text-sm">
+              {errorCount > 0 && <span className="font-bold text-destructive">{errorCount} lost</span>}
+              {errorCount > 0 && warningCount > 0 && ', '}
+              {warningCount > 0 && <span className="font-bold">{warningCount} kept as text</span>}
+              {' '}— click an entry to see where it is.
+            </p>
+
+            <ul className="max-h-48 overflow-auto border-2 border-black dark:border-gray-100 bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
+              {report.diagnostics.map((diagnostic, index) => (
+                <li key={`${diagnostic.offset}-${diagnostic.kind}`}>
+                  <button
+                    type="button"
+                    onClick={() => jumpTo(diagnostic, index)}
+                    className={cn(
+                      "flex w-full items-start gap-2 px-2 py-1 text-left text-xs hover:bg-[#9AE66E]/30",
+                      activeIndex === index && "bg-[#9AE66E]/50"
+                    )}
+                  >
+                    {diagnostic.severity === 'error'
+                      ? <XCircle className="h-4 w-4 flex-shrink-0 stroke-[3] text-destructive" />
+                      : <AlertTriangle className="h-4 w-4 flex-shrink-0 stroke-[3] text-amber-600" />}
+                    <span className="flex-shrink-0 font-bold tabular-nums">
+                      {diagnostic.line}:{diagnostic.column}
+                    </span>
+                    <span className="break-all">{diagnostic.message}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <textarea
+              ref={sourceRef}
+              value={report.source}
+              readOnly
+              spellCheck={false}
+              aria-label="Imported source"
+              className="w-full h-56 resize-none text-xs leading-5 bg-white dark:bg-gray-900 border-2 border-black dark:border-gray-100 rounded-none p-2 focus:outline-none selection:bg-red-300 dark:selection:bg-red-800"
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={onClose} className="bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all focus-visible:ring-0 focus-visible:ring-offset-0">Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportReportDialog;
@@ -1,95 +1,286 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { ResponsiveButton } from '@/components/ui/responsive-button';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Trash, Plus, Copy, MoveVertical, Save, FolderOpen, Upload } from 'lucide-react';
+import { Trash, Plus, Copy, MoveVertical, Save, FolderOpen, Upload, Undo2, Redo2, Code2, Check, Share2, CopyPlus, ArrowUp, ArrowDown, Eye, EyeOff, ChevronsDownUp, ChevronsUpDown, CornerDownRight, IndentIncrease, IndentDecrease, Group, ClipboardCopy, ClipboardPaste, Scissors, Search, ListFilter, Merge, Ungroup, Pilcrow, Heading, Braces } from 'lucide-react';
 import { toast } from 'sonner';
-import { cn, estimateTokenCount, formatTokenCount } from '@/lib/utils';
+import { cn, generateUUID } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useHistoryState } from '@/hooks/useHistoryState';
+import { useTokenCount } from '@/hooks/useTokenCount';
+import { useElementTokenCounts } from '@/hooks/useElementTokenCounts';
 import ElementEditor from './ElementEditor';
+import SelectionSummary from './SelectionSummary';
+import FindReplacePanel from './FindReplacePanel';
+import HighlightedText from './HighlightedText';
+import TreeFilterBar from './TreeFilterBar';
 import XMLTreeContainer from './XMLTreeContainer';
-import { looseParseXML } from '@/lib/loose-xml';
+import VariablesPanel from './VariablesPanel';
+import SerializerSettings from './SerializerSettings';
+import TokenBreakdown from './TokenBreakdown';
+import XMLSourceEditor from './XMLSourceEditor';
+import ImportReportDialog, { type ImportReport } from './ImportReportDialog';
+import TemplateHistory from './TemplateHistory';
+import TemplateLibrary from './TemplateLibrary';
+import BundleImportDialog from './BundleImportDialog';
+import ShareDialog from './ShareDialog';
+import CommandPalette, { type PaletteAction } from './CommandPalette';
+import { parseXMLWithDiagnostics } from '@/lib/loose-xml';
+import { findOverBudgetIds } from '@/lib/token-breakdown';
+import { TOKENIZER_MODELS, TOKENIZER_PICKER_TITLE, DEFAULT_TOKENIZER_MODEL, getTokenizerModel } from '@/lib/tokenizer';
+import { serializeXML, DEFAULT_SERIALIZE_OPTIONS, type SerializeOptions } from '@/lib/serialize-xml';
+import {
+  listTemplates,
+  putTemplate,
+  putTemplates,
+  removeTemplate,
+  loadWorkspace,
+  saveWorkspace,
+  restoreVersion,
+  describeStorageError,
+  type SavedTemplate,
+  type TemplateVersion
+} from '@/lib/template-store';
+import {
+  extractVariables,
+  getMissingRequired,
+  renderElements,
+  syncVariableDefinitions,
+  type TemplateVariable,
+  type VariableValues
+} from '@/lib/template-variables';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { collectFolders, normalizeFolder, parseTags } from '@/lib/template-library';
+import {
+  bundleFileName,
+  createBundle,
+  parseBundle,
+  planBundleImport,
+  type BundleImportOutcome,
+  type ConflictResolution
+} from '@/lib/template-bundle';
+import type { SharedPrompt } from '@/lib/share-link';
+import {
+  fromClipboardContents,
+  readFromClipboard,
+  readFromDataTransfer,
+  toClipboardContents,
+  writeToClipboard,
+  writeToDataTransfer,
+  type ClipboardContents
+} from '@/lib/element-clipboard';
+import { findInText, findMatches, replaceAllMatches, replaceMatch } from '@/lib/find-replace';
+import { useFindReplace } from '@/hooks/useFindReplace';
+import { filterTree } from '@/lib/tree-filter';
+import {
+  duplicateElement,
+  expandAncestors,
+  indentElement,
+  insertElements,
+  listElements,
+  outdentElement,
+  removeElements,
+  selectionRoots,
+  setAllCollapsed,
+  updateElements,
+  wrapElements,
+  type DuplicateOptions
+} from '@/lib/tree-ops';
+import {
+  convertContentToElements,
+  mergeSiblings,
+  splitElementContent,
+  unwrapElement,
+  type RefactorAction
+} from '@/lib/tree-refactor';
+
+export interface XMLAttribute {
+  name: string;
+  value: string;
+}
+
+// How element content is written out: verbatim, entity-escaped, or wrapped in CDATA
+export type ContentEscaping = 'raw' | 'escape' | 'cdata';
+
+// A 'text' node is a run of plain text between sibling elements (mixed content).
+// It only uses content/escaping: no tag name, attributes or children.
+export type XMLNodeKind = 'element' | 'text';
 
 export interface XMLElement {
   id: string;
+  kind?: XMLNodeKind; // absent means 'element'
   tagName: string;
   content: string;
+  attributes?: XMLAttribute[];
+  escaping?: ContentEscaping; // per-element override of the document setting
   children: XMLElement[];
   collapsed?: boolean;
   isVisible?: boolean;
 }
 
-interface SavedTemplate {
-  id: string;
-  name: string;
-  createdAt: number;
-  updatedAt: number;
-  elements: XMLElement[];
+const WORKSPACE_SAVE_DELAY_MS = 500;
+
+// Save dialog fields for library organization; tags are edited as one comma-separated string
+interface TemplateMetaDraft {
+  folder: string;
+  tags: string;
+  description: string;
 }
 
-const PromptBuilder: React.FC = () => {
-  const STORAGE_KEY = 'xmlpb_elements_v1';
-  const TEMPLATES_KEY = 'xmlpb_templates_v1';
+const EMPTY_TEMPLATE_META: TemplateMetaDraft = { folder: '', tags: '', description: '' };
+
+const REFACTOR_DONE: Record<Exclude<RefactorAction, 'wrap'>, string> = {
+  'unwrap': 'Unwrapped element',
+  'split-paragraphs': 'Split content into paragraphs',
+  'split-headings': 'Split content at headings',
+  'merge': 'Merged elements',
+  'convert': 'Turned content into elements'
+};
+
+const metaFromTemplate = (tpl: SavedTemplate | undefined): TemplateMetaDraft =>
+  tpl
+    ? { folder: tpl.folder ?? '', tags: (tpl.tags ?? []).join(', '), description: tpl.description ?? '' }
+    : EMPTY_TEMPLATE_META;
+
+interface PromptBuilderProps {
+  /** A prompt opened from a share link, offered once the workspace has loaded */
+  sharedPrompt?: SharedPrompt;
+  onSharedPromptHandled?: () => void;
+}
+
+const PromptBuilder: React.FC<PromptBuilderProps> = ({ sharedPrompt, onSharedPromptHandled }) => {
+  const VARIABLES_KEY = 'xmlpb_variables_v1';
+  const FORMAT_KEY = 'xmlpb_format_v1';
+  const TOKENIZER_MODEL_KEY = 'xmlpb_tokenizer_model_v1';
+  const TOKEN_BUDGET_KEY = 'xmlpb_token_budget_v1';
+  const DUPLICATE_OPTIONS_KEY = 'xmlpb_duplicate_options_v1';
   const isMobile = useIsMobile();
   const ENABLE_IMPORT_FILE = true; // show file import UI
   const ENABLE_IMPORT_PASTE = true; // enable paste-to-import when empty
 
-  const [elements, setElements] = useState<XMLElement[]>(() => {
+  // Element tree with undo/redo; every setElements call is one history step
+  const {
+    state: elements,
+    set: setElements,
+    undo,
+    redo,
+    reset: resetElements,
+    canUndo,
+    canRedo
+  } = useHistoryState<XMLElement[]>([]);
+  // The working tree lives in IndexedDB; nothing is written back until it has been read
+  const [isWorkspaceLoaded, setIsWorkspaceLoaded] = useState<boolean>(false);
+  const storageErrorShownRef = useRef<boolean>(false);
+  const [variableDefinitions, setVariableDefinitions] = useState<TemplateVariable[]>(() => {
     try {
-      const raw = typeof window !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      const raw = typeof window !== 'undefined' ? localStorage.getItem(VARIABLES_KEY) : null;
       if (!raw) return [];
       const parsed = JSON.parse(raw);
-      if (Array.isArray(parsed)) return parsed as XMLElement[];
-      if (parsed && Array.isArray((parsed as any).elements)) return (parsed as any).elements as XMLElement[];
-      return [];
+      return Array.isArray(parsed?.definitions) ? parsed.definitions : [];
     } catch {
       return [];
     }
   });
+  const [variableValues, setVariableValues] = useState<VariableValues>(() => {
+    try {
+      const raw = typeof window !== 'undefined' ? localStorage.getItem(VARIABLES_KEY) : null;
+      if (!raw) return {};
+      const parsed = JSON.parse(raw);
+      return parsed?.values && typeof parsed.values === 'object' ? parsed.values : {};
+    } catch {
+      return {};
+    }
+  });
+  const [serializeOptions, setSerializeOptions] = useState<SerializeOptions>(() => {
+    try {
+      const raw = typeof window !== 'undefined' ? localStorage.getItem(FORMAT_KEY) : null;
+      if (!raw) return DEFAULT_SERIALIZE_OPTIONS;
+      return { ...DEFAULT_SERIALIZE_OPTIONS, ...JSON.parse(raw) };
+    } catch {
+      return DEFAULT_SERIALIZE_OPTIONS;
+    }
+  });
+  const [tokenBudget, setTokenBudget] = useState<number>(() => {
+    try {
+      const raw = typeof window !== 'undefined' ? localStorage.getItem(TOKEN_BUDGET_KEY) : null;
+      const parsed = raw ? Number(raw) : 0;
+      return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+    } catch {
+      return 0;
+    }
+  });
+  const [duplicateOptions, setDuplicateOptions] = useState<DuplicateOptions>(() => {
+    try {
+      const raw = typeof window !== 'undefined' ? localStorage.getItem(DUPLICATE_OPTIONS_KEY) : null;
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  });
   const [outputXML, setOutputXML] = useState<string>('');
   const [selectedElement, setSelectedElement] = useState<XMLElement | null>(null);
-  const [tokenCount, setTokenCount] = useState<number>(0);
+  // Multi-selection from shift/ctrl-click; always includes selectedElement when there is one
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [treeFilter, setTreeFilter] = useState('');
+  const [tokenizerModel, setTokenizerModel] = useState<string>(() => {
+    try {
+      const raw = typeof window !== 'undefined' ? localStorage.getItem(TOKENIZER_MODEL_KEY) : null;
+      return raw ? getTokenizerModel(raw).id : DEFAULT_TOKENIZER_MODEL;
+    } catch {
+      return DEFAULT_TOKENIZER_MODEL;
+    }
+  });
   const [rawInput, setRawInput] = useState<string>('');
   const [isDragActive, setIsDragActive] = useState<boolean>(false);
+  const [isSourceMode, setIsSourceMode] = useState<boolean>(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   const [isSaveOpen, setIsSaveOpen] = useState(false);
   const [isLoadOpen, setIsLoadOpen] = useState(false);
   const [saveName, setSaveName] = useState<string>('');
+  const [saveMessage, setSaveMessage] = useState<string>('');
+  const [saveMeta, setSaveMeta] = useState<TemplateMetaDraft>(EMPTY_TEMPLATE_META);
+  const [historyTemplate, setHistoryTemplate] = useState<SavedTemplate | null>(null);
   const [templates, setTemplates] = useState<SavedTemplate[]>([]);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [incomingBundle, setIncomingBundle] = useState<SavedTemplate[] | null>(null);
+  const bundleInputRef = useRef<HTMLInputElement | null>(null);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [editorTab, setEditorTab] = useState<string>('element');
 
-  const readTemplates = (): SavedTemplate[] => {
-    try {
-      const raw = typeof window !== 'undefined' ? localStorage.getItem(TEMPLATES_KEY) : null;
-      if (!raw) return [];
-      const parsed = JSON.parse(raw);
-      if (Array.isArray(parsed)) return parsed as SavedTemplate[];
-      return [];
-    } catch {
-      return [];
-    }
-  };
+  // Variables detected in the current tree, with any stored defaults/descriptions
+  const variables = useMemo(
+    () => syncVariableDefinitions(extractVariables(elements), variableDefinitions),
+    [elements, variableDefinitions]
+  );
+  const promptToShare = useMemo<SharedPrompt>(() => ({ elements, variables }), [elements, variables]);
 
-  const writeTemplates = (next: SavedTemplate[]) => {
-    try {
-      localStorage.setItem(TEMPLATES_KEY, JSON.stringify(next));
-    } catch {
-      // ignore
-    }
+  const updateVariableValue = (name: string, value: string) => {
+    setVariableValues(prev => ({ ...prev, [name]: value }));
   };
 
+  const updateVariableDefinition = (variable: TemplateVariable) => {
+    setVariableDefinitions(prev => [...prev.filter(def => def.name !== variable.name), variable]);
+  };
 
   const importFromText = async (text: string) => {
     try {
-      const parsed = looseParseXML(text);
+      const { elements: parsed, diagnostics } = parseXMLWithDiagnostics(text);
       setElements(parsed);
       setSelectedElement(null);
       setRawInput('');
-      toast.success('Imported!');
+      if (diagnostics.length) {
+        setImportReport({ source: text, diagnostics });
+        toast.warning(`Imported with ${diagnostics.length} issue${diagnostics.length === 1 ? '' : 's'}`, { action: { label: 'Undo', onClick: undo } });
+      } else {
+        toast.success('Imported!', { action: { label: 'Undo', onClick: undo } });
+      }
     } catch (err: any) {
       setRawInput(text);
       toast.error(err?.message || 'Parse error');
@@ -150,68 +341,164 @@ const PromptBuilder: React.FC = () => {
     const ts = new Date();
     const stamp = `${ts.getFullYear()}-${String(ts.getMonth()+1).padStart(2,'0')}-${String(ts.getDate()).padStart(2,'0')} ${String(ts.getHours()).padStart(2,'0')}${String(ts.getMinutes()).padStart(2,'0')}`;
     setSaveName(`${firstTag} ${stamp}`);
+    setSaveMessage('');
+    setSaveMeta(EMPTY_TEMPLATE_META);
     setIsSaveOpen(true);
+    // Needed for folder suggestions and to pick up metadata when overwriting by name
+    listTemplates().then(setTemplates).catch(() => {});
   };
 
-  const saveCurrentTemplate = () => {
+  const changeSaveName = (name: string) => {
+    setSaveName(name);
+    const existing = templates.find(t => t.name === name.trim());
+    if (existing) setSaveMeta(metaFromTemplate(existing));
+  };
+
+  const saveCurrentTemplate = async () => {
     if (!elements.length) {
       toast.error('Nothing to save. Add elements first.');
       return;
     }
+    if (isSavingTemplate) return;
     const name = (saveName || 'Untitled').trim();
     const now = Date.now();
-    const existing = readTemplates();
-    const idx = existing.findIndex(t => t.name === name);
-    if (idx >= 0) {
-      const overwrite = window.confirm(`A template named "${name}" exists. Overwrite?`);
-      if (!overwrite) return;
-      const updated = { ...existing[idx], elements, updatedAt: now };
-      const next = [...existing];
-      next[idx] = updated;
-      writeTemplates(next);
-      setTemplates(next);
-      toast.success('Template overwritten');
-    } else {
-      const t: SavedTemplate = {
-        id: `tpl-${now}-${Math.random().toString(36).slice(2, 8)}`,
-        name,
-        createdAt: now,
-        updatedAt: now,
-        elements,
-      };
-      const next = [t, ...existing].sort((a,b) => b.updatedAt - a.updatedAt);
-      writeTemplates(next);
-      setTemplates(next);
-      toast.success('Template saved');
+    const folder = normalizeFolder(saveMeta.folder);
+    const tags = parseTags(saveMeta.tags);
+    const description = saveMeta.description.trim();
+    // Empty fields are left off the record rather than stored as blanks
+    const meta = {
+      folder: folder || undefined,
+      tags: tags.length ? tags : undefined,
+      description: description || undefined,
+    };
+    setIsSavingTemplate(true);
+    try {
+      const existing = (await listTemplates()).find(t => t.name === name);
+      if (existing) {
+        const overwrite = window.confirm(`A template named "${name}" exists. Overwrite?`);
+        if (!overwrite) return;
+        await putTemplate({ ...existing, ...meta, elements, variables, updatedAt: now }, saveMessage);
+        toast.success('Template overwritten');
+      } else {
+        await putTemplate({
+          id: `tpl-${now}-${Math.random().toString(36).slice(2, 8)}`,
+          name,
+          createdAt: now,
+          updatedAt: now,
+          elements,
+          variables,
+          ...meta,
+        }, saveMessage);
+        toast.success('Template saved');
+      }
+      setTemplates(await listTemplates());
+      setIsSaveOpen(false);
+    } catch (err) {
+      // Keep the dialog open so the save can be retried after freeing space
+      toast.error(describeStorageError(err));
+    } finally {
+      setIsSavingTemplate(false);
     }
-    setIsSaveOpen(false);
   };
 
-  const openLoadDialog = () => {
-    const all = readTemplates().sort((a,b) => b.updatedAt - a.updatedAt);
-    setTemplates(all);
-    setIsLoadOpen(true);
+  const openLoadDialog = async () => {
+    try {
+      setTemplates(await listTemplates());
+      setHistoryTemplate(null);
+      setIsLoadOpen(true);
+    } catch (err) {
+      toast.error(describeStorageError(err));
+    }
   };
 
+  const confirmReplace = () =>
+    elements.length === 0 || window.confirm('Loading will replace the current structure. Continue?');
+
   const loadTemplate = (tpl: SavedTemplate) => {
-    if (elements.length > 0) {
-      const proceed = window.confirm('Loading will replace the current structure. Continue?');
-      if (!proceed) return;
-    }
+    if (!confirmReplace()) return;
+    applyTemplate(tpl);
+    toast.success('Template loaded', { action: { label: 'Undo', onClick: undo } });
+  };
+
+  const applyTemplate = (tpl: Pick<SavedTemplate, 'elements' | 'variables'>) => {
     setElements(tpl.elements);
+    if (tpl.variables?.length) {
+      // Keep definitions for names the template doesn't know about; template wins on conflicts
+      setVariableDefinitions(prev => [
+        ...prev.filter(def => !tpl.variables.some(v => v.name === def.name)),
+        ...tpl.variables
+      ]);
+    }
     setSelectedElement(null);
     setRawInput('');
     setIsLoadOpen(false);
-    toast.success('Template loaded');
   };
 
-  const deleteTemplate = (tpl: SavedTemplate) => {
+  const restoreTemplateVersion = async (tpl: SavedTemplate, version: TemplateVersion) => {
+    if (!confirmReplace()) return;
+    try {
+      const restored = await restoreVersion(tpl, version);
+      setTemplates(prev => prev.map(t => (t.id === restored.id ? restored : t)));
+      applyTemplate(restored);
+      toast.success('Version restored', { action: { label: 'Undo', onClick: undo } });
+    } catch (err) {
+      toast.error(describeStorageError(err));
+    }
+  };
+
+  const deleteTemplate = async (tpl: SavedTemplate) => {
     const proceed = window.confirm(`Delete template "${tpl.name}"? This cannot be undone.`);
     if (!proceed) return;
-    const next = templates.filter(t => t.id !== tpl.id);
-    writeTemplates(next);
-    setTemplates(next);
-    toast.success('Template deleted');
+    try {
+      await removeTemplate(tpl.id);
+      setTemplates(prev => prev.filter(t => t.id !== tpl.id));
+      toast.success('Template deleted');
+    } catch (err) {
+      toast.error(describeStorageError(err));
+    }
+  };
+
+  const exportTemplates = async (toExport: SavedTemplate[]) => {
+    try {
+      const bundle = await createBundle(toExport);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = bundleFileName();
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Exported ${toExport.length} template${toExport.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export the templates.');
+    }
+  };
+
+  const onBundleInputChange: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
+    const file = e.target.files?.[0];
+    // reset value to allow re-importing the same file
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setIncomingBundle(await parseBundle(await file.text()));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to read the bundle.');
+    }
+  };
+
+  const importBundle = async (
+    resolutions: Record<string, ConflictResolution>
+  ): Promise<BundleImportOutcome[] | null> => {
+    if (!incomingBundle) return null;
+    try {
+      // Plan against the stored library, not a possibly stale list
+      const plan = planBundleImport(incomingBundle, await listTemplates(), resolutions);
+      if (plan.writes.length) await putTemplates(plan.writes, 'Imported from bundle');
+      setTemplates(await listTemplates());
+      return plan.outcomes;
+    } catch (err) {
+      toast.error(describeStorageError(err));
+      return null;
+    }
   };
 
   const onFileInputChange: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
@@ -250,56 +537,122 @@ const PromptBuilder: React.FC = () => {
     setIsDragActive(false);
   };
 
+  // Preview, copy and token counts use the rendered prompt; the tree itself keeps the placeholders
+  const renderedElements = useMemo(
+    () => renderElements(elements, variableValues, variableDefinitions),
+    [elements, variableValues, variableDefinitions]
+  );
+
   // Generate XML output whenever elements change
   useEffect(() => {
-    const generateXML = (elements: XMLElement[], indentLevel = 0): string => {
-      return elements
-        .filter(element => element.isVisible !== false)
-        .map(element => {
-        const indent = '  '.repeat(indentLevel);
-        const hasChildren = element.children && element.children.length > 0;
-        const hasContent = element.content.trim().length > 0;
-        
-        // Start with opening tag
-        let xml = `${indent}<${element.tagName}>`;
-        
-        // Add content with proper indentation if exists
-        if (hasContent) {
-          xml += `\n${indent}  ${element.content}\n${indent}`;
-        }
-        
-        // Add children
-        if (hasChildren) {
-          const childrenXml = generateXML(element.children, indentLevel + 1);
-          if (hasContent) {
-            xml += childrenXml;
-          } else {
-            xml += `\n${childrenXml}\n${indent}`;
-          }
-        } else if (!hasContent) {
-          // Always ensure the closing tag is on a new line
-          xml += "\n" + indent;
-        }
-        
-        // Add closing tag
-        xml += `</${element.tagName}>`;
-        return xml;
-      }).join('\n');
+    const xml = serializeXML(renderedElements, serializeOptions);
+    setOutputXML(xml);
+  }, [renderedElements, serializeOptions]);
+
+  const { count: tokenCount, isExact: isTokenCountExact } = useTokenCount(outputXML, tokenizerModel);
+  const elementTokenCounts = useElementTokenCounts(renderedElements, serializeOptions, tokenizerModel);
+  const treeFilterResult = useMemo(() => filterTree(elements, treeFilter), [elements, treeFilter]);
+  const overBudgetIds = useMemo(
+    () => findOverBudgetIds(renderedElements, elementTokenCounts, tokenCount, tokenBudget),
+    [renderedElements, elementTokenCounts, tokenCount, tokenBudget]
+  );
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(TOKEN_BUDGET_KEY, String(tokenBudget));
+    } catch {
+      // ignore storage errors (quota, privacy mode, etc.)
+    }
+  }, [tokenBudget]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(TOKENIZER_MODEL_KEY, tokenizerModel);
+    } catch {
+      // ignore storage errors (quota, privacy mode, etc.)
+    }
+  }, [tokenizerModel]);
+
+  // Remember the chosen output style
+  useEffect(() => {
+    try {
+      localStorage.setItem(FORMAT_KEY, JSON.stringify(serializeOptions));
+    } catch {
+      // ignore storage errors (quota, privacy mode, etc.)
+    }
+  }, [serializeOptions]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(DUPLICATE_OPTIONS_KEY, JSON.stringify(duplicateOptions));
+    } catch {
+      // ignore storage errors (quota, privacy mode, etc.)
+    }
+  }, [duplicateOptions]);
+
+  // Restore the working tree (migrating it from localStorage on first run)
+  useEffect(() => {
+    let cancelled = false;
+    loadWorkspace()
+      .then(saved => {
+        if (!cancelled && saved) resetElements(saved);
+      })
+      .catch(err => {
+        storageErrorShownRef.current = true;
+        toast.error(describeStorageError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsWorkspaceLoaded(true);
+      });
+    return () => {
+      cancelled = true;
     };
+  }, [resetElements]);
 
-    const xml = generateXML(elements);
-    setOutputXML(xml);
-    setTokenCount(estimateTokenCount(xml));
-  }, [elements]);
+  // Persist the working tree shortly after it stops changing
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    const timer = setTimeout(() => {
+      saveWorkspace(elements)
+        .then(() => {
+          storageErrorShownRef.current = false;
+        })
+        .catch(err => {
+          // One toast per run of failures, not one per keystroke
+          if (storageErrorShownRef.current) return;
+          storageErrorShownRef.current = true;
+          toast.error(describeStorageError(err));
+        });
+    }, WORKSPACE_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [elements, isWorkspaceLoaded]);
+
+  // Open a shared link only after the stored workspace is in place, so the confirm sees it
+  const openSharedPrompt = (prompt: SharedPrompt) => {
+    onSharedPromptHandled?.();
+    if (!confirmReplace()) return;
+    applyTemplate(prompt);
+    toast.success('Shared prompt opened', { action: { label: 'Undo', onClick: undo } });
+  };
+  // Latest helpers for the one-shot open, which must not re-run when they change
+  const openSharedPromptRef = useRef(openSharedPrompt);
+  useEffect(() => {
+    openSharedPromptRef.current = openSharedPrompt;
+  });
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded || !sharedPrompt) return;
+    openSharedPromptRef.current(sharedPrompt);
+  }, [isWorkspaceLoaded, sharedPrompt]);
 
-  // Persist elements to localStorage whenever they change
+  // Persist variable definitions and filled-in values
   useEffect(() => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(elements));
+      localStorage.setItem(VARIABLES_KEY, JSON.stringify({ definitions: variableDefinitions, values: variableValues }));
     } catch {
       // ignore storage errors (quota, privacy mode, etc.)
     }
-  }, [elements]);
+  }, [variableDefinitions, variableValues]);
 
   useEffect(() => {
     if (!ENABLE_IMPORT_PASTE) return;
@@ -311,11 +664,16 @@ const PromptBuilder: React.FC = () => {
 
       const text = e.clipboardData?.getData('text') ?? '';
       try {
-        const parsed = looseParseXML(text);
+        const { elements: parsed, diagnostics } = parseXMLWithDiagnostics(text);
         setElements(parsed);
         setSelectedElement(null);
         setRawInput('');
-        toast.success('Imported!');
+        if (diagnostics.length) {
+          setImportReport({ source: text, diagnostics });
+          toast.warning(`Imported with ${diagnostics.length} issue${diagnostics.length === 1 ? '' : 's'}`, { action: { label: 'Undo', onClick: undo } });
+        } else {
+          toast.success('Imported!', { action: { label: 'Undo', onClick: undo } });
+        }
       } catch (err: any) {
         setRawInput(text);
         toast.error(err.message || 'Parse error');
@@ -331,7 +689,7 @@ const PromptBuilder: React.FC = () => {
         previewEl.removeEventListener('paste', handlePaste);
       }
     };
-  }, [elements, rawInput, ENABLE_IMPORT_PASTE]);
+  }, [elements, rawInput, ENABLE_IMPORT_PASTE, setElements, undo, isSourceMode]);
 
   // Update selectedElement reference when elements change to prevent stale state
   useEffect(() => {
@@ -358,6 +716,8 @@ const PromptBuilder: React.FC = () => {
       } else if (
           updatedElement.tagName !== selectedElement.tagName || 
           updatedElement.content !== selectedElement.content ||
+          JSON.stringify(updatedElement.attributes ?? []) !== JSON.stringify(selectedElement.attributes ?? []) ||
+          updatedElement.escaping !== selectedElement.escaping ||
           JSON.stringify(updatedElement.children) !== JSON.stringify(selectedElement.children)
         ) {
         setSelectedElement(updatedElement);
@@ -365,6 +725,198 @@ const PromptBuilder: React.FC = () => {
     }
   }, [elements, selectedElement]);
 
+  // Selecting a single element elsewhere (palette, duplicate, delete...) replaces the multi-selection
+  useEffect(() => {
+    const id = selectedElement?.id;
+    setSelectedIds(ids => (!id ? [] : ids.includes(id) ? ids : [id]));
+  }, [selectedElement?.id]);
+
+  const selectedElements = useMemo(() => {
+    const ids = new Set(selectedIds);
+    return listElements(elements).map(match => match.element).filter(element => ids.has(element.id));
+  }, [elements, selectedIds]);
+  const selectedRoots = useMemo(() => selectionRoots(elements, selectedIds), [elements, selectedIds]);
+  const isMultiSelect = selectedElements.length > 1;
+
+  const changeSelection = (ids: string[]) => {
+    setSelectedIds(ids);
+    // The editor's element must stay part of the selection
+    if (selectedElement && !ids.includes(selectedElement.id)) {
+      const last = ids[ids.length - 1];
+      setSelectedElement(listElements(elements).find(match => match.element.id === last)?.element ?? null);
+    }
+  };
+
+  const deleteSelection = () => {
+    const count = selectedElements.length;
+    setElements(removeElements(elements, selectedIds));
+    setSelectedElement(null);
+    toast.success(`Deleted ${count} elements`, { action: { label: 'Undo', onClick: undo } });
+  };
+
+  const setSelectionVisibility = (isVisible: boolean) => {
+    setElements(updateElements(elements, selectedIds, element => ({ ...element, isVisible })));
+  };
+
+  const setSelectionCollapsed = (collapsed: boolean) => {
+    const withChildren = selectedElements.filter(element => element.children.length > 0).map(element => element.id);
+    setElements(updateElements(elements, withChildren, element => ({ ...element, collapsed })));
+  };
+
+  // Wrap in a new <group> and go straight to naming it
+  const wrapSelection = (ids: string[] = selectedIds) => {
+    const result = wrapElements(elements, ids, {
+      id: `element-${generateUUID()}`,
+      tagName: 'group',
+      content: '',
+      isVisible: true
+    });
+    if (!result) return;
+    setElements(result.elements);
+    setSelectedElement(result.wrapper);
+    editTreeElement(result.wrapper.id);
+  };
+
+  // Wrap and merge act on the whole multi-selection when the element is part of it
+  const refactorElement = (id: string, action: RefactorAction) => {
+    const ids = isMultiSelect && selectedIds.includes(id) ? selectedIds : [id];
+    if (action === 'wrap') {
+      wrapSelection(ids);
+      return;
+    }
+
+    let next: XMLElement[] | null = null;
+    let failure = '';
+    switch (action) {
+      case 'unwrap':
+        next = unwrapElement(elements, id);
+        failure = "Text can't be unwrapped.";
+        break;
+      case 'split-paragraphs':
+        next = splitElementContent(elements, id, 'paragraphs');
+        failure = 'There are no blank lines to split the content on.';
+        break;
+      case 'split-headings':
+        next = splitElementContent(elements, id, 'headings');
+        failure = 'There are no # headings to split the content on.';
+        break;
+      case 'merge':
+        next = mergeSiblings(elements, ids);
+        failure = ids.length > 1
+          ? 'Only adjacent siblings of the same kind can be merged.'
+          : 'There is no next sibling of the same kind to merge with.';
+        break;
+      case 'convert':
+        next = convertContentToElements(elements, id);
+        failure = 'The content has no complete tags to turn into elements.';
+        break;
+    }
+
+    if (!next) {
+      toast.error(failure);
+      return;
+    }
+    setElements(next);
+    if (action === 'merge') changeSelection([listElements(next).find(match => ids.includes(match.element.id))!.element.id]);
+    toast.success(REFACTOR_DONE[action], { action: { label: 'Undo', onClick: undo } });
+  };
+
+  const find = useFindReplace(elements);
+  const setFindOpen = find.setIsOpen;
+  const previewMatches = useMemo(
+    () => (find.matcher ? findInText(outputXML, find.matcher) : []),
+    [find.matcher, outputXML]
+  );
+
+  // Open the current match's collapsed ancestors and bring it on screen
+  const currentMatchId = find.current?.elementId;
+  useEffect(() => {
+    if (!currentMatchId) return;
+    // Revealing is UI state: undo should step back over replacements, not expansions.
+    // Expanding from the latest tree keeps edits from re-running this (and scrolling) on every keystroke
+    setElements(prev => expandAncestors(prev, currentMatchId), { skipHistory: true });
+    requestAnimationFrame(() => {
+      document
+        .querySelector(`[data-tree-item="${CSS.escape(currentMatchId)}"]`)
+        ?.scrollIntoView({ block: 'nearest' });
+    });
+  }, [currentMatchId, find.currentIndex, setElements]);
+
+  const fieldValue = (tree: XMLElement[], elementId: string, field: 'tagName' | 'content') =>
+    listElements(tree).find(match => match.element.id === elementId)?.element[field] ?? '';
+
+  const replaceCurrentMatch = () => {
+    const { current, matcher, currentIndex } = find;
+    if (!current || !matcher) return;
+    const next = replaceMatch(elements, current, matcher, find.replacement, find.options);
+    if (!next) return;
+    // Carry on after the inserted text, even when it matches the search again
+    const grownBy = fieldValue(next, current.elementId, current.field).length - fieldValue(elements, current.elementId, current.field).length;
+    const remaining = findMatches(next, matcher);
+    const skipped = remaining.filter(match =>
+      match.elementId === current.elementId &&
+      match.field === current.field &&
+      match.start >= current.start &&
+      match.start < current.end + grownBy
+    ).length;
+    setElements(next);
+    find.setCurrentIndex(remaining.length > 0 ? (currentIndex + skipped) % remaining.length : 0);
+  };
+
+  const replaceAllCurrentMatches = () => {
+    if (!find.matcher) return;
+    const { elements: next, count } = replaceAllMatches(elements, find.matcher, find.replacement, find.options);
+    if (count === 0) return;
+    setElements(next);
+    find.setCurrentIndex(0);
+    toast.success(`Replaced ${count} match${count === 1 ? '' : 'es'}`, { action: { label: 'Undo', onClick: undo } });
+  };
+
+  const plural = (count: number) => `${count} element${count === 1 ? '' : 's'}`;
+
+  // Copies and cuts take the selected subtrees, so they survive a paste into another tab
+  const removeCutElements = () => {
+    setElements(removeElements(elements, selectedRoots.map(root => root.id)));
+    setSelectedElement(null);
+  };
+
+  const copySelectionToClipboard = async (cut: boolean) => {
+    if (selectedRoots.length === 0) return;
+    try {
+      await writeToClipboard(toClipboardContents(selectedRoots, serializeOptions));
+    } catch {
+      toast.error('Could not write to the clipboard.');
+      return;
+    }
+    if (cut) removeCutElements();
+    toast.success(`${cut ? 'Cut' : 'Copied'} ${plural(selectedRoots.length)}`);
+  };
+
+  // Pasted elements land after the selection (or inside the selected element) and become the selection
+  const pasteElements = (contents: ClipboardContents, position: 'after' | 'child') => {
+    try {
+      const pasted = fromClipboardContents(contents);
+      const anchor = position === 'after' ? selectedRoots[selectedRoots.length - 1] : selectedElement;
+      setElements(insertElements(elements, anchor?.id ?? null, position, pasted));
+      setSelectedElement(pasted[0]);
+      setSelectedIds(pasted.map(element => element.id));
+      toast.success(`Pasted ${plural(pasted.length)}`, { action: { label: 'Undo', onClick: undo } });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not paste.');
+    }
+  };
+
+  const pasteFromClipboard = async (position: 'after' | 'child') => {
+    let contents: ClipboardContents;
+    try {
+      contents = await readFromClipboard();
+    } catch {
+      toast.error('The browser blocked clipboard access. Focus the tree and press Ctrl/Cmd+V instead.');
+      return;
+    }
+    pasteElements(contents, position);
+  };
+
   const addNewElement = () => {
     const newElement: XMLElement = {
       id: `element-${Date.now()}`,
@@ -397,7 +949,8 @@ const PromptBuilder: React.FC = () => {
     };
     
     const newElements = updateElementRecursive(elements);
-    setElements(newElements);
+    // Keystrokes in the editor for the same element collapse into one undo step
+    setElements(newElements, { coalesceKey: `edit-${updatedElement.id}` });
   };
 
   const deleteElement = (elementId: string) => {
@@ -424,18 +977,11 @@ const PromptBuilder: React.FC = () => {
     const shouldResetSelection = !selectedElement ? false : 
       selectedElement.id === elementId || elements.some(isChildOfDeleted);
     
+    // Rebuild instead of mutating: earlier trees are kept around for undo
     const deleteElementRecursive = (elements: XMLElement[]): XMLElement[] => {
-      return elements.filter(el => {
-        if (el.id === elementId) {
-          return false;
-        }
-        
-        if (el.children.length > 0) {
-          el.children = deleteElementRecursive(el.children);
-        }
-        
-        return true;
-      });
+      return elements
+        .filter(el => el.id !== elementId)
+        .map(el => (el.children.length > 0 ? { ...el, children: deleteElementRecursive(el.children) } : el));
     };
     
     const newElements = deleteElementRecursive(elements);
@@ -616,7 +1162,62 @@ const PromptBuilder: React.FC = () => {
     return replaceElementsRecursive(originalElements);
   };
 
+  const duplicateSelectedElement = (elementId: string) => {
+    const result = duplicateElement(elements, elementId, duplicateOptions);
+    if (!result) return;
+    setElements(result.elements);
+    setSelectedElement(result.copy);
+  };
+
+  const indentTreeElement = (elementId: string) => {
+    const next = indentElement(elements, elementId);
+    if (next) setElements(next);
+  };
+
+  const outdentTreeElement = (elementId: string) => {
+    const next = outdentElement(elements, elementId);
+    if (next) setElements(next);
+  };
+
+  // Enter in the tree: show the editor and put the caret in the tag name (text runs only have content)
+  const editTreeElement = (elementId: string) => {
+    setEditorTab('element');
+    requestAnimationFrame(() => {
+      const field = document.getElementById('tagName') ?? document.getElementById('content');
+      if (field instanceof HTMLInputElement || field instanceof HTMLTextAreaElement) {
+        field.focus();
+        field.select();
+      }
+    });
+  };
+
+  const setEveryElementCollapsed = (collapsed: boolean) => {
+    setElements(setAllCollapsed(elements, collapsed));
+  };
+
+  // Select an element, opening any collapsed ancestors and scrolling it into view
+  const jumpToElement = (element: XMLElement) => {
+    // Opening ancestors is UI state, not an undo step
+    setElements(prev => expandAncestors(prev, element.id), { skipHistory: true });
+    setSelectedElement(element);
+    requestAnimationFrame(() => {
+      document
+        .querySelector(`[data-tree-item="${CSS.escape(element.id)}"]`)
+        ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    });
+  };
+
+  // Source edits arrive in bursts while typing; keep them to one undo step per pause
+  const applySourceEdit = (next: XMLElement[]) => {
+    setElements(next, { coalesceKey: 'source-edit' });
+  };
+
   const copyToClipboard = () => {
+    const missing = getMissingRequired(variableValues, variables);
+    if (missing.length > 0) {
+      toast.error(`Fill in required variables: ${missing.join(', ')}`);
+      return;
+    }
     navigator.clipboard.writeText(outputXML);
     toast.success("XML copied to clipboard!");
   };
@@ -625,13 +1226,145 @@ const PromptBuilder: React.FC = () => {
     setElements([]);
     setSelectedElement(null);
     setRawInput('');
-    try {
-      localStorage.removeItem(STORAGE_KEY);
-    } catch {
-      // ignore
-    }
+    toast.success('Cleared', { action: { label: 'Undo', onClick: undo } });
   };
 
+  // Ctrl/Cmd+C, X and V while the tree has focus; these events can carry the structured payload
+  const isTreeFocused = () => Boolean(document.activeElement?.closest('.xml-tree-list'));
+
+  const handleTreeCopy = (e: ClipboardEvent) => {
+    if (!isTreeFocused() || !e.clipboardData || selectedRoots.length === 0) return;
+    e.preventDefault();
+    writeToDataTransfer(e.clipboardData, toClipboardContents(selectedRoots, serializeOptions));
+    if (e.type === 'cut') removeCutElements();
+    toast.success(`${e.type === 'cut' ? 'Cut' : 'Copied'} ${plural(selectedRoots.length)}`);
+  };
+
+  const handleTreePaste = (e: ClipboardEvent) => {
+    if (!isTreeFocused() || !e.clipboardData) return;
+    e.preventDefault();
+    pasteElements(readFromDataTransfer(e.clipboardData), 'after');
+  };
+
+  // The listeners stay subscribed and read the latest selection and tree through this ref
+  const clipboardHandlersRef = useRef({ copy: handleTreeCopy, paste: handleTreePaste });
+  useEffect(() => {
+    clipboardHandlersRef.current = { copy: handleTreeCopy, paste: handleTreePaste };
+  });
+
+  useEffect(() => {
+    const handleCopy = (e: ClipboardEvent) => clipboardHandlersRef.current.copy(e);
+    const handlePaste = (e: ClipboardEvent) => clipboardHandlersRef.current.paste(e);
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+
+  // Global undo/redo shortcuts; text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+      // The palette and find open from anywhere, text fields included
+      if (e.key.toLowerCase() === 'k' && !e.shiftKey) {
+        e.preventDefault();
+        setIsPaletteOpen(open => !open);
+        return;
+      }
+      if (e.key.toLowerCase() === 'f' && e.shiftKey) {
+        e.preventDefault();
+        setFindOpen(true);
+        return;
+      }
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, setFindOpen]);
+
+  const iconClass = 'h-4 w-4 stroke-[3]';
+  const selectedIsText = selectedElement?.kind === 'text';
+  const paletteActions: PaletteAction[] = [
+    ...(selectedElement ? [
+      { id: 'add-child', group: 'Selected element', label: 'Add child', icon: <CornerDownRight className={iconClass} />, disabled: selectedIsText, run: () => addChildElement(selectedElement.id) },
+      { id: 'duplicate', group: 'Selected element', label: 'Duplicate', icon: <CopyPlus className={iconClass} />, shortcut: 'Ctrl/⌘D', keywords: ['copy', 'clone'], run: () => duplicateSelectedElement(selectedElement.id) },
+      { id: 'move-up', group: 'Selected element', label: 'Move up', icon: <ArrowUp className={iconClass} />, shortcut: 'Alt+↑', run: () => moveElementUp(selectedElement.id) },
+      { id: 'move-down', group: 'Selected element', label: 'Move down', icon: <ArrowDown className={iconClass} />, shortcut: 'Alt+↓', run: () => moveElementDown(selectedElement.id) },
+      { id: 'indent', group: 'Selected element', label: 'Indent into previous sibling', icon: <IndentIncrease className={iconClass} />, shortcut: 'Tab', keywords: ['nest'], run: () => indentTreeElement(selectedElement.id) },
+      { id: 'outdent', group: 'Selected element', label: 'Outdent to parent level', icon: <IndentDecrease className={iconClass} />, shortcut: '⇧Tab', keywords: ['unnest'], run: () => outdentTreeElement(selectedElement.id) },
+      ...(!isMultiSelect ? [
+        { id: 'wrap', group: 'Selected element', label: 'Wrap in new parent', icon: <Group className={iconClass} />, keywords: ['group', 'nest', 'refactor'], run: () => refactorElement(selectedElement.id, 'wrap') },
+        { id: 'merge', group: 'Selected element', label: 'Merge with next sibling', icon: <Merge className={iconClass} />, keywords: ['combine', 'join', 'refactor'], run: () => refactorElement(selectedElement.id, 'merge') },
+      ] : []),
+      { id: 'unwrap', group: 'Selected element', label: 'Unwrap (keep children)', icon: <Ungroup className={iconClass} />, keywords: ['promote', 'remove parent', 'refactor'], disabled: selectedIsText, run: () => refactorElement(selectedElement.id, 'unwrap') },
+      { id: 'split-paragraphs', group: 'Selected element', label: 'Split content on blank lines', icon: <Pilcrow className={iconClass} />, keywords: ['paragraphs', 'children', 'refactor'], disabled: selectedIsText || !selectedElement.content.trim(), run: () => refactorElement(selectedElement.id, 'split-paragraphs') },
+      { id: 'split-headings', group: 'Selected element', label: 'Split content at # headings', icon: <Heading className={iconClass} />, keywords: ['sections', 'markdown', 'children', 'refactor'], disabled: selectedIsText || !selectedElement.content.trim(), run: () => refactorElement(selectedElement.id, 'split-headings') },
+      { id: 'convert', group: 'Selected element', label: 'Turn tags in content into elements', icon: <Braces className={iconClass} />, keywords: ['convert', 'parse', 'children', 'refactor'], disabled: selectedIsText || !selectedElement.content.includes('<'), run: () => refactorElement(selectedElement.id, 'convert') },
+      {
+        id: 'toggle-visibility',
+        group: 'Selected element',
+        label: selectedElement.isVisible === false ? 'Show in output' : 'Hide from output',
+        icon: selectedElement.isVisible === false ? <Eye className={iconClass} /> : <EyeOff className={iconClass} />,
+        keywords: ['visibility', 'toggle'],
+        run: () => toggleVisibilityElement(selectedElement.id)
+      },
+      {
+        id: 'toggle-collapse',
+        group: 'Selected element',
+        label: selectedElement.collapsed ? 'Expand' : 'Collapse',
+        icon: selectedElement.collapsed ? <ChevronsUpDown className={iconClass} /> : <ChevronsDownUp className={iconClass} />,
+        disabled: selectedElement.children.length === 0,
+        run: () => toggleCollapseElement(selectedElement.id)
+      },
+      { id: 'copy', group: 'Selected element', label: isMultiSelect ? 'Copy selected' : 'Copy', icon: <ClipboardCopy className={iconClass} />, shortcut: 'Ctrl/⌘C', keywords: ['clipboard'], run: () => copySelectionToClipboard(false) },
+      { id: 'cut', group: 'Selected element', label: isMultiSelect ? 'Cut selected' : 'Cut', icon: <Scissors className={iconClass} />, shortcut: 'Ctrl/⌘X', keywords: ['clipboard'], run: () => copySelectionToClipboard(true) },
+      { id: 'paste-after', group: 'Selected element', label: 'Paste after', icon: <ClipboardPaste className={iconClass} />, shortcut: 'Ctrl/⌘V', keywords: ['clipboard', 'sibling'], run: () => pasteFromClipboard('after') },
+      { id: 'paste-child', group: 'Selected element', label: 'Paste as child', icon: <ClipboardPaste className={iconClass} />, disabled: selectedIsText, keywords: ['clipboard', 'inside'], run: () => pasteFromClipboard('child') },
+      { id: 'delete', group: 'Selected element', label: 'Delete', icon: <Trash className={iconClass} />, keywords: ['remove'], run: () => deleteElement(selectedElement.id) },
+    ] : []),
+    ...(isMultiSelect ? [
+      { id: 'selection-delete', group: 'Selection', label: `Delete ${selectedElements.length} elements`, icon: <Trash className={iconClass} />, keywords: ['remove', 'bulk'], run: deleteSelection },
+      { id: 'selection-hide', group: 'Selection', label: 'Hide selected from output', icon: <EyeOff className={iconClass} />, keywords: ['bulk', 'visibility'], run: () => setSelectionVisibility(false) },
+      { id: 'selection-show', group: 'Selection', label: 'Show selected in output', icon: <Eye className={iconClass} />, keywords: ['bulk', 'visibility'], run: () => setSelectionVisibility(true) },
+      { id: 'selection-collapse', group: 'Selection', label: 'Collapse selected', icon: <ChevronsDownUp className={iconClass} />, run: () => setSelectionCollapsed(true) },
+      { id: 'selection-expand', group: 'Selection', label: 'Expand selected', icon: <ChevronsUpDown className={iconClass} />, run: () => setSelectionCollapsed(false) },
+      { id: 'selection-wrap', group: 'Selection', label: 'Wrap selected in new parent', icon: <Group className={iconClass} />, keywords: ['group', 'nest'], run: wrapSelection },
+      { id: 'selection-merge', group: 'Selection', label: 'Merge selected', icon: <Merge className={iconClass} />, keywords: ['combine', 'join'], run: () => refactorElement(selectedIds[0], 'merge') },
+    ] : []),
+    ...(!selectedElement ? [
+      { id: 'paste', group: 'Structure', label: 'Paste elements', icon: <ClipboardPaste className={iconClass} />, keywords: ['clipboard', 'xml'], run: () => pasteFromClipboard('after') },
+    ] : []),
+    { id: 'add-element', group: 'Structure', label: 'Add element', icon: <Plus className={iconClass} />, keywords: ['new', 'create'], run: addNewElement },
+    { id: 'find-replace', group: 'Structure', label: 'Find and replace', icon: <Search className={iconClass} />, shortcut: 'Ctrl/⌘⇧F', keywords: ['search', 'rename'], disabled: !elements.length, run: () => find.setIsOpen(true) },
+    { id: 'filter-tree', group: 'Structure', label: 'Filter elements', icon: <ListFilter className={iconClass} />, keywords: ['narrow', 'show only'], disabled: !elements.length, run: () => requestAnimationFrame(() => document.getElementById('tree-filter')?.focus()) },
+    { id: 'collapse-all', group: 'Structure', label: 'Collapse all', icon: <ChevronsDownUp className={iconClass} />, disabled: !elements.length, run: () => setEveryElementCollapsed(true) },
+    { id: 'expand-all', group: 'Structure', label: 'Expand all', icon: <ChevronsUpDown className={iconClass} />, disabled: !elements.length, run: () => setEveryElementCollapsed(false) },
+    { id: 'undo', group: 'Structure', label: 'Undo', icon: <Undo2 className={iconClass} />, shortcut: 'Ctrl/⌘Z', disabled: !canUndo, run: undo },
+    { id: 'redo', group: 'Structure', label: 'Redo', icon: <Redo2 className={iconClass} />, shortcut: 'Ctrl/⌘⇧Z', disabled: !canRedo, run: redo },
+    { id: 'clear', group: 'Structure', label: 'Clear all', icon: <Trash className={iconClass} />, disabled: !elements.length, run: clearAll },
+    { id: 'copy-xml', group: 'Prompt', label: 'Copy XML', icon: <Copy className={iconClass} />, disabled: !elements.length, run: copyToClipboard },
+    { id: 'edit-source', group: 'Prompt', label: isSourceMode ? 'Back to preview' : 'Edit XML source', icon: <Code2 className={iconClass} />, run: () => setIsSourceMode(mode => !mode) },
+    { id: 'share', group: 'Prompt', label: 'Share as link', icon: <Share2 className={iconClass} />, disabled: !elements.length, run: () => setIsShareOpen(true) },
+    ...(ENABLE_IMPORT_FILE ? [{ id: 'import', group: 'Prompt', label: 'Import file', icon: <Upload className={iconClass} />, run: onClickImport }] : []),
+    { id: 'save-template', group: 'Templates', label: 'Save template', icon: <Save className={iconClass} />, disabled: !elements.length, run: openSaveDialog },
+    { id: 'load-template', group: 'Templates', label: 'Load template', icon: <FolderOpen className={iconClass} />, keywords: ['open', 'library'], run: openLoadDialog },
+  ];
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6">
@@ -639,6 +1372,33 @@ const PromptBuilder: React.FC = () => {
         <h2 className={`${isMobile ? 'text-lg' : 'text-xl'} font-bold mb-4 flex justify-between items-center border-b-2 border-black dark:border-gray-100 pb-2`}>
           <span className="font-black">Structure Builder</span>
           <div className={cn("flex items-center", isMobile ? "gap-1" : "gap-2")}>
+            <ResponsiveButton
+              onClick={undo}
+              size="sm"
+              disabled={!canUndo}
+              iconOnly
+              title="Undo (Ctrl/Cmd+Z)"
+              icon={<Undo2 className="h-4 w-4 stroke-[3]" />}
+              className="bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all"
+            />
+            <ResponsiveButton
+              onClick={redo}
+              size="sm"
+              disabled={!canRedo}
+              iconOnly
+              title="Redo (Ctrl/Cmd+Shift+Z)"
+              icon={<Redo2 className="h-4 w-4 stroke-[3]" />}
+              className="bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all"
+            />
+            <ResponsiveButton
+              onClick={() => find.setIsOpen(!find.isOpen)}
+              size="sm"
+              disabled={!elements.length}
+              iconOnly
+              title="Find and replace (Ctrl/Cmd+Shift+F)"
+              icon={<Search className="h-4 w-4 stroke-[3]" />}
+              className="bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all"
+            />
             {ENABLE_IMPORT_FILE && (
               <>
                 <input
@@ -681,6 +1441,19 @@ const PromptBuilder: React.FC = () => {
             />
           </div>
         </h2>
+
+        {find.isOpen && (
+          <FindReplacePanel
+            find={find}
+            onNavigate={find.setCurrentIndex}
+            onReplace={replaceCurrentMatch}
+            onReplaceAll={replaceAllCurrentMatches}
+          />
+        )}
+
+        {elements.length > 0 && (
+          <TreeFilterBar value={treeFilter} onChange={setTreeFilter} result={treeFilterResult} />
+        )}
         
         <div className={cn(
           "mb-6 bg-white dark:bg-gray-800 rounded-none border-2 border-black dark:border-gray-100 p-4 min-h-[200px] max-h-[60vh] overflow-y-auto font-mono",
@@ -701,35 +1474,129 @@ const PromptBuilder: React.FC = () => {
               onToggleVisibility={toggleVisibilityElement}
               onMoveUp={moveElementUp}
               onMoveDown={moveElementDown}
+              onIndent={indentTreeElement}
+              onOutdent={outdentTreeElement}
+              onEditElement={editTreeElement}
+              onDuplicate={duplicateSelectedElement}
+              duplicateOptions={duplicateOptions}
+              onDuplicateOptionsChange={setDuplicateOptions}
+              onRefactor={refactorElement}
               selectedElementId={selectedElement?.id}
+              selectedIds={selectedIds}
+              onSelectionChange={changeSelection}
+              tokenCounts={elementTokenCounts}
+              highlights={find.isOpen ? find.highlights : undefined}
+              filter={treeFilterResult}
+              overBudgetIds={overBudgetIds}
             />
           )}
         </div>
 
-        <div className={cn(
-          "border-2 border-black dark:border-gray-100 p-4 bg-white dark:bg-gray-800 rounded-none h-[400px] flex flex-col",
-          !selectedElement && "flex items-center justify-center"
-        )}>
-          {selectedElement ? (
-            <ElementEditor 
-              element={selectedElement} 
-              onUpdate={updateElement} 
+        <Tabs
+          value={editorTab}
+          onValueChange={setEditorTab}
+          className="border-2 border-black dark:border-gray-100 p-4 bg-white dark:bg-gray-800 rounded-none h-[400px] flex flex-col"
+        >
+          <TabsList className="flex-shrink-0 self-start h-auto p-0 gap-1 bg-transparent rounded-none">
+            <TabsTrigger
+              value="element"
+              className="font-mono font-bold rounded-none border-2 border-black dark:border-gray-100 px-2 py-0.5 data-[state=active]:bg-[#9AE66E] data-[state=active]:text-black"
+            >
+              Element
+            </TabsTrigger>
+            <TabsTrigger
+              value="variables"
+              className="font-mono font-bold rounded-none border-2 border-black dark:border-gray-100 px-2 py-0.5 data-[state=active]:bg-[#9AE66E] data-[state=active]:text-black"
+            >
+              Variables{variables.length > 0 && ` (${variables.length})`}
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent
+            value="element"
+            className={cn(
+              "flex-1 min-h-0 mt-3",
+              !selectedElement && "flex items-center justify-center"
+            )}
+          >
+            {isMultiSelect ? (
+              <SelectionSummary
+                elements={selectedElements}
+                roots={selectedRoots}
+                tokenCounts={elementTokenCounts}
+                onDelete={deleteSelection}
+                onSetVisibility={setSelectionVisibility}
+                onSetCollapsed={setSelectionCollapsed}
+                onWrap={() => wrapSelection()}
+                onMerge={() => refactorElement(selectedIds[0], 'merge')}
+                onClear={() => changeSelection(selectedElement ? [selectedElement.id] : [])}
+              />
+            ) : selectedElement ? (
+              <ElementEditor 
+                element={selectedElement} 
+                onUpdate={updateElement} 
+              />
+            ) : (
+              <div className="text-center text-gray-400">
+                <p className={`font-mono ${isMobile ? 'text-xs' : 'text-sm'}`}>Select an element to edit its properties.</p>
+              </div>
+            )}
+          </TabsContent>
+          <TabsContent value="variables" className="flex-1 min-h-0 mt-3">
+            <VariablesPanel
+              variables={variables}
+              values={variableValues}
+              onValueChange={updateVariableValue}
+              onDefinitionChange={updateVariableDefinition}
             />
-          ) : (
-            <div className="text-center text-gray-400">
-              <p className={`font-mono ${isMobile ? 'text-xs' : 'text-sm'}`}>Select an element to edit its properties.</p>
-            </div>
-          )}
-        </div>
+          </TabsContent>
+        </Tabs>
       </Card>
       
       <Card className="p-4 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.5)] border-2 border-black dark:border-gray-100 rounded-none bg-[#F2FCE2] dark:bg-gray-800 flex flex-col">
-        <h2 className={`${isMobile ? 'text-lg' : 'text-xl'} font-bold mb-4 flex justify-between items-center border-b-2 border-black dark:border-gray-100 pb-2 flex-shrink-0`}>
+        <h2 className={cn(
+          `${isMobile ? 'text-lg' : 'text-xl'} font-bold mb-4 flex justify-between items-center border-b-2 border-black dark:border-gray-100 pb-2 flex-shrink-0`,
+          overBudgetIds.size > 0 && "border-destructive dark:border-destructive"
+        )}>
           <span className="font-black">XML Preview</span>
           <div className={cn("flex items-center", isMobile ? "gap-1" : "gap-3")}> 
-            <span className={`${isMobile ? 'text-xs' : 'text-sm'} font-mono font-bold text-gray-600 dark:text-gray-400 pr-1`}>
-              ~{formatTokenCount(tokenCount)}
-            </span>
+            <TokenBreakdown
+              elements={renderedElements}
+              counts={elementTokenCounts}
+              total={tokenCount}
+              isExact={isTokenCountExact}
+              budget={tokenBudget}
+              onBudgetChange={setTokenBudget}
+              overBudgetIds={overBudgetIds}
+            />
+            <select
+              value={tokenizerModel}
+              onChange={(e) => setTokenizerModel(e.target.value)}
+              title={TOKENIZER_PICKER_TITLE}
+              aria-label="Tokenizer model"
+              className={`${isMobile ? 'text-xs max-w-[90px]' : 'text-sm max-w-[150px]'} h-8 font-mono font-bold bg-white dark:bg-gray-700 border-2 border-black rounded-none px-1`}
+            >
+              {TOKENIZER_MODELS.map(model => (
+                <option key={model.id} value={model.id}>{model.label}</option>
+              ))}
+            </select>
+            <SerializerSettings options={serializeOptions} onChange={setSerializeOptions} />
+            <ResponsiveButton
+              onClick={() => setIsSourceMode(mode => !mode)}
+              size="sm"
+              title={isSourceMode ? 'Back to preview' : 'Edit XML source'}
+              icon={isSourceMode ? <Check className="h-4 w-4 stroke-[3]" /> : <Code2 className="h-4 w-4 stroke-[3]" />}
+              text={isSourceMode ? 'Done' : 'Source'}
+              className="bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all"
+            />
+            <ResponsiveButton
+              onClick={() => setIsShareOpen(true)}
+              size="sm"
+              disabled={!elements.length}
+              title="Share as a link"
+              icon={<Share2 className="h-4 w-4 stroke-[3]" />}
+              text="Share"
+              className="bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all"
+            />
             <ResponsiveButton
               onClick={openSaveDialog}
               size="sm"
@@ -746,6 +1613,14 @@ const PromptBuilder: React.FC = () => {
             />
           </div>
         </h2>
+        {isSourceMode ? (
+          <XMLSourceEditor
+            elements={elements}
+            options={serializeOptions}
+            onElementsChange={applySourceEdit}
+            className="flex-1"
+          />
+        ) : (
         <pre
           id="xml-preview"
           contentEditable={ENABLE_IMPORT_PASTE && elements.length === 0}
@@ -768,10 +1643,15 @@ const PromptBuilder: React.FC = () => {
         >
           {elements.length === 0
             ? (ENABLE_IMPORT_PASTE ? (rawInput || (ENABLE_IMPORT_FILE && isDragActive ? 'Drop file to import…' : '')) : '')
-            : outputXML}
+            : previewMatches.length > 0
+              ? <HighlightedText text={outputXML} ranges={previewMatches} />
+              : outputXML}
         </pre>
+        )}
       </Card>
 
+      <ImportReportDialog report={importReport} onClose={() => setImportReport(null)} />
+
       {/* Save Template Dialog */}
       <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
         <DialogContent className="border-2 border-black dark:border-gray-100 rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.5)] bg-[#F2FCE2] dark:bg-gray-800">
@@ -783,7 +1663,7 @@ const PromptBuilder: React.FC = () => {
             <Input
               id="tpl-name"
               value={saveName}
-              onChange={(e) => setSaveName(e.target.value)}
+              onChange={(e) => changeSaveName(e.target.value)}
               onKeyDown={(e) => {
                 if (e.key === 'Enter') {
                   e.preventDefault();
@@ -793,10 +1673,53 @@ const PromptBuilder: React.FC = () => {
               placeholder="My template"
               className="rounded-none border-2 border-black"
             />
+            <Label htmlFor="tpl-folder">Folder</Label>
+            <Input
+              id="tpl-folder"
+              list="tpl-folder-options"
+              value={saveMeta.folder}
+              onChange={(e) => setSaveMeta(prev => ({ ...prev, folder: e.target.value }))}
+              placeholder="e.g. Team/Reviews"
+              className="rounded-none border-2 border-black"
+            />
+            <datalist id="tpl-folder-options">
+              {collectFolders(templates).map(f => <option key={f} value={f} />)}
+            </datalist>
+            <Label htmlFor="tpl-tags">Tags</Label>
+            <Input
+              id="tpl-tags"
+              value={saveMeta.tags}
+              onChange={(e) => setSaveMeta(prev => ({ ...prev, tags: e.target.value }))}
+              placeholder="comma, separated"
+              className="rounded-none border-2 border-black"
+            />
+            <Label htmlFor="tpl-description">Description</Label>
+            <Textarea
+              id="tpl-description"
+              value={saveMeta.description}
+              onChange={(e) => setSaveMeta(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="What is this prompt for?"
+              rows={2}
+              className="rounded-none border-2 border-black min-h-0 resize-none"
+            />
+            <Label htmlFor="tpl-message">Message (optional)</Label>
+            <Input
+              id="tpl-message"
+              value={saveMessage}
+              onChange={(e) => setSaveMessage(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  saveCurrentTemplate();
+                }
+              }}
+              placeholder="What changed?"
+              className="rounded-none border-2 border-black"
+            />
           </div>
           <DialogFooter>
             <Button onClick={() => setIsSaveOpen(false)} className="bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all focus-visible:ring-0 focus-visible:ring-offset-0">Cancel</Button>
-            <Button onClick={saveCurrentTemplate} className="bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all focus-visible:ring-0 focus-visible:ring-offset-0">Save</Button>
+            <Button onClick={saveCurrentTemplate} disabled={isSavingTemplate} className="bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all focus-visible:ring-0 focus-visible:ring-offset-0">{isSavingTemplate ? 'Saving…' : 'Save'}</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -807,30 +1730,50 @@ const PromptBuilder: React.FC = () => {
           <DialogHeader className="border-b-2 border-black dark:border-gray-100 pb-2 mb-2">
             <DialogTitle className={`${isMobile ? 'text-lg' : 'text-xl'} font-black`}>Load Template</DialogTitle>
           </DialogHeader>
-          <div className="max-h-[50vh] overflow-y-auto overflow-x-visible pr-2">
-            {templates.length === 0 ? (
-              <div className="text-sm text-gray-500">No saved templates yet.</div>
-            ) : (
-              <ul className="divide-y divide-black/20">
-                {templates.map((tpl) => (
-                  <li key={tpl.id} className="py-2 flex items-center justify-between gap-2">
-                    <div className="min-w-0">
-                      <div className="font-bold truncate">{tpl.name}</div>
-                      <div className="text-xs text-gray-600">
-                        {new Date(tpl.updatedAt).toLocaleString()}
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-2 shrink-0">
-                      <Button onClick={() => loadTemplate(tpl)} className="bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none px-3 py-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all focus-visible:ring-0 focus-visible:ring-offset-0">Load</Button>
-                      <Button onClick={() => deleteTemplate(tpl)} className="bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none px-3 py-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all focus-visible:ring-0 focus-visible:ring-offset-0">Delete</Button>
-                    </div>
-                  </li>
-                ))}
-              </ul>
-            )}
-          </div>
+          {historyTemplate ? (
+            <TemplateHistory
+              template={historyTemplate}
+              serializeOptions={serializeOptions}
+              tokenizerModel={tokenizerModel}
+              onRestore={(version) => restoreTemplateVersion(historyTemplate, version)}
+              onBack={() => setHistoryTemplate(null)}
+            />
+          ) : (
+            <TemplateLibrary
+              templates={templates}
+              onLoad={loadTemplate}
+              onShowHistory={setHistoryTemplate}
+              onDelete={deleteTemplate}
+              onExport={exportTemplates}
+              onImportBundle={() => bundleInputRef.current?.click()}
+            />
+          )}
+          <input
+            ref={bundleInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={onBundleInputChange}
+          />
         </DialogContent>
       </Dialog>
+
+      <CommandPalette
+        open={isPaletteOpen}
+        onOpenChange={setIsPaletteOpen}
+        actions={paletteActions}
+        elements={elements}
+        onJumpTo={jumpToElement}
+      />
+
+      <ShareDialog open={isShareOpen} onOpenChange={setIsShareOpen} prompt={promptToShare} />
+
+      <BundleImportDialog
+        incoming={incomingBundle}
+        existing={templates}
+        onImport={importBundle}
+        onClose={() => setIncomingBundle(null)}
+      />
     </div>
   );
 };
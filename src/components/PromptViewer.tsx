@@ -0,0 +1,231 @@
+// Prompt Viewer - read-only outline and highlighted XML for reviewing a prompt
+// Outline and XML share one collapse state; nothing here can change the prompt
+
+import React, { useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, ChevronsDownUp, ChevronsUpDown, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { cn, formatTokenCount } from '@/lib/utils';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useTokenCount } from '@/hooks/useTokenCount';
+import { useElementTokenCounts } from '@/hooks/useElementTokenCounts';
+import { serializeXML, DEFAULT_SERIALIZE_OPTIONS } from '@/lib/serialize-xml';
+import { TOKENIZER_MODELS, TOKENIZER_PICKER_TITLE, DEFAULT_TOKENIZER_MODEL } from '@/lib/tokenizer';
+import { buildOutline, highlightXML, type OutlineSection, type XMLTokenKind } from '@/lib/xml-outline';
+import type { XMLElement } from './PromptBuilder';
+
+interface PromptViewerProps {
+  elements: XMLElement[];
+}
+
+const TOKEN_CLASSES: Record<XMLTokenKind, string> = {
+  tag: 'text-[#2F7A1F] dark:text-[#9AE66E] font-bold',
+  'attr-name': 'text-purple-700 dark:text-purple-300',
+  'attr-value': 'text-blue-700 dark:text-blue-300',
+  punct: 'text-gray-500 dark:text-gray-400',
+  comment: 'text-gray-400 italic',
+  cdata: 'text-orange-700 dark:text-orange-300',
+  text: '',
+};
+
+const buttonClass =
+  'bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all';
+
+const flattenSections = (sections: OutlineSection[]): OutlineSection[] =>
+  sections.flatMap(section => [section, ...flattenSections(section.children)]);
+
+// The chain of sections from the top level down to `id`
+const pathTo = (sections: OutlineSection[], id: string): OutlineSection[] | null => {
+  for (const section of sections) {
+    if (section.id === id) return [section];
+    const rest = pathTo(section.children, id);
+    if (rest) return [section, ...rest];
+  }
+  return null;
+};
+
+const PromptViewer: React.FC<PromptViewerProps> = ({ elements }) => {
+  const isMobile = useIsMobile();
+  const [tokenizerModel, setTokenizerModel] = useState<string>(DEFAULT_TOKENIZER_MODEL);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const codeRef = useRef<HTMLDivElement | null>(null);
+
+  const xml = useMemo(() => serializeXML(elements, DEFAULT_SERIALIZE_OPTIONS), [elements]);
+  const lines = useMemo(() => highlightXML(xml), [xml]);
+  const outline = useMemo(() => buildOutline(elements, DEFAULT_SERIALIZE_OPTIONS), [elements]);
+  const sections = useMemo(() => flattenSections(outline), [outline]);
+  const sectionsByStart = useMemo(() => new Map(sections.map(s => [s.startLine, s])), [sections]);
+  const { count: totalTokens } = useTokenCount(xml, tokenizerModel);
+  const tokenCounts = useElementTokenCounts(elements, DEFAULT_SERIALIZE_OPTIONS, tokenizerModel);
+
+  // Only multi-line sections can fold
+  const foldable = sections.filter(s => s.endLine > s.startLine);
+
+  const toggle = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const revealSection = (id: string) => {
+    const path = pathTo(outline, id) ?? [];
+    // Unfold everything above the section so its line is on screen
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      path.slice(0, -1).forEach(section => next.delete(section.id));
+      return next;
+    });
+    const target = path[path.length - 1];
+    if (!target) return;
+    requestAnimationFrame(() => {
+      codeRef.current
+        ?.querySelector(`[data-line="${target.startLine}"]`)
+        ?.scrollIntoView({ block: 'start', behavior: 'smooth' });
+    });
+  };
+
+  const copyXML = () => {
+    navigator.clipboard.writeText(xml);
+    toast.success('XML copied to clipboard!');
+  };
+
+  const renderLine = (index: number) =>
+    lines[index].map((token, i) => (
+      <span key={i} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+    ));
+
+  // Walk the lines, replacing the body of each folded section with a marker
+  const codeRows: React.ReactNode[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    const section = sectionsByStart.get(index);
+    const isFoldable = section && section.endLine > section.startLine;
+    const isFolded = isFoldable && collapsed.has(section.id);
+
+    codeRows.push(
+      <div key={index} data-line={index} className="flex group">
+        <span className="w-10 shrink-0 pr-2 text-right text-gray-400 select-none">{index + 1}</span>
+        <span className="w-5 shrink-0 select-none">
+          {isFoldable && (
+            <button
+              type="button"
+              onClick={() => toggle(section.id)}
+              aria-label={isFolded ? `Expand ${section.tagName}` : `Collapse ${section.tagName}`}
+              className="align-middle text-gray-500 hover:text-black dark:hover:text-white"
+            >
+              {isFolded ? <ChevronRight className="h-3 w-3 stroke-[3]" /> : <ChevronDown className="h-3 w-3 stroke-[3]" />}
+            </button>
+          )}
+        </span>
+        <span className="flex-1 whitespace-pre-wrap break-words">
+          {renderLine(index)}
+          {isFolded && (
+            <>
+              <button
+                type="button"
+                onClick={() => toggle(section.id)}
+                className="mx-1 px-1 border border-black/40 dark:border-gray-500 text-xs text-gray-600 dark:text-gray-300 hover:bg-[#9AE66E]/40"
+              >
+                … {section.endLine - section.startLine - 1} lines
+              </button>
+              {lines[section.endLine].map((token, i) => (
+                <span key={i} className={TOKEN_CLASSES[token.kind]}>{token.text.trimStart()}</span>
+              ))}
+            </>
+          )}
+        </span>
+        {section && (
+          <span className="shrink-0 pl-2 text-xs text-gray-500 select-none opacity-60 group-hover:opacity-100">
+            {formatTokenCount(tokenCounts[section.id] ?? 0)}
+          </span>
+        )}
+      </div>
+    );
+
+    if (isFolded) index = section.endLine;
+  }
+
+  const renderOutline = (items: OutlineSection[], depth: number): React.ReactNode =>
+    items.map(section => {
+      const isFoldable = section.endLine > section.startLine;
+      const isFolded = collapsed.has(section.id);
+      return (
+        <li key={section.id}>
+          <div className="flex items-center gap-1 py-0.5" style={{ paddingLeft: depth * 12 }}>
+            <button
+              type="button"
+              onClick={() => toggle(section.id)}
+              disabled={!isFoldable}
+              aria-label={isFolded ? `Expand ${section.tagName}` : `Collapse ${section.tagName}`}
+              className={cn('shrink-0', !isFoldable && 'invisible')}
+            >
+              {isFolded ? <ChevronRight className="h-3 w-3 stroke-[3]" /> : <ChevronDown className="h-3 w-3 stroke-[3]" />}
+            </button>
+            <button
+              type="button"
+              onClick={() => revealSection(section.id)}
+              className="min-w-0 flex-1 truncate text-left font-bold hover:underline"
+            >
+              &lt;{section.tagName}&gt;
+            </button>
+            <span className="shrink-0 text-xs text-gray-500">{formatTokenCount(tokenCounts[section.id] ?? 0)}</span>
+          </div>
+          {!isFolded && section.children.length > 0 && (
+            <ul>{renderOutline(section.children, depth + 1)}</ul>
+          )}
+        </li>
+      );
+    });
+
+  return (
+    <div className="p-4 border-2 border-black dark:border-gray-100 rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] bg-[#F2FCE2] dark:bg-gray-800">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="font-mono text-sm font-bold">{formatTokenCount(totalTokens)}</div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={tokenizerModel}
+            onChange={(e) => setTokenizerModel(e.target.value)}
+            title={TOKENIZER_PICKER_TITLE}
+            aria-label="Tokenizer model"
+            className={`${isMobile ? 'text-xs max-w-[90px]' : 'text-sm max-w-[150px]'} h-8 font-mono font-bold bg-white dark:bg-gray-700 border-2 border-black rounded-none px-1`}
+          >
+            {TOKENIZER_MODELS.map(model => (
+              <option key={model.id} value={model.id}>{model.label}</option>
+            ))}
+          </select>
+          <Button size="sm" onClick={() => setCollapsed(new Set())} title="Expand all" className={buttonClass}>
+            <ChevronsUpDown className="h-4 w-4 stroke-[3]" />
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => setCollapsed(new Set(foldable.map(s => s.id)))}
+            title="Collapse all"
+            className={buttonClass}
+          >
+            <ChevronsDownUp className="h-4 w-4 stroke-[3]" />
+          </Button>
+          <Button size="sm" onClick={copyXML} className={buttonClass}>
+            <Copy className="h-4 w-4 stroke-[3] mr-1" />
+            Copy XML
+          </Button>
+        </div>
+      </div>
+
+      <div className={cn('grid gap-4', isMobile ? 'grid-cols-1' : 'grid-cols-[minmax(180px,1fr)_3fr]')}>
+        <nav aria-label="Prompt outline" className="bg-white dark:bg-gray-900 border-2 border-black dark:border-gray-700 p-2 font-mono text-sm max-h-[70vh] overflow-y-auto">
+          {outline.length > 0 ? <ul>{renderOutline(outline, 0)}</ul> : <p className="text-gray-500">No elements.</p>}
+        </nav>
+        <div
+          ref={codeRef}
+          className={`bg-white dark:bg-gray-900 border-2 border-black dark:border-gray-700 py-2 pr-2 font-mono ${isMobile ? 'text-xs' : 'text-sm'} max-h-[70vh] overflow-y-auto`}
+        >
+          {codeRows}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptViewer;
@@ -0,0 +1,113 @@
+// Selection Summary - shown in place of the element editor when several elements are selected
+// Bulk actions apply to the selected elements and take their descendants along
+
+import React from 'react';
+import { ChevronsDownUp, ChevronsUpDown, Eye, EyeOff, Group, Merge, Trash, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { formatTokenCount } from '@/lib/utils';
+import type { XMLElement } from './PromptBuilder';
+
+interface SelectionSummaryProps {
+  /** Selected elements in document order */
+  elements: XMLElement[];
+  /** Top-level selected elements, whose subtrees the token total covers */
+  roots: XMLElement[];
+  tokenCounts?: Record<string, number>;
+  onDelete: () => void;
+  onSetVisibility: (visible: boolean) => void;
+  onSetCollapsed: (collapsed: boolean) => void;
+  onWrap: () => void;
+  onMerge: () => void;
+  onClear: () => void;
+}
+
+const buttonClass =
+  'justify-start bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all';
+
+const SelectionSummary: React.FC<SelectionSummaryProps> = ({
+  elements,
+  roots,
+  tokenCounts,
+  onDelete,
+  onSetVisibility,
+  onSetCollapsed,
+  onWrap,
+  onMerge,
+  onClear
+}) => {
+  const isMobile = useIsMobile();
+
+  const tagCounts = new Map<string, number>();
+  elements.forEach(element => {
+    const label = element.kind === 'text' ? '#text' : element.tagName;
+    tagCounts.set(label, (tagCounts.get(label) ?? 0) + 1);
+  });
+  const hiddenCount = elements.filter(element => element.isVisible === false).length;
+  const hasCollapsible = elements.some(element => element.children.length > 0);
+  const tokens = tokenCounts ? roots.reduce((sum, root) => sum + (tokenCounts[root.id] ?? 0), 0) : undefined;
+
+  return (
+    <div className="flex flex-col h-full font-mono space-y-3 overflow-y-auto">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className={`font-black text-black dark:text-white ${isMobile ? 'text-sm' : 'text-base'}`}>
+          {elements.length} elements selected
+        </h3>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClear} title="Clear selection">
+          <X className="h-4 w-4 stroke-[3]" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {[...tagCounts.entries()].map(([tag, count]) => (
+          <span key={tag} className="px-1 text-xs font-bold border-2 border-black dark:border-gray-400">
+            {tag === '#text' ? tag : `<${tag}>`}{count > 1 && ` ×${count}`}
+          </span>
+        ))}
+      </div>
+
+      <p className={`text-gray-600 dark:text-gray-400 ${isMobile ? 'text-xs' : 'text-sm'}`}>
+        {roots.length < elements.length && `${roots.length} top-level, the rest nested inside them. `}
+        {hiddenCount > 0 && `${hiddenCount} hidden from output. `}
+        {tokens !== undefined && `${formatTokenCount(tokens)} including children.`}
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button size="sm" onClick={() => onSetVisibility(false)} className={buttonClass}>
+          <EyeOff className="h-4 w-4 stroke-[3] mr-1" />
+          Hide
+        </Button>
+        <Button size="sm" onClick={() => onSetVisibility(true)} className={buttonClass}>
+          <Eye className="h-4 w-4 stroke-[3] mr-1" />
+          Show
+        </Button>
+        <Button size="sm" onClick={() => onSetCollapsed(true)} disabled={!hasCollapsible} className={buttonClass}>
+          <ChevronsDownUp className="h-4 w-4 stroke-[3] mr-1" />
+          Collapse
+        </Button>
+        <Button size="sm" onClick={() => onSetCollapsed(false)} disabled={!hasCollapsible} className={buttonClass}>
+          <ChevronsUpDown className="h-4 w-4 stroke-[3] mr-1" />
+          Expand
+        </Button>
+        <Button size="sm" onClick={onWrap} className={buttonClass} title="Move the selection into a new parent element">
+          <Group className="h-4 w-4 stroke-[3] mr-1" />
+          Wrap
+        </Button>
+        <Button size="sm" onClick={onMerge} className={buttonClass} title="Combine adjacent siblings into the first one">
+          <Merge className="h-4 w-4 stroke-[3] mr-1" />
+          Merge
+        </Button>
+        <Button size="sm" variant="destructive" onClick={onDelete} className={`${buttonClass} bg-destructive hover:bg-destructive/80 text-white`}>
+          <Trash className="h-4 w-4 stroke-[3] mr-1" />
+          Delete
+        </Button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Drag any selected element to move them all together. Shift-click selects a range, Ctrl/Cmd-click adds or removes one.
+      </p>
+    </div>
+  );
+};
+
+export default SelectionSummary;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { DEFAULT_SERIALIZE_OPTIONS, type SerializeOptions } from '@/lib/serialize-xml';
+import type { ContentEscaping } from './PromptBuilder';
+
+interface SerializerSettingsProps {
+  options: SerializeOptions;
+  onChange: (options: SerializeOptions) => void;
+}
+
+const INDENT_CHOICES: Array<{ label: string; value: SerializeOptions['indent'] }> = [
+  { label: '2', value: 2 },
+  { label: '4', value: 4 },
+  { label: 'Tab', value: 'tab' },
+];
+
+const HIDDEN_CHOICES: Array<{ label: string; value: SerializeOptions['hiddenElements'] }> = [
+  { label: 'Omit', value: 'omit' },
+  { label: 'Comment', value: 'comment' },
+];
+
+const ESCAPING_CHOICES: Array<{ label: string; value: ContentEscaping }> = [
+  { label: 'Raw', value: 'raw' },
+  { label: 'Escape', value: 'escape' },
+  { label: 'CDATA', value: 'cdata' },
+];
+
+const SerializerSettings: React.FC<SerializerSettingsProps> = ({ options, onChange }) => {
+  const update = (patch: Partial<SerializeOptions>) => onChange({ ...options, ...patch });
+
+  const toggle = (key: keyof SerializeOptions, label: string) => (
+    <label className="flex items-center gap-2 text-sm cursor-pointer">
+      <input
+        type="checkbox"
+        checked={!!options[key]}
+        onChange={(e) => update({ [key]: e.target.checked })}
+        className="accent-[#76B947]"
+      />
+      {label}
+    </label>
+  );
+
+  const choiceGroup = <K extends 'indent' | 'hiddenElements' | 'contentEscaping'>(
+    key: K,
+    label: string,
+    choices: Array<{ label: string; value: SerializeOptions[K] }>
+  ) => (
+    <div className="space-y-1">
+      <Label className="font-bold text-sm">{label}</Label>
+      <div className="flex gap-1">
+        {choices.map(choice => (
+          <button
+            key={choice.label}
+            type="button"
+            onClick={() => update({ [key]: choice.value })}
+            className={cn(
+              "flex-1 border-2 border-black text-sm font-bold py-0.5",
+              options[key] === choice.value ? "bg-[#9AE66E] text-black" : "bg-white dark:bg-gray-700"
+            )}
+          >
+            {choice.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="sm"
+          title="Output format"
+          className="bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none px-2 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all"
+        >
+          <Settings2 className="h-4 w-4 stroke-[3]" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="w-64 font-mono border-2 border-black dark:border-gray-100 rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] bg-[#F2FCE2] dark:bg-gray-800 space-y-3"
+      >
+        <div className="font-black border-b-2 border-black dark:border-gray-100 pb-1">Output Format</div>
+
+        {choiceGroup('indent', 'Indent', INDENT_CHOICES)}
+
+        <div className="space-y-1">
+          {toggle('inlineShortContent', 'Inline short content')}
+          {options.inlineShortContent && (
+            <div className="flex items-center gap-2 pl-5 text-sm">
+              <span>up to</span>
+              <Input
+                type="number"
+                min={1}
+                value={options.inlineMaxLength}
+                onChange={(e) => update({ inlineMaxLength: Math.max(1, Number(e.target.value) || 1) })}
+                className="h-7 w-16 border-2 border-black rounded-none font-mono text-sm"
+              />
+              <span>chars</span>
+            </div>
+          )}
+          {toggle('blankLineBetweenSections', 'Blank line between sections')}
+          {toggle('selfCloseEmpty', 'Self-close empty elements')}
+          {toggle('trailingNewline', 'Trailing newline')}
+        </div>
+
+        {choiceGroup('contentEscaping', 'Content escaping', ESCAPING_CHOICES)}
+        {choiceGroup('hiddenElements', 'Hidden elements', HIDDEN_CHOICES)}
+
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_SERIALIZE_OPTIONS)}
+          className="text-xs underline text-gray-600 dark:text-gray-400"
+        >
+          Reset to defaults
+        </button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SerializerSettings;
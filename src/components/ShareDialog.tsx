@@ -0,0 +1,162 @@
+// Share Dialog - build a link that carries the current prompt in its URL fragment,
+// or upload a snapshot and share a short /s/:id link instead
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Copy, Link2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useIsMobile } from '@/hooks/use-mobile';
+import {
+  SHARE_LINK_MAX_LENGTH,
+  SHARE_LINK_WARN_LENGTH,
+  buildShareUrl,
+  encodeSharedPrompt,
+  shareLinkSize,
+  type SharedPrompt,
+  type ShareMode
+} from '@/lib/share-link';
+import { buildShortUrl, createShortLink, type ShortLink } from '@/lib/share-api';
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  prompt: SharedPrompt;
+}
+
+const buttonClass =
+  'bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all focus-visible:ring-0 focus-visible:ring-offset-0';
+
+const SHARE_MODES: Array<{ value: ShareMode; label: string; hint: string }> = [
+  { value: 'builder', label: 'Open in builder', hint: 'The recipient gets an editable copy' },
+  { value: 'preview', label: 'Read-only preview', hint: 'The recipient sees the XML and can copy it' },
+];
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ open, onOpenChange, prompt }) => {
+  const isMobile = useIsMobile();
+  const [mode, setMode] = useState<ShareMode>('builder');
+  const [fragment, setFragment] = useState<string | null>(null);
+  const [shortLink, setShortLink] = useState<ShortLink | null>(null);
+  const [isCreatingShortLink, setIsCreatingShortLink] = useState(false);
+
+  // Encoding is async (CompressionStream); only redo it while the dialog is showing
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setFragment(null);
+    // A snapshot is of the prompt as it was; a changed prompt needs a new one
+    setShortLink(null);
+    encodeSharedPrompt(prompt)
+      .then(encoded => {
+        if (!cancelled) setFragment(encoded);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error('Could not create a share link.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, prompt]);
+
+  const url = shortLink
+    ? buildShortUrl(window.location.origin, shortLink.id, mode)
+    : fragment === null ? '' : buildShareUrl(window.location.origin, fragment, mode);
+  const size = url && !shortLink ? shareLinkSize(url) : 'ok';
+
+  const makeShortLink = async () => {
+    setIsCreatingShortLink(true);
+    try {
+      setShortLink(await createShortLink(prompt));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not create a short link.');
+    } finally {
+      setIsCreatingShortLink(false);
+    }
+  };
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(url);
+    toast.success('Share link copied to clipboard!');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-2 border-black dark:border-gray-100 rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.5)] bg-[#F2FCE2] dark:bg-gray-800">
+        <DialogHeader className="border-b-2 border-black dark:border-gray-100 pb-2 mb-2">
+          <DialogTitle className={`${isMobile ? 'text-lg' : 'text-xl'} font-black`}>Share Prompt</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3 font-mono text-sm">
+          <fieldset className="space-y-1">
+            <legend className="font-bold mb-1">Link opens as</legend>
+            {SHARE_MODES.map(option => (
+              <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="share-mode"
+                  value={option.value}
+                  checked={mode === option.value}
+                  onChange={() => setMode(option.value)}
+                  className="mt-1 accent-black"
+                />
+                <span>
+                  <span className="font-bold">{option.label}</span>
+                  <span className="block text-xs text-gray-600 dark:text-gray-400">{option.hint}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <Input
+            readOnly
+            value={url || 'Creating link…'}
+            onFocus={(e) => e.target.select()}
+            aria-label="Share link"
+            className="rounded-none border-2 border-black font-mono text-xs"
+          />
+          <div className="text-xs text-gray-600 dark:text-gray-400">
+            {shortLink
+              ? `Short link to a stored copy of this prompt. It expires on ${new Date(shortLink.expiresAt).toLocaleDateString()}.`
+              : `${url.length.toLocaleString()} characters. The prompt travels inside the link; nothing is uploaded.`}
+          </div>
+
+          {size !== 'ok' && (
+            <div
+              role="alert"
+              className={`flex items-start gap-2 border-2 border-black p-2 text-xs ${size === 'too-long' ? 'bg-red-100 dark:bg-red-900/40' : 'bg-yellow-100 dark:bg-yellow-900/40'}`}
+            >
+              <AlertTriangle className="h-4 w-4 shrink-0 stroke-[3]" />
+              <span>
+                {size === 'too-long'
+                  ? `Over ${SHARE_LINK_MAX_LENGTH.toLocaleString()} characters: many browsers and servers will reject this link.`
+                  : `Over ${SHARE_LINK_WARN_LENGTH.toLocaleString()} characters: some chat apps, mail clients and URL shorteners may cut this link.`}
+                {' '}A short link avoids this.
+              </span>
+            </div>
+          )}
+
+          {!shortLink && (
+            <Button
+              size="sm"
+              onClick={makeShortLink}
+              disabled={!fragment || isCreatingShortLink}
+              className={buttonClass}
+            >
+              <Link2 className="h-4 w-4 stroke-[3] mr-1" />
+              {isCreatingShortLink ? 'Creating…' : 'Create short link'}
+            </Button>
+          )}
+        </div>
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)} className={buttonClass}>Close</Button>
+          <Button onClick={copyLink} disabled={!url} className={buttonClass}>
+            <Copy className="h-4 w-4 stroke-[3] mr-1" />
+            Copy link
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
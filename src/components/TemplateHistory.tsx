@@ -0,0 +1,180 @@
+// Template History - saved versions of one template, with diff and restore
+// Shown inside the Load dialog in place of the template list
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { cn, estimateTokenCount, formatTokenCount } from '@/lib/utils';
+import { countTokensBatch } from '@/lib/tokenizer';
+import { serializeXML, type SerializeOptions } from '@/lib/serialize-xml';
+import { diffTrees, type TreeChangeKind } from '@/lib/tree-diff';
+import {
+  listVersions,
+  describeStorageError,
+  type SavedTemplate,
+  type TemplateVersion
+} from '@/lib/template-store';
+
+interface TemplateHistoryProps {
+  template: SavedTemplate;
+  serializeOptions: SerializeOptions;
+  tokenizerModel: string;
+  onRestore: (version: TemplateVersion) => void;
+  onBack: () => void;
+}
+
+const CHANGE_STYLES: Record<TreeChangeKind, { label: string; className: string }> = {
+  added: { label: 'added', className: 'bg-[#9AE66E] text-black' },
+  removed: { label: 'removed', className: 'bg-red-300 text-black' },
+  moved: { label: 'moved', className: 'bg-blue-200 text-black' },
+  changed: { label: 'changed', className: 'bg-yellow-200 text-black' },
+};
+
+const selectClass =
+  'h-7 min-w-0 flex-1 border-2 border-black dark:border-gray-100 rounded-none bg-white dark:bg-gray-700 px-1 text-xs font-mono font-bold';
+
+const TemplateHistory: React.FC<TemplateHistoryProps> = ({
+  template,
+  serializeOptions,
+  tokenizerModel,
+  onRestore,
+  onBack
+}) => {
+  const [versions, setVersions] = useState<TemplateVersion[] | null>(null);
+  const [tokenCounts, setTokenCounts] = useState<Record<string, number>>({});
+  // Compare the previous version (from) with the newest (to) until the user picks others
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    listVersions(template.id)
+      .then(list => {
+        if (cancelled) return;
+        setVersions(list);
+        setToId(list[0]?.id ?? '');
+        setFromId(list[1]?.id ?? list[0]?.id ?? '');
+      })
+      .catch(err => {
+        if (!cancelled) setVersions([]);
+        toast.error(describeStorageError(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [template.id]);
+
+  useEffect(() => {
+    if (!versions?.length) return;
+    let cancelled = false;
+    const texts = versions.map(v => serializeXML(v.elements, serializeOptions));
+    countTokensBatch(texts, tokenizerModel)
+      .catch(() => texts.map(estimateTokenCount))
+      .then(counts => {
+        if (!cancelled) setTokenCounts(Object.fromEntries(versions.map((v, i) => [v.id, counts[i]])));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [versions, serializeOptions, tokenizerModel]);
+
+  const changes = useMemo(() => {
+    const from = versions?.find(v => v.id === fromId);
+    const to = versions?.find(v => v.id === toId);
+    return from && to ? diffTrees(from.elements, to.elements) : [];
+  }, [versions, fromId, toId]);
+
+  const versionLabel = (version: TemplateVersion, index: number) =>
+    `v${versions!.length - index} · ${new Date(version.createdAt).toLocaleString()}`;
+
+  return (
+    <div className="space-y-3 font-mono">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" className="h-7 w-7 rounded-none" onClick={onBack} title="Back to templates">
+          <ArrowLeft className="h-4 w-4 stroke-[3]" />
+        </Button>
+        <div className="font-bold truncate">{template.name}</div>
+      </div>
+
+      {versions === null ? (
+        <div className="text-sm text-gray-500">Loading history…</div>
+      ) : versions.length === 0 ? (
+        <div className="text-sm text-gray-500">No saved versions.</div>
+      ) : (
+        <>
+          <ul className="max-h-[30vh] overflow-y-auto divide-y divide-black/20 pr-2">
+            {versions.map((version, index) => (
+              <li key={version.id} className="py-2 flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-xs font-bold">{versionLabel(version, index)}</div>
+                  {version.message && <div className="text-xs truncate">{version.message}</div>}
+                  <div className="text-xs text-gray-600">
+                    {formatTokenCount(tokenCounts[version.id] ?? estimateTokenCount(serializeXML(version.elements, serializeOptions)))}
+                    {index === 0 && ' · current'}
+                  </div>
+                </div>
+                <Button
+                  onClick={() => onRestore(version)}
+                  title="Restore this version"
+                  className="shrink-0 bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none px-2 py-1 h-7 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all focus-visible:ring-0 focus-visible:ring-offset-0"
+                >
+                  <RotateCcw className="h-4 w-4 stroke-[3] mr-1" />
+                  Restore
+                </Button>
+              </li>
+            ))}
+          </ul>
+
+          {versions.length > 1 && (
+            <div className="border-t-2 border-black dark:border-gray-100 pt-2 space-y-2">
+              <div className="flex items-center gap-2 text-xs font-bold">
+                <select aria-label="Compare from" value={fromId} onChange={(e) => setFromId(e.target.value)} className={selectClass}>
+                  {versions.map((v, i) => <option key={v.id} value={v.id}>{versionLabel(v, i)}</option>)}
+                </select>
+                <span>→</span>
+                <select aria-label="Compare to" value={toId} onChange={(e) => setToId(e.target.value)} className={selectClass}>
+                  {versions.map((v, i) => <option key={v.id} value={v.id}>{versionLabel(v, i)}</option>)}
+                </select>
+              </div>
+
+              {changes.length === 0 ? (
+                <div className="text-xs text-gray-500">No differences.</div>
+              ) : (
+                <ul className="max-h-[25vh] overflow-y-auto space-y-1 pr-2 text-xs">
+                  {changes.map(change => (
+                    <li key={`${change.kind}-${change.id}`} className="flex items-start gap-2">
+                      <span className={cn('shrink-0 border border-black px-1 font-bold', CHANGE_STYLES[change.kind].className)}>
+                        {CHANGE_STYLES[change.kind].label}
+                      </span>
+                      <div className="min-w-0">
+                        <div className="font-bold truncate">{change.path}</div>
+                        {change.kind === 'moved' && (
+                          <div className="text-gray-600 truncate">from {change.before}</div>
+                        )}
+                        {change.kind === 'changed' && (
+                          <div className="text-gray-600">
+                            {change.fields?.join(', ')}
+                            {change.fields?.includes('content') && (
+                              <>
+                                : <span className="line-through">{change.before || '(empty)'}</span>
+                                {' → '}
+                                <span>{change.after || '(empty)'}</span>
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TemplateHistory;
@@ -0,0 +1,210 @@
+// Template Library - searchable, filterable list of saved templates
+// Arrow keys move through results, Enter loads the highlighted template
+
+import React, { useMemo, useState } from 'react';
+import { Download, Folder, History, Trash, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { useIsMobile } from '@/hooks/use-mobile';
+import {
+  TEMPLATE_SORTS,
+  collectFolders,
+  collectTags,
+  filterTemplates,
+  sortTemplates,
+  templateSearchText,
+  type TemplateSort
+} from '@/lib/template-library';
+import type { SavedTemplate } from '@/lib/template-store';
+
+interface TemplateLibraryProps {
+  templates: SavedTemplate[];
+  onLoad: (template: SavedTemplate) => void;
+  onShowHistory: (template: SavedTemplate) => void;
+  onDelete: (template: SavedTemplate) => void;
+  onExport: (templates: SavedTemplate[]) => void;
+  onImportBundle: () => void;
+}
+
+const selectClass =
+  'h-7 min-w-0 flex-1 border-2 border-black dark:border-gray-100 rounded-none bg-white dark:bg-gray-700 px-1 text-xs font-mono font-bold';
+
+const toolbarButtonClass =
+  'h-7 px-2 text-xs bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all focus-visible:ring-0 focus-visible:ring-offset-0';
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({
+  templates,
+  onLoad,
+  onShowHistory,
+  onDelete,
+  onExport,
+  onImportBundle
+}) => {
+  const isMobile = useIsMobile();
+  const [query, setQuery] = useState('');
+  const [folder, setFolder] = useState('');
+  const [tag, setTag] = useState('');
+  const [sort, setSort] = useState<TemplateSort>('updated');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const folders = useMemo(() => collectFolders(templates), [templates]);
+  const tags = useMemo(() => collectTags(templates), [templates]);
+  // Flattening every tree is the expensive part; do it once per library, not per keystroke
+  const searchIndex = useMemo(
+    () => new Map(templates.map(t => [t.id, templateSearchText(t)])),
+    [templates]
+  );
+
+  const results = useMemo(
+    () => sortTemplates(
+      filterTemplates(templates, { query, folder, tag }, t => searchIndex.get(t.id) ?? ''),
+      sort
+    ),
+    [templates, query, folder, tag, sort, searchIndex]
+  );
+
+  // Deleted templates drop out of the selection on their own
+  const selected = templates.filter(t => selectedIds.has(t.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toolbar = (
+    <div className="flex flex-wrap items-center gap-2 pb-2">
+      <Button onClick={onImportBundle} className={toolbarButtonClass}>
+        <Upload className="h-3 w-3 stroke-[3] mr-1" />
+        Import bundle
+      </Button>
+      {templates.length > 0 && (
+        <Button
+          onClick={() => onExport(selected.length ? selected : templates)}
+          className={toolbarButtonClass}
+        >
+          <Download className="h-3 w-3 stroke-[3] mr-1" />
+          {selected.length ? `Export selected (${selected.length})` : 'Export all'}
+        </Button>
+      )}
+      {selected.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setSelectedIds(new Set())}
+          className="text-xs font-mono underline"
+        >
+          Clear selection
+        </button>
+      )}
+    </div>
+  );
+
+  if (templates.length === 0) {
+    return (
+      <div>
+        {toolbar}
+        <div className="text-sm text-gray-500">No saved templates yet.</div>
+      </div>
+    );
+  }
+
+  return (
+    <Command shouldFilter={false} className="bg-transparent font-mono rounded-none">
+      {toolbar}
+      <div className="border-2 border-black dark:border-gray-100 bg-white dark:bg-gray-700">
+        <CommandInput
+          value={query}
+          onValueChange={setQuery}
+          placeholder="Search names, tags and content…"
+          className="font-mono"
+        />
+      </div>
+
+      <div className="flex items-center gap-2 py-2">
+        <select aria-label="Folder" value={folder} onChange={(e) => setFolder(e.target.value)} className={selectClass}>
+          <option value="">All folders</option>
+          {folders.map(f => <option key={f} value={f}>{f}</option>)}
+        </select>
+        <select aria-label="Tag" value={tag} onChange={(e) => setTag(e.target.value)} className={selectClass}>
+          <option value="">All tags</option>
+          {tags.map(t => <option key={t} value={t}>#{t}</option>)}
+        </select>
+        <select aria-label="Sort" value={sort} onChange={(e) => setSort(e.target.value as TemplateSort)} className={selectClass}>
+          {TEMPLATE_SORTS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+        </select>
+      </div>
+
+      <CommandList className="max-h-[45vh] pr-2">
+        <CommandEmpty className="py-4 text-center text-sm text-gray-500">No matching templates.</CommandEmpty>
+        {results.map(tpl => (
+          <CommandItem
+            key={tpl.id}
+            value={tpl.id}
+            onSelect={() => onLoad(tpl)}
+            className="flex items-start justify-between gap-2 rounded-none border-b border-black/20 py-2 cursor-pointer data-[selected=true]:bg-[#9AE66E]/50"
+          >
+            <input
+              type="checkbox"
+              aria-label={`Select ${tpl.name}`}
+              checked={selectedIds.has(tpl.id)}
+              onClick={(e) => e.stopPropagation()}
+              onChange={() => toggleSelected(tpl.id)}
+              className="mt-1 h-4 w-4 shrink-0 accent-black"
+            />
+            <div className="min-w-0 flex-1">
+              <div className="font-bold truncate">{tpl.name}</div>
+              {tpl.description && (
+                <div className={`${isMobile ? 'text-[10px]' : 'text-xs'} text-gray-700 dark:text-gray-300 line-clamp-2`}>
+                  {tpl.description}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                {tpl.folder && (
+                  <span className="inline-flex items-center gap-0.5">
+                    <Folder className="h-3 w-3 stroke-[3]" />
+                    {tpl.folder}
+                  </span>
+                )}
+                {tpl.tags?.map(t => (
+                  <span key={t} className="border border-black/40 px-1">#{t}</span>
+                ))}
+                <span>{new Date(tpl.updatedAt).toLocaleString()}</span>
+              </div>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 rounded-none"
+                title="Version history"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onShowHistory(tpl);
+                }}
+              >
+                <History className="h-4 w-4 stroke-[3]" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 rounded-none text-destructive hover:text-destructive"
+                title="Delete template"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(tpl);
+                }}
+              >
+                <Trash className="h-4 w-4 stroke-[3]" />
+              </Button>
+            </div>
+          </CommandItem>
+        ))}
+      </CommandList>
+    </Command>
+  );
+};
+
+export default TemplateLibrary;
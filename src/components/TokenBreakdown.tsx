@@ -0,0 +1,110 @@
+import React from 'react';
+import { Bar, BarChart, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn, formatTokenCount } from '@/lib/utils';
+import { useIsMobile } from '@/hooks/use-mobile';
+import type { XMLElement } from './PromptBuilder';
+
+interface TokenBreakdownProps {
+  elements: XMLElement[];
+  counts: Record<string, number>;
+  total: number;
+  isExact: boolean;
+  budget: number;
+  onBudgetChange: (budget: number) => void;
+  overBudgetIds: Set<string>;
+}
+
+const TokenBreakdown: React.FC<TokenBreakdownProps> = ({
+  elements,
+  counts,
+  total,
+  isExact,
+  budget,
+  onBudgetChange,
+  overBudgetIds
+}) => {
+  const isMobile = useIsMobile();
+  const isOverBudget = budget > 0 && total > budget;
+
+  const data = elements
+    .filter(el => el.isVisible !== false)
+    .map(el => ({ id: el.id, name: el.kind === 'text' ? '#text' : el.tagName, tokens: counts[el.id] ?? 0 }));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          title={isExact
+            ? 'Counted with an OpenAI tokenizer; other models will differ. Click for breakdown'
+            : 'Estimated (~4 characters per token). Click for breakdown'}
+          className={cn(
+            `${isMobile ? 'text-xs' : 'text-sm'} font-mono font-bold pr-1 hover:underline`,
+            isOverBudget ? "text-destructive" : "text-gray-600 dark:text-gray-400"
+          )}
+        >
+          {isExact ? '' : '~'}{formatTokenCount(total)}
+          {budget > 0 && ` / ${budget.toLocaleString()}`}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="w-80 font-mono border-2 border-black dark:border-gray-100 rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] bg-[#F2FCE2] dark:bg-gray-800 space-y-3"
+      >
+        <div className="font-black border-b-2 border-black dark:border-gray-100 pb-1">Token Breakdown</div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <Label htmlFor="token-budget" className="font-bold">Budget</Label>
+          <Input
+            id="token-budget"
+            type="number"
+            min={0}
+            step={100}
+            value={budget || ''}
+            placeholder="none"
+            onChange={(e) => onBudgetChange(Math.max(0, Number(e.target.value) || 0))}
+            className="h-7 w-24 border-2 border-black rounded-none font-mono text-sm"
+          />
+          {isOverBudget && (
+            <span className="text-destructive font-bold text-xs">
+              +{formatTokenCount(total - budget)} over
+            </span>
+          )}
+        </div>
+
+        {data.length === 0 ? (
+          <p className="text-xs text-gray-500">No sections yet.</p>
+        ) : (
+          <div style={{ height: Math.min(40 + data.length * 28, 320) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={data} layout="vertical" margin={{ top: 0, right: 8, bottom: 0, left: 0 }}>
+                <XAxis type="number" hide />
+                <YAxis
+                  type="category"
+                  dataKey="name"
+                  width={90}
+                  tick={{ fontSize: 11, fontFamily: 'monospace' }}
+                />
+                <Tooltip
+                  cursor={{ fill: 'rgba(0,0,0,0.05)' }}
+                  formatter={(value: number) => [formatTokenCount(value), '']}
+                  separator=""
+                />
+                <Bar dataKey="tokens" stroke="#000" strokeWidth={1}>
+                  {data.map(entry => (
+                    <Cell key={entry.id} fill={overBudgetIds.has(entry.id) ? '#F87171' : '#9AE66E'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TokenBreakdown;
@@ -0,0 +1,57 @@
+// Tree Filter Bar - narrows the tree to matching elements
+// Escape or the clear button brings the full tree back, collapsed as before
+
+import React from 'react';
+import { ListFilter, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { useIsMobile } from '@/hooks/use-mobile';
+import type { TreeFilterResult } from '@/lib/tree-filter';
+
+interface TreeFilterBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  result: TreeFilterResult | null;
+}
+
+const TreeFilterBar: React.FC<TreeFilterBarProps> = ({ value, onChange, result }) => {
+  const isMobile = useIsMobile();
+
+  return (
+    <div className="mb-3 flex items-center gap-2 font-mono">
+      <div className="relative flex-1">
+        <ListFilter className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500 pointer-events-none" />
+        <Input
+          id="tree-filter"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape' && value) {
+              e.preventDefault();
+              onChange('');
+            }
+          }}
+          placeholder="Filter by tag or content"
+          aria-label="Filter elements"
+          className={cn(
+            'h-8 pl-8 border-2 border-black dark:border-gray-400 rounded-none focus:ring-[#9AE66E] focus:border-[#9AE66E] font-mono',
+            isMobile ? 'text-xs' : 'text-sm'
+          )}
+        />
+      </div>
+      {result && (
+        <>
+          <span role="status" className="text-xs text-gray-600 dark:text-gray-400 whitespace-nowrap">
+            {result.matchIds.size} of {result.total}
+          </span>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onChange('')} title="Clear filter (Escape)">
+            <X className="h-4 w-4 stroke-[3]" />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TreeFilterBar;
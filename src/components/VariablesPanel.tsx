@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useIsMobile } from '@/hooks/use-mobile';
+import type { TemplateVariable, VariableValues } from '@/lib/template-variables';
+
+interface VariablesPanelProps {
+  variables: TemplateVariable[];
+  values: VariableValues;
+  onValueChange: (name: string, value: string) => void;
+  onDefinitionChange: (variable: TemplateVariable) => void;
+}
+
+const VariablesPanel: React.FC<VariablesPanelProps> = ({
+  variables,
+  values,
+  onValueChange,
+  onDefinitionChange
+}) => {
+  const isMobile = useIsMobile();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (variables.length === 0) {
+    return (
+      <div className="flex h-full items-center justify-center text-center text-gray-400">
+        <p className={`font-mono ${isMobile ? 'text-xs' : 'text-sm'}`}>
+          No variables yet. Use {'{{name}}'} in element content to add one.
+        </p>
+      </div>
+    );
+  }
+
+  const inputClass = `h-8 border-2 border-black dark:border-gray-400 rounded-none focus:ring-[#9AE66E] focus:border-[#9AE66E] font-mono ${isMobile ? 'text-xs' : 'text-sm'}`;
+
+  return (
+    <div className="h-full overflow-y-auto font-mono space-y-3 pr-1">
+      {variables.map(variable => {
+        const isExpanded = expanded === variable.name;
+        const value = values[variable.name] ?? '';
+        const isMissing = variable.required && !value && !variable.defaultValue;
+
+        return (
+          <div key={variable.name} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <Label
+                htmlFor={`var-${variable.name}`}
+                className={`font-black text-black dark:text-white truncate ${isMobile ? 'text-xs' : 'text-sm'}`}
+              >
+                {`{{${variable.name}}}`}
+                {variable.required && <span className="text-destructive ml-1">*</span>}
+              </Label>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 flex-shrink-0"
+                onClick={() => setExpanded(isExpanded ? null : variable.name)}
+                title={isExpanded ? 'Hide variable settings' : 'Edit variable settings'}
+              >
+                {isExpanded ? (
+                  <ChevronDown className="h-4 w-4 stroke-[3]" />
+                ) : (
+                  <ChevronRight className="h-4 w-4 stroke-[3]" />
+                )}
+              </Button>
+            </div>
+            <Input
+              id={`var-${variable.name}`}
+              value={value}
+              onChange={(e) => onValueChange(variable.name, e.target.value)}
+              placeholder={variable.defaultValue || 'Enter value'}
+              className={`${inputClass} ${isMissing ? 'border-destructive' : ''}`}
+            />
+            {variable.description && !isExpanded && (
+              <p className="text-xs text-gray-500">{variable.description}</p>
+            )}
+            {isExpanded && (
+              <div className="border-l-2 border-black dark:border-gray-400 pl-2 space-y-1">
+                <Input
+                  value={variable.defaultValue ?? ''}
+                  onChange={(e) => onDefinitionChange({ ...variable, defaultValue: e.target.value })}
+                  placeholder="Default value"
+                  aria-label="Default value"
+                  className={inputClass}
+                />
+                <Input
+                  value={variable.description ?? ''}
+                  onChange={(e) => onDefinitionChange({ ...variable, description: e.target.value })}
+                  placeholder="Description"
+                  aria-label="Description"
+                  className={inputClass}
+                />
+                <label className="flex items-center gap-2 text-xs font-bold cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!variable.required}
+                    onChange={(e) => onDefinitionChange({ ...variable, required: e.target.checked })}
+                    className="accent-[#76B947]"
+                  />
+                  Required
+                </label>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default VariablesPanel;
@@ -0,0 +1,118 @@
+// XML Source Editor - edit the prompt as text, merged back into the tree
+// Re-parses after a short pause; unchanged elements keep their ids and UI state
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useIsMobile } from '@/hooks/use-mobile';
+import type { ParseDiagnostic } from '@/lib/loose-xml';
+import type { SerializeOptions } from '@/lib/serialize-xml';
+import { reparseSource, treeToSource } from '@/lib/source-edit';
+import type { XMLElement } from './PromptBuilder';
+
+interface XMLSourceEditorProps {
+  elements: XMLElement[];
+  options: SerializeOptions;
+  onElementsChange: (elements: XMLElement[]) => void;
+  className?: string;
+}
+
+const REPARSE_DELAY_MS = 400;
+
+const XMLSourceEditor: React.FC<XMLSourceEditorProps> = ({
+  elements,
+  options,
+  onElementsChange,
+  className
+}) => {
+  const isMobile = useIsMobile();
+  const [text, setText] = useState(() => treeToSource(elements, options));
+  const [error, setError] = useState<string | null>(null);
+  // Problems that lose text; warnings (kept as content) aren't worth interrupting typing for
+  const [problems, setProblems] = useState<ParseDiagnostic[]>([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // The tree we last produced from the text; anything else is an outside change (undo, drag…)
+  const appliedRef = useRef<XMLElement[]>(elements);
+  // The text that tree corresponds to; only a different text is an edit worth parsing
+  const sourceRef = useRef(text);
+  // Read at re-parse time, so a new callback from the parent doesn't restart the pause
+  const onElementsChangeRef = useRef(onElementsChange);
+
+  useEffect(() => {
+    onElementsChangeRef.current = onElementsChange;
+  }, [onElementsChange]);
+
+  useEffect(() => {
+    if (elements === appliedRef.current) return;
+    appliedRef.current = elements;
+    sourceRef.current = treeToSource(elements, options);
+    setText(sourceRef.current);
+    setError(null);
+    setProblems([]);
+  }, [elements, options]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const result = reparseSource(appliedRef.current, text, sourceRef.current);
+      setError(result?.error ?? null);
+      setProblems(result?.problems ?? []);
+      if (!result || result.error) return;
+
+      sourceRef.current = text;
+      if (!result.elements) return;
+      appliedRef.current = result.elements;
+      onElementsChangeRef.current(result.elements);
+    }, REPARSE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  const jumpTo = (diagnostic: ParseDiagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(diagnostic.offset, diagnostic.offset + Math.max(diagnostic.length, 1));
+  };
+
+  const message = error ?? problems[0]?.message;
+
+  return (
+    <div className={cn("flex flex-col min-h-0", className)}>
+      <textarea
+        ref={textareaRef}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        spellCheck={false}
+        aria-label="XML source"
+        className={cn(
+          `w-full flex-1 min-h-0 resize-none font-mono ${isMobile ? 'text-xs' : 'text-sm'} bg-white dark:bg-gray-800 border-2 border-black dark:border-gray-100 rounded-none p-4 focus:outline-none focus:ring-2 focus:ring-[#9AE66E]`,
+          message && "border-destructive"
+        )}
+      />
+      {message && (
+        <div
+          role="alert"
+          className="flex items-center gap-2 border-2 border-t-0 border-destructive bg-red-50 dark:bg-red-900/30 px-3 py-1 text-xs font-mono font-bold text-destructive"
+        >
+          <AlertTriangle className="h-4 w-4 flex-shrink-0 stroke-[3]" />
+          {!error && (
+            <button
+              type="button"
+              onClick={() => jumpTo(problems[0])}
+              className="flex-shrink-0 underline tabular-nums"
+              title="Select in source"
+            >
+              {problems[0].line}:{problems[0].column}
+            </button>
+          )}
+          <span className="truncate">{message}</span>
+          {!error && problems.length > 1 && (
+            <span className="ml-auto flex-shrink-0">+{problems.length - 1} more</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default XMLSourceEditor;
@@ -1,14 +1,29 @@
 // XML Tree Container - The Orchestra Conductor
 // Manages the entire drag-and-drop tree experience with flat structure
 
-import React from 'react';
-import { DndContext, DragOverlay, PointerSensor, useSensor, useSensors, useDroppable } from '@dnd-kit/core';
-import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import React, { useRef } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  useDroppable,
+  type Announcements,
+  type ScreenReaderInstructions
+} from '@dnd-kit/core';
+import { SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { cn } from '@/lib/utils';
 import { useXMLTreeDragDrop } from '@/hooks/useXMLTreeDragDrop';
 import DropIndicatorLine from './DropIndicatorLine';
 import XMLTreeItem from './XMLTreeItem';
 import XMLTreeGhost from './XMLTreeGhost';
+import type { FlatXMLElement } from '@/lib/tree-conversion';
+import type { DuplicateOptions } from '@/lib/tree-ops';
+import type { ElementHighlight } from '@/lib/find-replace';
+import type { TreeFilterResult } from '@/lib/tree-filter';
+import type { RefactorAction } from '@/lib/tree-refactor';
 import type { XMLElement } from './PromptBuilder';
 
 interface XMLTreeContainerProps {
@@ -16,12 +31,28 @@ interface XMLTreeContainerProps {
   onElementsChange: (elements: XMLElement[]) => void;
   onElementSelect: (element: XMLElement) => void;
   selectedElementId?: string;
+  // Multi-selection (includes selectedElementId); shift/ctrl-click change it through onSelectionChange
+  selectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
   onAddChild: (elementId: string) => void;
   onDelete: (elementId: string) => void;
   onToggleCollapse: (elementId: string) => void;
   onToggleVisibility: (elementId: string) => void;
   onMoveUp: (elementId: string) => void;
   onMoveDown: (elementId: string) => void;
+  onIndent: (elementId: string) => void;
+  onOutdent: (elementId: string) => void;
+  onEditElement: (elementId: string) => void;
+  onDuplicate: (elementId: string) => void;
+  duplicateOptions: DuplicateOptions;
+  onDuplicateOptionsChange: (options: DuplicateOptions) => void;
+  onRefactor: (elementId: string, action: RefactorAction) => void;
+  tokenCounts?: Record<string, number>;
+  overBudgetIds?: Set<string>;
+  /** Find matches by element id */
+  highlights?: Map<string, ElementHighlight>;
+  /** Show only matching elements and their ancestors; dragging is off while it is set */
+  filter?: TreeFilterResult | null;
   className?: string;
 }
 
@@ -30,19 +61,34 @@ const XMLTreeContainer: React.FC<XMLTreeContainerProps> = ({
   onElementsChange,
   onElementSelect,
   selectedElementId,
+  selectedIds,
+  onSelectionChange,
   onAddChild,
   onDelete,
   onToggleCollapse,
   onToggleVisibility,
   onMoveUp,
   onMoveDown,
+  onIndent,
+  onOutdent,
+  onEditElement,
+  onDuplicate,
+  duplicateOptions,
+  onDuplicateOptionsChange,
+  onRefactor,
+  tokenCounts,
+  overBudgetIds,
+  highlights,
+  filter = null,
   className
 }) => {
+  const listRef = useRef<HTMLDivElement | null>(null);
   
   // Our beautiful drag hook that handles everything
   const {
     activeId,
     draggedElement,
+    draggedIds,
     dropIndicator,
     isDragging,
     handleDragStart,
@@ -52,7 +98,7 @@ const XMLTreeContainer: React.FC<XMLTreeContainerProps> = ({
     getDepthStyle,
     isValidDropTarget,
     flatElements
-  } = useXMLTreeDragDrop(elements, onElementsChange);
+  } = useXMLTreeDragDrop(elements, onElementsChange, selectedIds, filter);
 
   // End-of-list droppable to allow explicit dropping after the last item
   const EndDropTarget: React.FC = () => {
@@ -67,33 +113,192 @@ const XMLTreeContainer: React.FC<XMLTreeContainerProps> = ({
     );
   };
 
-  // Configure drag sensors
+  // Configure drag sensors; the keyboard one starts from a focused drag handle with Space or Enter
   const sensors = useSensors(
     useSensor(PointerSensor, {
       activationConstraint: {
         distance: 8, // 8px movement before drag starts
       },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
     })
   );
 
+  // Screen readers hear tag names rather than element ids
+  const describe = (id: string | number) => {
+    if (id === '__end__') return 'the end of the list';
+    const flat = flatElements.find(el => el.id === id);
+    if (!flat) return 'element';
+    return flat.kind === 'text' ? 'text' : `<${flat.tagName}>`;
+  };
+
+  const announcements: Announcements = {
+    onDragStart: ({ active }) => `Picked up ${describe(active.id)}.`,
+    onDragOver: ({ active, over }) =>
+      over ? `${describe(active.id)} is over ${describe(over.id)}.` : `${describe(active.id)} is no longer over a drop position.`,
+    onDragEnd: ({ active, over }) =>
+      over ? `${describe(active.id)} was dropped at ${describe(over.id)}.` : `${describe(active.id)} was dropped.`,
+    onDragCancel: ({ active }) => `Moving ${describe(active.id)} was cancelled.`,
+  };
+
+  const screenReaderInstructions: ScreenReaderInstructions = {
+    draggable:
+      'To pick up an element, press Space or Enter. Use the arrow keys to move it, Space or Enter to drop it, or Escape to cancel.',
+  };
+
   // Handle element selection from tree
-  const handleElementClick = (flatElement: typeof flatElements[0]) => {
+  const handleElementClick = (flatElement: FlatXMLElement) => {
     // Convert flat element back to XMLElement format for selection
     const xmlElement: XMLElement = {
       id: flatElement.id,
+      kind: flatElement.kind,
       tagName: flatElement.tagName,
       content: flatElement.content,
+      attributes: flatElement.attributes,
+      escaping: flatElement.escaping,
       collapsed: flatElement.collapsed,
       isVisible: flatElement.isVisible,
       children: [] // Children not needed for selection
     };
     onElementSelect(xmlElement);
+    onSelectionChange?.([flatElement.id]);
+  };
+
+  const selection = selectedIds ?? (selectedElementId ? [selectedElementId] : []);
+  const selectedSet = new Set(selection);
+
+  // Shift-click selects the visible range from the current element; Ctrl/Cmd-click toggles one element
+  const handleItemClick = (flatElement: FlatXMLElement, e: React.MouseEvent) => {
+    const anchorIndex = flatElements.findIndex(el => el.id === selectedElementId);
+    if (e.shiftKey && onSelectionChange && anchorIndex !== -1) {
+      const clickedIndex = flatElements.findIndex(el => el.id === flatElement.id);
+      const [start, end] = anchorIndex < clickedIndex ? [anchorIndex, clickedIndex] : [clickedIndex, anchorIndex];
+      onSelectionChange(flatElements.slice(start, end + 1).map(el => el.id));
+    } else if ((e.ctrlKey || e.metaKey) && onSelectionChange && selection.length > 0) {
+      if (!selectedSet.has(flatElement.id)) {
+        handleElementClick(flatElement);
+        onSelectionChange([...selection, flatElement.id]);
+      } else if (selection.length > 1) {
+        onSelectionChange(selection.filter(id => id !== flatElement.id));
+      }
+    } else {
+      handleElementClick(flatElement);
+    }
+    // Clicking an item hands keyboard focus to the tree so the keys below work straight away
+    listRef.current?.focus({ preventScroll: true });
+  };
+
+  const selectAndReveal = (flatElement: FlatXMLElement | undefined) => {
+    if (!flatElement) return;
+    handleElementClick(flatElement);
+    requestAnimationFrame(() => {
+      listRef.current
+        ?.querySelector(`[data-tree-item="${CSS.escape(flatElement.id)}"]`)
+        ?.scrollIntoView({ block: 'nearest' });
+    });
   };
 
+  // Tree keyboard model over the visible rows; focus stays on the list itself
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Keys on the drag handle or item buttons belong to them (and to the keyboard drag sensor)
+    if (e.target !== e.currentTarget || isDragging) return;
+
+    const index = flatElements.findIndex(el => el.id === selectedElementId);
+    const current = index === -1 ? undefined : flatElements[index];
+
+    if (e.ctrlKey || e.metaKey) {
+      // Ctrl/Cmd+D would otherwise bookmark the page
+      if (current && e.key.toLowerCase() === 'd' && !e.shiftKey && !e.altKey) {
+        e.preventDefault();
+        onDuplicate(current.id);
+      }
+      return;
+    }
+
+    if (!current) {
+      if (e.key === 'ArrowDown' || e.key === 'Home') {
+        e.preventDefault();
+        selectAndReveal(flatElements[0]);
+      } else if (e.key === 'ArrowUp' || e.key === 'End') {
+        e.preventDefault();
+        selectAndReveal(flatElements[flatElements.length - 1]);
+      }
+      return;
+    }
+
+    if (e.altKey) {
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        onMoveUp(current.id);
+      } else if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        onMoveDown(current.id);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        selectAndReveal(flatElements[index + 1]);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        selectAndReveal(flatElements[index - 1]);
+        break;
+      case 'Home':
+        e.preventDefault();
+        selectAndReveal(flatElements[0]);
+        break;
+      case 'End':
+        e.preventDefault();
+        selectAndReveal(flatElements[flatElements.length - 1]);
+        break;
+      case 'ArrowRight':
+        e.preventDefault();
+        if (current.hasChildren && current.collapsed) onToggleCollapse(current.id);
+        else if (current.hasChildren) selectAndReveal(flatElements[index + 1]);
+        break;
+      case 'ArrowLeft':
+        e.preventDefault();
+        if (current.hasChildren && !current.collapsed) onToggleCollapse(current.id);
+        else if (current.parentId) selectAndReveal(flatElements.find(el => el.id === current.parentId));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        onEditElement(current.id);
+        break;
+      case 'Escape':
+        if (selection.length > 1) {
+          e.preventDefault();
+          onSelectionChange?.([current.id]);
+        }
+        break;
+      case 'Tab': {
+        // Only trap Tab when it does something, so it can still move focus out of the tree
+        const previous = flatElements
+          .slice(0, index)
+          .reverse()
+          .find(el => el.parentId === current.parentId);
+        const canIndent = !e.shiftKey && previous !== undefined && previous.kind !== 'text';
+        const canOutdent = e.shiftKey && current.parentId !== null;
+        if (canIndent) {
+          e.preventDefault();
+          onIndent(current.id);
+        } else if (canOutdent) {
+          e.preventDefault();
+          onOutdent(current.id);
+        }
+        break;
+      }
+    }
+  };
 
   return (
     <DndContext
       sensors={sensors}
+      accessibility={{ announcements, screenReaderInstructions }}
       onDragStart={handleDragStart}
       onDragOver={handleDragOver}
       onDragEnd={handleDragEnd}
@@ -101,27 +306,47 @@ const XMLTreeContainer: React.FC<XMLTreeContainerProps> = ({
       <SortableContext 
         items={flatElements.map(el => el.id)} 
         strategy={verticalListSortingStrategy}
+        // Drops between filtered rows would land next to elements the user can't see
+        disabled={Boolean(filter)}
       >
         <div className={cn('xml-tree-container', className)}>
           
           {/* The main tree list */}
-          <div className="xml-tree-list space-y-1">
+          <div
+            ref={listRef}
+            role="tree"
+            aria-label="Prompt elements"
+            aria-multiselectable={onSelectionChange ? true : undefined}
+            aria-activedescendant={selectedElementId ? `tree-item-${selectedElementId}` : undefined}
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+            className="xml-tree-list space-y-1 outline-none focus-visible:ring-2 focus-visible:ring-[#9AE66E]"
+          >
             {flatElements.map((flatElement) => (
               <XMLTreeItem
                 key={flatElement.id}
                 element={flatElement}
-                isSelected={selectedElementId === flatElement.id}
-                isDragging={activeId === flatElement.id}
+                isSelected={selectedSet.has(flatElement.id)}
+                isDragging={draggedIds.includes(flatElement.id)}
                 isAnyDragActive={isDragging}
                 isValidDropTarget={isValidDropTarget(flatElement.id)}
                 isOverTarget={dropIndicator?.targetId === flatElement.id}
-                onElementClick={handleElementClick}
+                tokenCount={tokenCounts?.[flatElement.id]}
+                isOverBudget={overBudgetIds?.has(flatElement.id) ?? false}
+                highlight={highlights?.get(flatElement.id)}
+                isFilterContext={filter ? !filter.matchIds.has(flatElement.id) : false}
+                filterMatchCount={filter?.descendantMatches.get(flatElement.id)}
+                onElementClick={handleItemClick}
                 onAddChild={onAddChild}
                 onDelete={onDelete}
                 onToggleCollapse={onToggleCollapse}
                 onToggleVisibility={onToggleVisibility}
                 onMoveUp={onMoveUp}
                 onMoveDown={onMoveDown}
+                onDuplicate={onDuplicate}
+                duplicateOptions={duplicateOptions}
+                onDuplicateOptionsChange={onDuplicateOptionsChange}
+                onRefactor={onRefactor}
                 style={getDepthStyle(flatElement.depth)}
               />
             ))}
@@ -131,7 +356,12 @@ const XMLTreeContainer: React.FC<XMLTreeContainerProps> = ({
           {flatElements.length > 0 && <EndDropTarget />}
 
           {/* Empty state */}
-          {flatElements.length === 0 && (
+          {flatElements.length === 0 && filter && (
+            <div className="xml-tree-empty text-center text-gray-400 text-sm py-8">
+              <p>No elements match “{filter.query.trim()}”.</p>
+            </div>
+          )}
+          {flatElements.length === 0 && !filter && (
             <div className="xml-tree-empty text-center text-gray-400 text-sm py-8">
               <p>No elements yet. Add an element to begin building your prompt.</p>
             </div>
@@ -149,7 +379,7 @@ const XMLTreeContainer: React.FC<XMLTreeContainerProps> = ({
       {/* Ghost element that follows cursor */}
       <DragOverlay>
         {draggedElement && (
-          <XMLTreeGhost element={draggedElement} />
+          <XMLTreeGhost element={draggedElement} count={draggedIds.length} />
         )}
       </DragOverlay>
       
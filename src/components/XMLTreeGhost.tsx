@@ -7,11 +7,14 @@ import type { FlatXMLElement } from '@/lib/tree-conversion';
 
 interface XMLTreeGhostProps {
   element: FlatXMLElement;
+  // How many elements are being dragged together
+  count?: number;
   className?: string;
 }
 
 const XMLTreeGhost: React.FC<XMLTreeGhostProps> = ({ 
   element, 
+  count = 1,
   className 
 }) => {
   return (
@@ -59,19 +62,32 @@ const XMLTreeGhost: React.FC<XMLTreeGhostProps> = ({
       
       {/* Element representation - clean and minimal */}
       <div className="flex items-center gap-1 font-bold min-w-0">
-        <span className="text-gray-600 dark:text-gray-400 font-black">&lt;</span>
-        <span className="font-mono text-gray-800 dark:text-gray-200">{element.tagName}</span>
-        <span className="text-gray-600 dark:text-gray-400 font-black">&gt;</span>
+        {element.kind === 'text' ? (
+          <span className="text-xs italic text-gray-500 dark:text-gray-400 truncate max-w-[160px] font-normal">
+            “{element.content}”
+          </span>
+        ) : (
+          <>
+            <span className="text-gray-600 dark:text-gray-400 font-black">&lt;</span>
+            <span className="font-mono text-gray-800 dark:text-gray-200">{element.tagName}</span>
+            <span className="text-gray-600 dark:text-gray-400 font-black">&gt;</span>
+          </>
+        )}
         
         {/* Show content preview if exists */}
-        {element.content && (
+        {element.kind !== 'text' && element.content && (
           <span className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-[100px] font-normal ml-1">
             {element.content}
           </span>
         )}
       </div>
 
-      
+      {/* Multi-element drags show how many are coming along */}
+      {count > 1 && (
+        <span className="ml-1 px-1 text-[10px] font-mono font-bold bg-[#9AE66E] text-black border border-black">
+          +{count - 1}
+        </span>
+      )}
     </div>
   );
 };
@@ -5,11 +5,30 @@ import React from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { Button } from '@/components/ui/button';
-import { ChevronDown, ChevronRight, Plus, Trash, ArrowUp, ArrowDown, Eye, EyeOff } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import { ChevronDown, ChevronRight, Plus, Trash, ArrowUp, ArrowDown, Eye, EyeOff, CopyPlus, Group, Ungroup, Pilcrow, Heading, Merge, Braces } from 'lucide-react';
+import {
+  ContextMenu,
+  ContextMenuCheckboxItem,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger
+} from '@/components/ui/context-menu';
+import { cn, formatTokenCount } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
 import DragHandle from './DragHandle';
+import HighlightedText from './HighlightedText';
 import type { FlatXMLElement } from '@/lib/tree-conversion';
+import type { DuplicateOptions } from '@/lib/tree-ops';
+import type { ElementHighlight, FindField } from '@/lib/find-replace';
+import type { RefactorAction } from '@/lib/tree-refactor';
 
 interface XMLTreeItemProps {
   element: FlatXMLElement;
@@ -18,16 +37,31 @@ interface XMLTreeItemProps {
   isAnyDragActive: boolean;
   isValidDropTarget: boolean;
   isOverTarget: boolean;
-  onElementClick: (element: FlatXMLElement) => void;
+  tokenCount?: number;
+  isOverBudget?: boolean;
+  /** Find matches in this element */
+  highlight?: ElementHighlight;
+  /** Shown by the tree filter only because a descendant matches */
+  isFilterContext?: boolean;
+  /** Matching descendants while the tree is filtered */
+  filterMatchCount?: number;
+  onElementClick: (element: FlatXMLElement, event: React.MouseEvent) => void;
   onAddChild: (elementId: string) => void;
   onDelete: (elementId: string) => void;
   onToggleCollapse: (elementId: string) => void;
   onToggleVisibility: (elementId: string) => void;
   onMoveUp: (elementId: string) => void;
   onMoveDown: (elementId: string) => void;
+  onDuplicate: (elementId: string) => void;
+  duplicateOptions: DuplicateOptions;
+  onDuplicateOptionsChange: (options: DuplicateOptions) => void;
+  /** Wrap and merge take the whole multi-selection when this element is in it */
+  onRefactor: (elementId: string, action: RefactorAction) => void;
   style?: React.CSSProperties;
 }
 
+const menuItemClass = 'rounded-none font-mono gap-2 focus:bg-[#9AE66E]/50';
+
 const XMLTreeItem: React.FC<XMLTreeItemProps> = ({
   element,
   isSelected,
@@ -35,6 +69,11 @@ const XMLTreeItem: React.FC<XMLTreeItemProps> = ({
   isAnyDragActive,
   isValidDropTarget,
   isOverTarget,
+  tokenCount,
+  isOverBudget = false,
+  highlight,
+  isFilterContext = false,
+  filterMatchCount,
   onElementClick,
   onAddChild,
   onDelete,
@@ -42,9 +81,15 @@ const XMLTreeItem: React.FC<XMLTreeItemProps> = ({
   onToggleVisibility,
   onMoveUp,
   onMoveDown,
+  onDuplicate,
+  duplicateOptions,
+  onDuplicateOptionsChange,
+  onRefactor,
   style
 }) => {
   const isMobile = useIsMobile();
+  const currentStart = (field: FindField) =>
+    highlight?.current?.field === field ? highlight.current.start : undefined;
   
   const {
     attributes,
@@ -68,164 +113,346 @@ const XMLTreeItem: React.FC<XMLTreeItemProps> = ({
 
   // Check if element currently has children
   const hasCollapsibleChildren = element.hasChildren;
+  const isText = element.kind === 'text';
+
+  // Attributes offered for numbering: this element's, plus the current choice if it lacks it
+  const attributeNames = [...new Set([
+    ...(element.attributes ?? []).map(attr => attr.name).filter(Boolean),
+    ...(duplicateOptions.incrementAttribute ? [duplicateOptions.incrementAttribute] : [])
+  ])];
 
   return (
-    <div
-      ref={setNodeRef}
-      style={itemStyle}
-      className={cn(
-        "xml-tree-item group relative",
-        "flex items-center gap-2 p-2 rounded cursor-pointer",
-        "transition-colors duration-200",
-        isSelected && "bg-[#9AE66E]/50",
-        !isSelected && "hover:bg-gray-100 dark:hover:bg-gray-800",
-        isDragging && "z-50",
-        // Only outline the current hovered drop target; keep it inside rounded edges
-        isOverTarget && !isDragging && "ring-2 ring-inset ring-blue-400/60"
-      )}
-      data-tree-item={element.id}
-      data-testid={`tree-item-${element.id}`}
-    >
-      
-      {/* Depth indicator line (connects to parent) */}
-      {element.depth > 0 && (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
         <div
-          className="absolute left-0 top-0 bottom-0 w-px bg-gray-300 dark:bg-gray-600 opacity-30"
-          style={{
-            left: `${(element.depth - 1) * 24 + 12}px`, // 1.5rem = 24px, center at 12px
-          }}
-        />
-      )}
-
-      {/* Drag handle - always visible, perfectly positioned */}
-      <DragHandle 
-        className="flex-shrink-0 xml-tree-drag-handle" 
-        {...attributes}
-        {...listeners}
-      />
-      
-      {/* Collapse/expand button for elements with children */}
-      {hasCollapsibleChildren && (
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-4 w-4 p-0 flex-shrink-0"
-          onClick={(e) => {
-            e.stopPropagation();
-            onToggleCollapse(element.id);
+          ref={setNodeRef}
+          style={itemStyle}
+          className={cn(
+            "xml-tree-item group relative",
+            "flex items-center gap-2 p-2 rounded cursor-pointer",
+            "transition-colors duration-200",
+            isSelected && "bg-[#9AE66E]/50",
+            isOverBudget && !isSelected && "bg-red-100 dark:bg-red-900/30",
+            !isSelected && "hover:bg-gray-100 dark:hover:bg-gray-800",
+            isDragging && "z-50",
+            // Only outline the current hovered drop target; keep it inside rounded edges
+            isOverTarget && !isDragging && "ring-2 ring-inset ring-blue-400/60"
+          )}
+          id={`tree-item-${element.id}`}
+          role="treeitem"
+          aria-level={element.depth + 1}
+          aria-selected={isSelected}
+          aria-expanded={hasCollapsibleChildren ? !element.collapsed : undefined}
+          data-tree-item={element.id}
+          data-testid={`tree-item-${element.id}`}
+          // Right-clicking outside the selection acts on that element alone
+          onContextMenu={(e) => {
+            if (!isSelected) onElementClick(element, e);
           }}
         >
-          {element.collapsed ? (
-            <ChevronRight className="h-4 w-4 stroke-[3]" />
-          ) : (
-            <ChevronDown className="h-4 w-4 stroke-[3]" />
+          
+          {/* Depth indicator line (connects to parent) */}
+          {element.depth > 0 && (
+            <div
+              className="absolute left-0 top-0 bottom-0 w-px bg-gray-300 dark:bg-gray-600 opacity-30"
+              style={{
+                left: `${(element.depth - 1) * 24 + 12}px`, // 1.5rem = 24px, center at 12px
+              }}
+            />
           )}
-        </Button>
-      )}
-      
-      {/* Element content - the beautiful XML representation */}
-      <div 
-        className="flex-1 flex items-center gap-1 font-bold min-w-0"
-        onClick={() => onElementClick(element)}
-      >
-        <span className="text-gray-600 dark:text-gray-400 font-black">&lt;</span>
-        <span className="font-mono truncate">{element.tagName}</span>
-        <span className="text-gray-600 dark:text-gray-400 font-black">&gt;</span>
-        
-        {/* Show content preview if exists */}
-        {element.content && (
-          <span className={`${isMobile ? 'text-xs' : 'text-xs'} text-gray-500 truncate max-w-[150px] font-normal ml-2`}>
-            {element.content}
-          </span>
-        )}
 
-      </div>
-      
-      {/* Action buttons */}
-      <div
-        className={cn(
-          "flex items-center gap-1 transition-opacity flex-shrink-0",
-          // Desktop: show on hover; Mobile: keep visible when selected
-          isMobile
-            ? (isSelected ? "opacity-100" : "opacity-0 group-hover:opacity-100")
-            : "opacity-0 group-hover:opacity-100"
+          {/* Drag handle - always visible, perfectly positioned */}
+          <DragHandle 
+            className="flex-shrink-0 xml-tree-drag-handle" 
+            {...attributes}
+            {...listeners}
+          />
+          
+          {/* Collapse/expand button for elements with children */}
+          {hasCollapsibleChildren && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-4 w-4 p-0 flex-shrink-0"
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleCollapse(element.id);
+              }}
+            >
+              {element.collapsed ? (
+                <ChevronRight className="h-4 w-4 stroke-[3]" />
+              ) : (
+                <ChevronDown className="h-4 w-4 stroke-[3]" />
+              )}
+            </Button>
+          )}
+          
+          {/* Element content - the beautiful XML representation */}
+          <div 
+            className={cn("flex-1 flex items-center gap-1 font-bold min-w-0", isFilterContext && "opacity-50")}
+            onClick={(e) => onElementClick(element, e)}
+            // Shift-click extends the selection; don't let it select page text too
+            onMouseDown={(e) => {
+              if (e.shiftKey) e.preventDefault();
+            }}
+          >
+            {isText ? (
+              // Text run between elements: show the text itself in place of a tag
+              <span className="text-xs italic text-gray-600 dark:text-gray-400 truncate font-normal" title="Text">
+                “<HighlightedText text={element.content} ranges={highlight?.content ?? []} currentStart={currentStart('content')} context={20} />”
+              </span>
+            ) : (
+              <>
+                <span className="text-gray-600 dark:text-gray-400 font-black">&lt;</span>
+                <HighlightedText
+                  text={element.tagName}
+                  ranges={highlight?.tagName ?? []}
+                  currentStart={currentStart('tagName')}
+                  className="font-mono truncate"
+                />
+                {element.attributes && element.attributes.length > 0 && (
+                  <span className="font-mono text-xs text-gray-500 font-normal truncate max-w-[120px]">
+                    {element.attributes.map(attr => `${attr.name}="${attr.value}"`).join(' ')}
+                  </span>
+                )}
+                <span className="text-gray-600 dark:text-gray-400 font-black">&gt;</span>
+
+                {/* Show content preview if exists */}
+                {element.content && (
+                  <span className={`${isMobile ? 'text-xs' : 'text-xs'} text-gray-500 truncate max-w-[150px] font-normal ml-2`}>
+                    <HighlightedText text={element.content} ranges={highlight?.content ?? []} currentStart={currentStart('content')} context={20} />
+                  </span>
+                )}
+              </>
+            )}
+
+          </div>
+          
+          {/* Matches below this element while the tree is filtered */}
+          {filterMatchCount !== undefined && (
+            <span
+              className="flex-shrink-0 text-[10px] font-mono font-bold px-1 border border-[#76B947] bg-[#F2FCE2] text-black rounded-none"
+              title={`${filterMatchCount} matching element${filterMatchCount === 1 ? '' : 's'} inside`}
+            >
+              {filterMatchCount}
+            </span>
+          )}
+
+          {/* Token count for this element and its descendants */}
+          {tokenCount !== undefined && (
+            <span
+              className={cn(
+                "flex-shrink-0 text-[10px] font-mono font-bold px-1 border rounded-none",
+                isOverBudget
+                  ? "border-destructive text-destructive"
+                  : "border-gray-300 text-gray-500 dark:border-gray-600 dark:text-gray-400"
+              )}
+              title={`${formatTokenCount(tokenCount)} including children`}
+            >
+              {formatTokenCount(tokenCount).replace(/ tokens?$/, '')}
+            </span>
+          )}
+
+          {/* Action buttons */}
+          <div
+            className={cn(
+              "flex items-center gap-1 transition-opacity flex-shrink-0",
+              // Desktop: show on hover; Mobile: keep visible when selected
+              isMobile
+                ? (isSelected ? "opacity-100" : "opacity-0 group-hover:opacity-100")
+                : "opacity-0 group-hover:opacity-100"
+            )}
+          >
+            
+            {/* Visibility toggle */}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleVisibility(element.id);
+              }}
+              title={element.isVisible ? 'Hide element' : 'Show element'}
+            >
+              {element.isVisible ? 
+                <Eye className="h-4 w-4 stroke-[3]" /> : 
+                <EyeOff className="h-4 w-4 stroke-[3]" />
+              }
+            </Button>
+
+            {/* Move up */}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={(e) => {
+                e.stopPropagation();
+                onMoveUp(element.id);
+              }}
+              title="Move up"
+            >
+              <ArrowUp className="h-4 w-4 stroke-[3]" />
+            </Button>
+            
+            {/* Move down */}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={(e) => {
+                e.stopPropagation();
+                onMoveDown(element.id);
+              }}
+              title="Move down"
+            >
+              <ArrowDown className="h-4 w-4 stroke-[3]" />
+            </Button>
+            
+            {/* Duplicate with all descendants */}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDuplicate(element.id);
+              }}
+              title="Duplicate element"
+            >
+              <CopyPlus className="h-4 w-4 stroke-[3]" />
+            </Button>
+
+            {/* Add child (text runs can't have children) */}
+            {!isText && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onAddChild(element.id);
+                }}
+                title="Add child element"
+              >
+                <Plus className="h-4 w-4 stroke-[3]" />
+              </Button>
+            )}
+            
+            {/* Delete */}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-destructive hover:text-destructive"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete(element.id);
+              }}
+              title="Delete element"
+            >
+              <Trash className="h-4 w-4 stroke-[3]" />
+            </Button>
+          </div>
+        </div>
+      </ContextMenuTrigger>
+
+      <ContextMenuContent className="w-60 rounded-none border-2 border-black dark:border-gray-100 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+        <ContextMenuItem className={menuItemClass} onSelect={() => onDuplicate(element.id)}>
+          <CopyPlus className="h-4 w-4 stroke-[3]" />
+          Duplicate
+          <ContextMenuShortcut>Ctrl/⌘D</ContextMenuShortcut>
+        </ContextMenuItem>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger inset className={menuItemClass}>Duplicate numbering</ContextMenuSubTrigger>
+          <ContextMenuSubContent className="w-56 rounded-none border-2 border-black dark:border-gray-100">
+            <ContextMenuCheckboxItem
+              className={menuItemClass}
+              checked={duplicateOptions.incrementTag ?? false}
+              onCheckedChange={(checked) => onDuplicateOptionsChange({ ...duplicateOptions, incrementTag: checked })}
+              // Keep the menu open while adjusting several options
+              onSelect={(e) => e.preventDefault()}
+            >
+              Number tag names
+            </ContextMenuCheckboxItem>
+            <ContextMenuSeparator />
+            <ContextMenuLabel className="font-mono text-xs">Number attribute</ContextMenuLabel>
+            <ContextMenuRadioGroup
+              value={duplicateOptions.incrementAttribute ?? ''}
+              onValueChange={(name) => onDuplicateOptionsChange({ ...duplicateOptions, incrementAttribute: name || undefined })}
+            >
+              <ContextMenuRadioItem value="" className={menuItemClass} onSelect={(e) => e.preventDefault()}>
+                None
+              </ContextMenuRadioItem>
+              {attributeNames.map(name => (
+                <ContextMenuRadioItem key={name} value={name} className={menuItemClass} onSelect={(e) => e.preventDefault()}>
+                  {name}
+                </ContextMenuRadioItem>
+              ))}
+            </ContextMenuRadioGroup>
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuSeparator />
+        {!isText && (
+          <ContextMenuItem className={menuItemClass} onSelect={() => onAddChild(element.id)}>
+            <Plus className="h-4 w-4 stroke-[3]" />
+            Add child
+          </ContextMenuItem>
         )}
-      >
-        
-        {/* Visibility toggle */}
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-6 w-6"
-          onClick={(e) => {
-            e.stopPropagation();
-            onToggleVisibility(element.id);
-          }}
-          title={element.isVisible ? 'Hide element' : 'Show element'}
-        >
-          {element.isVisible ? 
-            <Eye className="h-4 w-4 stroke-[3]" /> : 
-            <EyeOff className="h-4 w-4 stroke-[3]" />
-          }
-        </Button>
-
-        {/* Move up */}
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-6 w-6"
-          onClick={(e) => {
-            e.stopPropagation();
-            onMoveUp(element.id);
-          }}
-          title="Move up"
-        >
+        <ContextMenuItem className={menuItemClass} onSelect={() => onMoveUp(element.id)}>
           <ArrowUp className="h-4 w-4 stroke-[3]" />
-        </Button>
-        
-        {/* Move down */}
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-6 w-6"
-          onClick={(e) => {
-            e.stopPropagation();
-            onMoveDown(element.id);
-          }}
-          title="Move down"
-        >
+          Move up
+          <ContextMenuShortcut>Alt+↑</ContextMenuShortcut>
+        </ContextMenuItem>
+        <ContextMenuItem className={menuItemClass} onSelect={() => onMoveDown(element.id)}>
           <ArrowDown className="h-4 w-4 stroke-[3]" />
-        </Button>
-        
-        {/* Add child */}
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-6 w-6"
-          onClick={(e) => {
-            e.stopPropagation();
-            onAddChild(element.id);
-          }}
-          title="Add child element"
-        >
-          <Plus className="h-4 w-4 stroke-[3]" />
-        </Button>
-        
-        {/* Delete */}
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-6 w-6 text-destructive hover:text-destructive"
-          onClick={(e) => {
-            e.stopPropagation();
-            onDelete(element.id);
-          }}
-          title="Delete element"
-        >
+          Move down
+          <ContextMenuShortcut>Alt+↓</ContextMenuShortcut>
+        </ContextMenuItem>
+        <ContextMenuItem className={menuItemClass} onSelect={() => onToggleVisibility(element.id)}>
+          {element.isVisible === false ? <Eye className="h-4 w-4 stroke-[3]" /> : <EyeOff className="h-4 w-4 stroke-[3]" />}
+          {element.isVisible === false ? 'Show in output' : 'Hide from output'}
+        </ContextMenuItem>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger inset className={menuItemClass}>Restructure</ContextMenuSubTrigger>
+          <ContextMenuSubContent className="w-64 rounded-none border-2 border-black dark:border-gray-100">
+            <ContextMenuItem className={menuItemClass} onSelect={() => onRefactor(element.id, 'wrap')}>
+              <Group className="h-4 w-4 stroke-[3]" />
+              Wrap in new parent
+            </ContextMenuItem>
+            <ContextMenuItem className={menuItemClass} onSelect={() => onRefactor(element.id, 'merge')}>
+              <Merge className="h-4 w-4 stroke-[3]" />
+              Merge with next sibling
+            </ContextMenuItem>
+            {!isText && (
+              <>
+                <ContextMenuItem className={menuItemClass} onSelect={() => onRefactor(element.id, 'unwrap')}>
+                  <Ungroup className="h-4 w-4 stroke-[3]" />
+                  Unwrap (keep children)
+                </ContextMenuItem>
+                <ContextMenuSeparator />
+                <ContextMenuItem className={menuItemClass} disabled={!element.content.trim()} onSelect={() => onRefactor(element.id, 'split-paragraphs')}>
+                  <Pilcrow className="h-4 w-4 stroke-[3]" />
+                  Split content on blank lines
+                </ContextMenuItem>
+                <ContextMenuItem className={menuItemClass} disabled={!element.content.trim()} onSelect={() => onRefactor(element.id, 'split-headings')}>
+                  <Heading className="h-4 w-4 stroke-[3]" />
+                  Split content at # headings
+                </ContextMenuItem>
+                <ContextMenuItem className={menuItemClass} disabled={!element.content.includes('<')} onSelect={() => onRefactor(element.id, 'convert')}>
+                  <Braces className="h-4 w-4 stroke-[3]" />
+                  Turn tags in content into elements
+                </ContextMenuItem>
+              </>
+            )}
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuSeparator />
+        <ContextMenuItem className={cn(menuItemClass, 'text-destructive focus:text-destructive')} onSelect={() => onDelete(element.id)}>
           <Trash className="h-4 w-4 stroke-[3]" />
-        </Button>
-      </div>
-    </div>
+          Delete
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
   );
 };
 
@@ -0,0 +1,43 @@
+// Element Token Counts Hook - per-element subtree counts for the tree badges
+// Uses the same tokenizer worker as the total; heuristic until the vocabulary loads
+
+import { useEffect, useMemo, useState } from 'react';
+import { estimateTokenCount } from '@/lib/utils';
+import { countTokensBatch } from '@/lib/tokenizer';
+import { collectSubtreeTexts } from '@/lib/token-breakdown';
+import type { SerializeOptions } from '@/lib/serialize-xml';
+import type { XMLElement } from '@/components/PromptBuilder';
+
+const RECOUNT_DELAY_MS = 300;
+
+export function useElementTokenCounts(
+  elements: XMLElement[],
+  options: Partial<SerializeOptions>,
+  modelId: string
+): Record<string, number> {
+  const subtrees = useMemo(() => collectSubtreeTexts(elements, options), [elements, options]);
+
+  const [counts, setCounts] = useState<Record<string, number>>(() =>
+    Object.fromEntries(subtrees.map(({ id, text }) => [id, estimateTokenCount(text)]))
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(() => {
+      countTokensBatch(subtrees.map(s => s.text), modelId)
+        .catch(() => subtrees.map(s => estimateTokenCount(s.text)))
+        .then(result => {
+          if (cancelled) return;
+          setCounts(Object.fromEntries(subtrees.map(({ id }, i) => [id, result[i]])));
+        });
+    }, RECOUNT_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [subtrees, modelId]);
+
+  return counts;
+}
@@ -0,0 +1,76 @@
+// Find & Replace Hook - search state and derived matches for the builder
+// The tree and preview read highlights from here; replacing is left to the caller
+
+import { useMemo, useState } from 'react';
+import {
+  createMatcher,
+  findMatches,
+  groupMatches,
+  DEFAULT_FIND_OPTIONS,
+  type ElementHighlight,
+  type FindMatch,
+  type FindOptions
+} from '@/lib/find-replace';
+import type { XMLElement } from '@/components/PromptBuilder';
+
+export interface UseFindReplaceReturn {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  query: string;
+  setQuery: (query: string) => void;
+  replacement: string;
+  setReplacement: (replacement: string) => void;
+  options: FindOptions;
+  setOptions: (options: FindOptions) => void;
+  /** Null while the query is empty or invalid */
+  matcher: RegExp | null;
+  error: string | null;
+  matches: FindMatch[];
+  currentIndex: number;
+  setCurrentIndex: (index: number) => void;
+  current: FindMatch | undefined;
+  highlights: Map<string, ElementHighlight>;
+}
+
+export function useFindReplace(elements: XMLElement[]): UseFindReplaceReturn {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<FindOptions>(DEFAULT_FIND_OPTIONS);
+  const [index, setCurrentIndex] = useState(0);
+
+  const { matcher, error } = useMemo(() => {
+    if (!isOpen) return { matcher: null, error: null };
+    try {
+      return { matcher: createMatcher(query, options), error: null };
+    } catch (err) {
+      return { matcher: null, error: err instanceof Error ? err.message : 'Invalid search' };
+    }
+  }, [isOpen, query, options]);
+
+  const matches = useMemo(() => (matcher ? findMatches(elements, matcher) : []), [elements, matcher]);
+
+  // Edits can shrink the list under the cursor; stay within it
+  const currentIndex = matches.length === 0 ? 0 : Math.min(index, matches.length - 1);
+  const current = matches[currentIndex];
+
+  const highlights = useMemo(() => groupMatches(matches, current), [matches, current]);
+
+  return {
+    isOpen,
+    setIsOpen,
+    query,
+    setQuery,
+    replacement,
+    setReplacement,
+    options,
+    setOptions,
+    matcher,
+    error,
+    matches,
+    currentIndex,
+    setCurrentIndex,
+    current,
+    highlights
+  };
+}
@@ -0,0 +1,143 @@
+// History State Hook - Undo/Redo for any immutable value
+// Every set() becomes one undoable step unless it coalesces with the previous one
+
+import { useReducer, useCallback } from 'react';
+
+export interface HistorySetOptions {
+  /**
+   * Consecutive sets sharing the same key within the coalesce window
+   * collapse into a single undo step (e.g. keystrokes in one text field)
+   */
+  coalesceKey?: string;
+  /**
+   * Replace the present without an undo step, for UI-only changes
+   * (e.g. expanding ancestors to reveal a search match)
+   */
+  skipHistory?: boolean;
+}
+
+export interface UseHistoryStateOptions {
+  limit?: number;
+  coalesceMs?: number;
+}
+
+export interface UseHistoryStateReturn<T> {
+  state: T;
+  set: (next: T | ((prev: T) => T), options?: HistorySetOptions) => void;
+  undo: () => void;
+  redo: () => void;
+  /** Replace the state and forget all history (e.g. after restoring from storage) */
+  reset: (next: T) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastTime: number;
+}
+
+type HistoryAction<T> =
+  | { type: 'set'; next: T | ((prev: T) => T); key: string | null; time: number; skipHistory: boolean }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; next: T };
+
+const DEFAULT_LIMIT = 100;
+const DEFAULT_COALESCE_MS = 1000;
+
+export function useHistoryState<T>(
+  initial: T | (() => T),
+  { limit = DEFAULT_LIMIT, coalesceMs = DEFAULT_COALESCE_MS }: UseHistoryStateOptions = {}
+): UseHistoryStateReturn<T> {
+
+  const reducer = useCallback((state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+    switch (action.type) {
+      case 'set': {
+        const next = typeof action.next === 'function'
+          ? (action.next as (prev: T) => T)(state.present)
+          : action.next;
+        if (Object.is(next, state.present)) return state;
+        if (action.skipHistory) return { ...state, present: next };
+
+        // Same field edited again shortly after: replace the present, keep one undo step
+        const coalesce =
+          action.key !== null &&
+          action.key === state.lastKey &&
+          action.time - state.lastTime < coalesceMs &&
+          state.past.length > 0;
+
+        return {
+          past: coalesce ? state.past : [...state.past, state.present].slice(-limit),
+          present: next,
+          future: [],
+          lastKey: action.key,
+          lastTime: action.time
+        };
+      }
+
+      case 'undo': {
+        if (state.past.length === 0) return state;
+        return {
+          past: state.past.slice(0, -1),
+          present: state.past[state.past.length - 1],
+          future: [state.present, ...state.future],
+          lastKey: null,
+          lastTime: 0
+        };
+      }
+
+      case 'redo': {
+        if (state.future.length === 0) return state;
+        return {
+          past: [...state.past, state.present],
+          present: state.future[0],
+          future: state.future.slice(1),
+          lastKey: null,
+          lastTime: 0
+        };
+      }
+
+      case 'reset':
+        return { past: [], present: action.next, future: [], lastKey: null, lastTime: 0 };
+
+      default:
+        return state;
+    }
+  }, [limit, coalesceMs]);
+
+  const [history, dispatch] = useReducer(reducer, undefined, () => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+    lastKey: null,
+    lastTime: 0
+  }));
+
+  const set = useCallback((next: T | ((prev: T) => T), options?: HistorySetOptions) => {
+    dispatch({
+      type: 'set',
+      next,
+      key: options?.coalesceKey ?? null,
+      time: Date.now(),
+      skipHistory: options?.skipHistory ?? false
+    });
+  }, []);
+
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const reset = useCallback((next: T) => dispatch({ type: 'reset', next }), []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+}
@@ -0,0 +1,48 @@
+// Token Count Hook - exact counts from the tokenizer worker
+// Shows the character heuristic until the model's vocabulary has loaded
+
+import { useEffect, useState } from 'react';
+import { estimateTokenCount } from '@/lib/utils';
+import { countTokensBatch, getTokenizerModel, isEncodingLoaded } from '@/lib/tokenizer';
+
+export interface TokenCountResult {
+  count: number;
+  isExact: boolean;
+}
+
+const RECOUNT_DELAY_MS = 150;
+
+export function useTokenCount(text: string, modelId: string): TokenCountResult {
+  const [result, setResult] = useState<TokenCountResult>(() => ({
+    count: estimateTokenCount(text),
+    isExact: false
+  }));
+
+  useEffect(() => {
+    let cancelled = false;
+    const { encoding } = getTokenizerModel(modelId);
+
+    // Until the vocabulary is ready, the heuristic is the best we have;
+    // afterwards keep the last exact count while the recount is in flight
+    if (!encoding || !isEncodingLoaded(encoding)) {
+      setResult({ count: estimateTokenCount(text), isExact: false });
+    }
+
+    const timer = setTimeout(() => {
+      countTokensBatch([text], modelId)
+        .then(([count]) => {
+          if (!cancelled) setResult({ count, isExact: encoding !== null });
+        })
+        .catch(() => {
+          if (!cancelled) setResult({ count: estimateTokenCount(text), isExact: false });
+        });
+    }, RECOUNT_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text, modelId]);
+
+  return result;
+}
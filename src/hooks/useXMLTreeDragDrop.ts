@@ -10,6 +10,7 @@ import {
   calculateNewPosition,
   type FlatXMLElement 
 } from '@/lib/tree-conversion';
+import { applyTreeFilter, type TreeFilterResult } from '@/lib/tree-filter';
 import type { XMLElement } from '@/components/PromptBuilder';
 
 // Drop indicator state - shows where element will be placed
@@ -36,6 +37,8 @@ export interface UseXMLTreeDragDropReturn {
   // Current drag state
   activeId: string | null;
   draggedElement: FlatXMLElement | null;
+  // Everything moving with the active element (the multi-selection when it includes it)
+  draggedIds: string[];
   dropIndicator: DropIndicatorState | null;
   isDragging: boolean;
   
@@ -55,17 +58,21 @@ export interface UseXMLTreeDragDropReturn {
 
 export function useXMLTreeDragDrop(
   elements: XMLElement[],
-  onElementsChange: (newElements: XMLElement[]) => void
+  onElementsChange: (newElements: XMLElement[]) => void,
+  selectedIds: string[] = [],
+  filter: TreeFilterResult | null = null
 ): UseXMLTreeDragDropReturn {
   
   // Convert tree to flat structure (all elements, including children of collapsed nodes)
   const allFlatElements = useMemo(() => treeToFlat(elements), [elements]);
 
   // Compute the visible subset for rendering (hide any element whose ancestor is collapsed)
+  // An active filter decides on its own: matches and their ancestors, collapsed or not
   const flatElements = useMemo(() => {
+    if (filter) return applyTreeFilter(allFlatElements, filter);
     const collapsedIds = new Set(allFlatElements.filter(el => el.collapsed).map(el => el.id));
     return allFlatElements.filter(el => !el.ancestorIds.some(aid => collapsedIds.has(aid)));
-  }, [allFlatElements]);
+  }, [allFlatElements, filter]);
   
   // Drag state management
   const [activeId, setActiveId] = useState<string | null>(null);
@@ -78,6 +85,20 @@ export function useXMLTreeDragDrop(
   );
   
   const isDragging = activeId !== null;
+
+  /**
+   * Dragging a selected element takes the whole selection along: the selected
+   * elements not already inside another selected one, in document order
+   */
+  const getDragGroup = useCallback((leadId: string): string[] => {
+    const selected = new Set(selectedIds);
+    if (!selected.has(leadId) || selected.size < 2) return [leadId];
+    return allFlatElements
+      .filter(el => selected.has(el.id) && !el.ancestorIds.some(aid => selected.has(aid)))
+      .map(el => el.id);
+  }, [selectedIds, allFlatElements]);
+
+  const draggedIds = useMemo(() => (activeId ? getDragGroup(activeId) : []), [activeId, getDragGroup]);
   
   /**
    * Drop Depth Rules (Previous-Item Logic)
@@ -203,8 +224,8 @@ export function useXMLTreeDragDrop(
     // Special case: always allow dropping at the end
     if (targetId === '__end__') return true;
     
-    return canMoveElement(allFlatElements, draggedId, targetId);
-  }, [allFlatElements]);
+    return getDragGroup(draggedId).every(id => canMoveElement(allFlatElements, id, targetId));
+  }, [allFlatElements, getDragGroup]);
   
   /**
    * Check if target is a valid drop location
@@ -312,6 +333,7 @@ export function useXMLTreeDragDrop(
     
     const draggedId = active.id as string;
     const targetId = over.id as string;
+    const group = getDragGroup(draggedId);
     
     // Final validation
     if (!canDrop(draggedId, targetId)) {
@@ -328,7 +350,11 @@ export function useXMLTreeDragDrop(
     try {
       // Special case: dropping at the end -> treat as AFTER last element, matching last element's depth/parent
       if (targetId === '__end__') {
-        const last = flatElements[flatElements.length - 1];
+        // The last row that isn't itself being moved (or inside something that is)
+        const moving = new Set(group);
+        const last = [...flatElements]
+          .reverse()
+          .find(el => !moving.has(el.id) && !el.ancestorIds.some(aid => moving.has(aid)));
         if (!last) return;
 
         const newPosition = {
@@ -336,7 +362,7 @@ export function useXMLTreeDragDrop(
           newParentId: last.parentId,
           newAncestorIds: [...last.ancestorIds]
         };
-        const updatedFlat = moveElementInFlat(allFlatElements, draggedId, last.id, 'after', newPosition);
+        const updatedFlat = moveGroupInFlat(allFlatElements, group, last.id, 'after', newPosition);
         const newTreeElements = flatToTree(updatedFlat);
         onElementsChange(newTreeElements);
 
@@ -360,7 +386,7 @@ export function useXMLTreeDragDrop(
       }
       
       // Perform the move operation
-      const updatedFlat = moveElementInFlat(allFlatElements, draggedId, targetId, finalDropType, newPosition);
+      const updatedFlat = moveGroupInFlat(allFlatElements, group, targetId, finalDropType, newPosition);
       
       // Convert back to tree structure
       const newTreeElements = flatToTree(updatedFlat);
@@ -372,18 +398,20 @@ export function useXMLTreeDragDrop(
         draggedId, 
         targetId, 
         type: finalDropType,
-        newDepth: newPosition.newDepth 
+        newDepth: newPosition.newDepth,
+        movedCount: group.length
       });
       
     } catch (error) {
       console.error('❌ Move operation failed:', error);
     }
-  }, [allFlatElements, flatElements, dropIndicator, canDrop, onElementsChange]);
+  }, [allFlatElements, flatElements, dropIndicator, canDrop, getDragGroup, onElementsChange]);
   
   return {
     // State
     activeId,
     draggedElement,
+    draggedIds,
     dropIndicator,
     isDragging,
     
@@ -556,6 +584,25 @@ function moveElementInFlat(
   return recalculateOrderValues(result);
 }
 
+/**
+ * Move several elements to one drop position, keeping their relative order:
+ * the first goes where the drop says, each following one right after the previous
+ */
+function moveGroupInFlat(
+  flatElements: FlatXMLElement[],
+  groupIds: string[],
+  targetId: string,
+  dropType: 'before' | 'after' | 'child' | 'first-child',
+  newPosition: { newDepth: number; newParentId: string | null; newAncestorIds: string[] }
+): FlatXMLElement[] {
+  let result = moveElementInFlat(flatElements, groupIds[0], targetId, dropType, newPosition);
+  for (let i = 1; i < groupIds.length; i++) {
+    const previousEnd = result[findLastChildIndex(result, groupIds[i - 1])];
+    result = moveElementInFlat(result, groupIds[i], previousEnd.id, 'after', newPosition);
+  }
+  return result;
+}
+
 /**
  * Move element to the end of the tree (at root level)
  */
@@ -0,0 +1,45 @@
+// Element Clipboard Tests
+import { fromClipboardContents, toClipboardContents } from '../element-clipboard';
+import type { XMLElement } from '../../components/PromptBuilder';
+import { el } from './fixtures';
+
+const ids = (elements: XMLElement[]): string[] => elements.flatMap(e => [e.id, ...ids(e.children)]);
+
+const subtree = [
+  el('a', 'example', '', [el('b', 'input', 'x < y')], { attributes: [{ name: 'n', value: '1' }] }),
+  el('c', 'note', '', [], { isVisible: false })
+];
+
+describe('toClipboardContents', () => {
+  test('carries XML text and the exact payload', () => {
+    const contents = toClipboardContents(subtree, { hiddenElements: 'omit' });
+    expect(contents.text).toContain('<example n="1">');
+    expect(contents.text).not.toContain('note');
+    expect(JSON.parse(contents.json!).elements).toHaveLength(2);
+  });
+});
+
+describe('fromClipboardContents', () => {
+  test('restores the payload exactly, with fresh ids', () => {
+    const pasted = fromClipboardContents(toClipboardContents(subtree, {}));
+    expect(pasted.map(e => e.tagName)).toEqual(['example', 'note']);
+    expect(pasted[0].children[0].content).toBe('x < y');
+    expect(pasted[1].isVisible).toBe(false);
+    expect(ids(pasted).some(id => ids(subtree).includes(id))).toBe(false);
+  });
+
+  test('parses plain XML text from other apps', () => {
+    const pasted = fromClipboardContents({ text: '<task>Summarize<rule>Be brief</rule></task>' });
+    expect(pasted[0].tagName).toBe('task');
+    expect(pasted[0].children.some(child => child.tagName === 'rule')).toBe(true);
+  });
+
+  test('falls back to the text when the payload is damaged', () => {
+    const pasted = fromClipboardContents({ text: '<a>1</a>', json: '{"v":' });
+    expect(pasted.map(e => e.tagName)).toEqual(['a']);
+  });
+
+  test('rejects an empty clipboard', () => {
+    expect(() => fromClipboardContents({ text: '  ' })).toThrow('no XML or elements to paste');
+  });
+});
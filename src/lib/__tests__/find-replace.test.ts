@@ -0,0 +1,109 @@
+// Find & Replace Tests
+import {
+  createMatcher,
+  findInText,
+  findMatches,
+  groupMatches,
+  replaceMatch,
+  replaceAllMatches,
+  DEFAULT_FIND_OPTIONS,
+  type FindOptions
+} from '../find-replace';
+import type { XMLElement } from '../../components/PromptBuilder';
+import { el } from './fixtures';
+
+const tree: XMLElement[] = [
+  el('a', 'customer-info', 'The customer is Bob', [
+    el('b', 'customer', 'customers and Customer', [], { isVisible: false }),
+    el('t', '', 'a customer note', [], { kind: 'text' })
+  ], { collapsed: true }),
+  el('c', 'rules', 'Be brief')
+];
+
+const opts = (overrides: Partial<FindOptions> = {}): FindOptions => ({ ...DEFAULT_FIND_OPTIONS, ...overrides });
+const matcher = (query: string, overrides: Partial<FindOptions> = {}) => createMatcher(query, opts(overrides))!;
+
+describe('createMatcher', () => {
+  test('returns null for an empty query', () => {
+    expect(createMatcher('', DEFAULT_FIND_OPTIONS)).toBeNull();
+  });
+
+  test('escapes plain queries and honours case and whole word', () => {
+    expect(findInText('a.b axb', matcher('a.b'))).toEqual([[0, 3]]);
+    expect(findInText('Cat cat', matcher('cat', { caseSensitive: true }))).toEqual([[4, 7]]);
+    expect(findInText('cat cats', matcher('cat', { wholeWord: true }))).toEqual([[0, 3]]);
+    expect(findInText('{{name}} x{{name}}', matcher('{{name}}', { wholeWord: true }))).toEqual([[0, 8]]);
+  });
+
+  test('reports invalid regular expressions', () => {
+    expect(() => createMatcher('(', opts({ regex: true }))).toThrow('Invalid regular expression');
+  });
+
+  test('skips empty regex matches', () => {
+    expect(findInText('aba', matcher('b*', { regex: true }))).toEqual([[1, 2]]);
+  });
+});
+
+describe('findMatches', () => {
+  test('searches tags and content everywhere, including collapsed and hidden elements', () => {
+    const matches = findMatches(tree, matcher('customer'));
+    expect(matches.map(m => `${m.elementId}.${m.field}@${m.start}`)).toEqual([
+      'a.tagName@0', 'a.content@4',
+      'b.tagName@0', 'b.content@0', 'b.content@14',
+      't.content@2'
+    ]);
+  });
+
+  test('groups matches per element with the current one marked', () => {
+    const matches = findMatches(tree, matcher('customer'));
+    const groups = groupMatches(matches, matches[4]);
+    expect(groups.get('b')).toEqual({ tagName: [[0, 8]], content: [[0, 8], [14, 22]], current: { field: 'content', start: 14 } });
+    expect(groups.has('c')).toBe(false);
+  });
+});
+
+describe('replaceMatch', () => {
+  test('replaces only the chosen occurrence', () => {
+    const m = matcher('customer');
+    const target = findMatches(tree, m)[4];
+    const next = replaceMatch(tree, target, m, 'client', opts())!;
+    expect(next[0].children[0].content).toBe('customers and client');
+    expect(next[0].tagName).toBe('customer-info');
+    expect(next[1]).toBe(tree[1]);
+  });
+
+  test('keeps tag names valid', () => {
+    const m = matcher('customer-info');
+    const next = replaceMatch(tree, findMatches(tree, m)[0], m, 'user info', opts())!;
+    expect(next[0].tagName).toBe('user-info');
+    expect(replaceMatch(tree, findMatches(tree, m)[0], m, '', opts())).toBeNull();
+  });
+
+  test('returns null when the match is gone', () => {
+    const m = matcher('customer');
+    expect(replaceMatch(tree, { elementId: 'c', field: 'content', start: 0, end: 8 }, m, 'x', opts())).toBeNull();
+  });
+});
+
+describe('replaceAllMatches', () => {
+  test('replaces everything and counts it', () => {
+    const m = matcher('customer', { wholeWord: true });
+    const { elements, count } = replaceAllMatches(tree, m, 'client', opts({ wholeWord: true }));
+    expect(count).toBe(5);
+    expect(elements[0].tagName).toBe('client-info');
+    expect(elements[0].children[0].content).toBe('customers and client');
+    expect(elements[0].children[1].content).toBe('a client note');
+  });
+
+  test('expands regex groups in the replacement', () => {
+    const options = opts({ regex: true, caseSensitive: true });
+    const { elements } = replaceAllMatches(tree, createMatcher('is (?<name>\\w+)', options)!, 'was $<name> ($1, $$)', options);
+    expect(elements[0].content).toBe('The customer was Bob (Bob, $)');
+  });
+
+  test('returns the same tree when nothing matches', () => {
+    const result = replaceAllMatches(tree, matcher('zzz'), 'x', opts());
+    expect(result.elements).toBe(tree);
+    expect(result.count).toBe(0);
+  });
+});
@@ -0,0 +1,6 @@
+// Test Fixtures - shared element tree builders for the lib tests
+import type { XMLElement } from '../../components/PromptBuilder';
+
+/** An element (or text node, via `extra`) with just the fields a test cares about */
+export const el = (id: string, tagName: string, content = '', children: XMLElement[] = [], extra: Partial<XMLElement> = {}): XMLElement =>
+  ({ id, tagName, content, children, ...extra });
@@ -0,0 +1,162 @@
+// Loose XML Parser Tests
+import { looseParseXML, parseXMLWithDiagnostics, parseAttributes, decodeEntities, decodeContent } from '../loose-xml';
+import { serializeXML } from '../serialize-xml';
+
+describe('looseParseXML', () => {
+  test('parses nested elements', () => {
+    const [root] = looseParseXML('<prompt><role>Assistant</role></prompt>');
+    expect(root.tagName).toBe('prompt');
+    expect(root.children).toHaveLength(1);
+    expect(root.children[0].tagName).toBe('role');
+    expect(root.children[0].content).toBe('Assistant');
+  });
+
+  test('keeps attributes on opening tags', () => {
+    const [root] = looseParseXML('<example index="1" lang=\'en\' draft>Hi</example>');
+    expect(root.attributes).toEqual([
+      { name: 'index', value: '1' },
+      { name: 'lang', value: 'en' },
+      { name: 'draft', value: '' }
+    ]);
+  });
+
+  test('matches nested same-name tags that carry attributes', () => {
+    const [root] = looseParseXML('<a id="outer"><a id="inner">x</a></a>');
+    expect(root.children).toHaveLength(1);
+    expect(root.children[0].attributes).toEqual([{ name: 'id', value: 'inner' }]);
+  });
+
+  test('decodes entities in content and remembers the escaping style', () => {
+    const [root] = looseParseXML('<a>Tom &amp; Jerry &lt;3</a>');
+    expect(root.content).toBe('Tom & Jerry <3');
+    expect(root.escaping).toBe('escape');
+  });
+
+  test('unwraps CDATA without parsing tags inside it', () => {
+    const [root] = looseParseXML('<code><![CDATA[<b>bold</b> </code>]]></code>');
+    expect(root.children).toHaveLength(0);
+    expect(root.content).toBe('<b>bold</b> </code>');
+    expect(root.escaping).toBe('cdata');
+  });
+
+  test('trims layout whitespace around content', () => {
+    const [root] = looseParseXML('<a>\n  Hello\n</a>');
+    expect(root.content).toBe('Hello');
+  });
+
+  test('round-trips content through the serializer in each escaping mode', () => {
+    const text = 'if (a < b && c) </a>';
+    for (const escaping of ['escape', 'cdata'] as const) {
+      const xml = serializeXML([{ id: 'x', tagName: 'a', content: text, escaping, children: [] }]);
+      const [parsed] = looseParseXML(xml);
+      expect(parsed.content).toBe(text);
+      expect(parsed.escaping).toBe(escaping);
+    }
+  });
+});
+
+describe('parseAttributes', () => {
+  test('decodes entities in values', () => {
+    expect(parseAttributes(' q="say &quot;hi&quot; &amp; go"')).toEqual([{ name: 'q', value: 'say "hi" & go' }]);
+  });
+});
+
+describe('decodeEntities', () => {
+  test('decodes named and numeric references and leaves unknown ones', () => {
+    expect(decodeEntities('&lt;&#65;&#x42;&nbsp;')).toBe('<AB&nbsp;');
+  });
+});
+
+describe('decodeContent', () => {
+  test('reports no escaping for plain text', () => {
+    expect(decodeContent('plain text')).toEqual({ text: 'plain text', escaping: undefined });
+  });
+});
+
+describe('parseXMLWithDiagnostics', () => {
+  const kinds = (xml: string) => parseXMLWithDiagnostics(xml).diagnostics.map(d => d.kind);
+
+  test('reports nothing for well-formed input', () => {
+    expect(kinds('<?xml version="1.0"?>\n<a><b>x</b></a>')).toEqual([]);
+  });
+
+  test('reports positions as 1-based line and column', () => {
+    const [diagnostic] = parseXMLWithDiagnostics('<a>x</a>\n  </b>').diagnostics;
+    expect(diagnostic.severity).toBe('error');
+    expect(diagnostic).toMatchObject({ line: 2, column: 3, offset: 11, length: 4 });
+  });
+
+  test('reports an unclosed tag and still parses what was inside it', () => {
+    const { elements, diagnostics } = parseXMLWithDiagnostics('<a><b>x</b>');
+    expect(diagnostics.map(d => d.kind)).toEqual(['unclosed-tag']);
+    expect(elements.map(e => e.tagName)).toEqual(['b']);
+  });
+
+  test('reports stray closing tags at top level and inside content', () => {
+    const { elements, diagnostics } = parseXMLWithDiagnostics('<a>1</c></a></d>');
+    expect(diagnostics.map(d => [d.kind, d.severity])).toEqual([
+      ['stray-closing-tag', 'warning'],
+      ['stray-closing-tag', 'error']
+    ]);
+    expect(elements[0].content).toBe('1</c>');
+  });
+
+  test('reports malformed opening tags', () => {
+    expect(kinds('<a <b>x</b>')).toEqual(['malformed-tag']);
+    expect(kinds('<a:b>x</a:b>')[0]).toBe('malformed-tag');
+  });
+
+  test('keeps unclosed tags inside an element as text with a warning', () => {
+    const { elements, diagnostics } = parseXMLWithDiagnostics('<a>line<br></a>');
+    expect(elements[0].content).toBe('line<br>');
+    expect(diagnostics[0]).toMatchObject({ kind: 'unclosed-tag', severity: 'warning', column: 8 });
+  });
+
+  test('parses self-closing tags as empty elements', () => {
+    const { elements, diagnostics } = parseXMLWithDiagnostics('<a/><b x="1" />');
+    expect(diagnostics).toEqual([]);
+    expect(elements.map(e => e.tagName)).toEqual(['a', 'b']);
+    expect(elements[1].attributes).toEqual([{ name: 'x', value: '1' }]);
+  });
+});
+
+describe('mixed content', () => {
+  test('keeps text between child elements as ordered text nodes', () => {
+    const [root] = looseParseXML('<prompt>Intro<rules><rule>x</rule></rules>Outro &amp; more</prompt>');
+    expect(root.content).toBe('');
+    expect(root.children.map(c => c.kind ?? c.tagName)).toEqual(['text', 'rules', 'text']);
+    expect(root.children[0].content).toBe('Intro');
+    expect(root.children[2]).toMatchObject({ content: 'Outro & more', escaping: 'escape' });
+  });
+
+  test('keeps top-level text as text nodes', () => {
+    const elements = looseParseXML('Read this first.\n<task>Do it</task>\nThanks!');
+    expect(elements.map(e => [e.kind ?? 'element', e.content])).toEqual([
+      ['text', 'Read this first.'],
+      ['element', 'Do it'],
+      ['text', 'Thanks!']
+    ]);
+  });
+
+  test('ignores whitespace-only runs between elements', () => {
+    const [root] = looseParseXML('<a>\n  <b>x</b>\n  <c>y</c>\n</a>');
+    expect(root.children.map(c => c.tagName)).toEqual(['b', 'c']);
+  });
+
+  test('round-trips through the serializer', () => {
+    const source = 'Intro\n<a>\n  before\n  <b>\n    x\n  </b>\n  after\n</a>\nOutro';
+    expect(serializeXML(looseParseXML(source))).toBe(source);
+  });
+
+  test('round-trips top-level cdata text', () => {
+    const text = { id: 't', kind: 'text' as const, tagName: '', content: 'Intro a ]]> b', escaping: 'cdata' as const, children: [] };
+    const task = { id: 'a', tagName: 'task', content: 'Do it', children: [] };
+    const { elements, diagnostics } = parseXMLWithDiagnostics(serializeXML([text, task]));
+    expect(diagnostics).toEqual([]);
+    expect(elements.map(e => [e.kind ?? 'element', e.content])).toEqual([
+      ['text', 'Intro a ]]> b'],
+      ['element', 'Do it']
+    ]);
+    expect(elements[0].escaping).toBe('cdata');
+  });
+});
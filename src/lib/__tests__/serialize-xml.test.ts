@@ -0,0 +1,108 @@
+// XML Serializer Tests
+import { serializeXML, formatAttributes, escapeContent } from '../serialize-xml';
+import type { XMLElement } from '@/components/PromptBuilder';
+
+const el = (tagName: string, content = '', children: XMLElement[] = [], extra: Partial<XMLElement> = {}): XMLElement => ({
+  id: `id-${tagName}`,
+  tagName,
+  content,
+  children,
+  isVisible: true,
+  ...extra
+});
+
+describe('serializeXML', () => {
+  test('default style puts content on its own line with two-space indent', () => {
+    const xml = serializeXML([el('prompt', '', [el('name', 'Bob'), el('empty')])]);
+    expect(xml).toBe([
+      '<prompt>',
+      '  <name>',
+      '    Bob',
+      '  </name>',
+      '  <empty>',
+      '  </empty>',
+      '</prompt>'
+    ].join('\n'));
+  });
+
+  test('places children after content and closes the parent on its own line', () => {
+    const xml = serializeXML([el('a', 'text', [el('b', 'inner')])]);
+    expect(xml).toBe('<a>\n  text\n  <b>\n    inner\n  </b>\n</a>');
+  });
+
+  test('supports tab and custom width indentation', () => {
+    expect(serializeXML([el('a', '', [el('b', 'x')])], { indent: 'tab' }))
+      .toBe('<a>\n\t<b>\n\t\tx\n\t</b>\n</a>');
+    expect(serializeXML([el('a', 'x')], { indent: 4 })).toBe('<a>\n    x\n</a>');
+  });
+
+  test('inlines short single-line content only', () => {
+    const opts = { inlineShortContent: true, inlineMaxLength: 5 };
+    expect(serializeXML([el('name', 'Bob')], opts)).toBe('<name>Bob</name>');
+    expect(serializeXML([el('name', 'Roberto')], opts)).toBe('<name>\n  Roberto\n</name>');
+    expect(serializeXML([el('name', 'a\nb')], opts)).toBe('<name>\n  a\nb\n</name>');
+  });
+
+  test('separates top-level sections with blank lines', () => {
+    const xml = serializeXML([el('a', 'x'), el('b', 'y')], { blankLineBetweenSections: true });
+    expect(xml).toBe('<a>\n  x\n</a>\n\n<b>\n  y\n</b>');
+  });
+
+  test('self-closes empty elements', () => {
+    expect(serializeXML([el('br', '', [], { attributes: [{ name: 'id', value: '1' }] })], { selfCloseEmpty: true }))
+      .toBe('<br id="1"/>');
+  });
+
+  test('adds a trailing newline only when there is output', () => {
+    expect(serializeXML([el('a', 'x')], { trailingNewline: true })).toBe('<a>\n  x\n</a>\n');
+    expect(serializeXML([], { trailingNewline: true })).toBe('');
+  });
+
+  test('omits or comments out hidden elements', () => {
+    const tree = [el('a', 'x'), el('secret', 'y', [], { isVisible: false })];
+    expect(serializeXML(tree)).toBe('<a>\n  x\n</a>');
+    expect(serializeXML(tree, { hiddenElements: 'comment' }))
+      .toBe('<a>\n  x\n</a>\n<!--\n<secret>\n  y\n</secret>\n-->');
+  });
+
+  test('keeps dashes in commented-out elements from ending the comment', () => {
+    const tree = [el('secret', 'a --- b--->c -', [], { isVisible: false })];
+    const xml = serializeXML(tree, { hiddenElements: 'comment', inlineShortContent: true });
+    const body = xml.slice('<!--'.length, -'-->'.length);
+    expect(body).not.toContain('--');
+    expect(body).toContain('a - - - b- - ->c -');
+  });
+
+  test('writes text nodes in place between sibling elements', () => {
+    const text = (content: string) => el('', content, [], { kind: 'text', id: `text-${content}` });
+    const xml = serializeXML([text('Intro'), el('a', '', [text('before'), el('b', 'x'), text('after & done')])], { contentEscaping: 'escape' });
+    expect(xml).toBe('Intro\n<a>\n  before\n  <b>\n    x\n  </b>\n  after &amp; done\n</a>');
+  });
+
+  test('escapes attribute values and skips unnamed attributes', () => {
+    expect(formatAttributes([
+      { name: 'q', value: 'say "hi" & <go>' },
+      { name: ' ', value: 'ignored' }
+    ])).toBe(' q="say &quot;hi&quot; &amp; &lt;go>"');
+  });
+});
+
+describe('escapeContent', () => {
+  test('raw mode leaves content untouched', () => {
+    expect(escapeContent('a < b && </c>', 'raw')).toBe('a < b && </c>');
+  });
+
+  test('escape mode encodes markup characters', () => {
+    expect(escapeContent('a < b && </c>', 'escape')).toBe('a &lt; b &amp;&amp; &lt;/c&gt;');
+  });
+
+  test('cdata mode wraps content and splits embedded terminators', () => {
+    expect(escapeContent('x ]]> y', 'cdata')).toBe('<![CDATA[x ]]]]><![CDATA[> y]]>');
+  });
+
+  test('element override wins over the document setting', () => {
+    const tree = [el('a', '1 < 2'), el('b', '1 < 2', [], { escaping: 'cdata' })];
+    expect(serializeXML(tree, { contentEscaping: 'escape' }))
+      .toBe('<a>\n  1 &lt; 2\n</a>\n<b>\n  <![CDATA[1 < 2]]>\n</b>');
+  });
+});
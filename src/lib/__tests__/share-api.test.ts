@@ -0,0 +1,52 @@
+// Short Link Client Tests
+import { buildShortUrl, createShortLink, fetchShortLink } from '../share-api';
+
+const realFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+const respond = (status: number, body: unknown) => {
+  globalThis.fetch = (async () => new Response(JSON.stringify(body), { status })) as unknown as typeof fetch;
+};
+
+describe('buildShortUrl', () => {
+  test('sends previews to the viewer', () => {
+    expect(buildShortUrl('https://x.dev', 'abc123')).toBe('https://x.dev/s/abc123');
+    expect(buildShortUrl('https://x.dev', 'abc123', 'preview')).toBe('https://x.dev/view?s=abc123');
+  });
+});
+
+describe('createShortLink', () => {
+  test('posts the payload and returns the id', async () => {
+    let sent: { payload: { elements: unknown[] } } | null = null;
+    globalThis.fetch = (async (_url: string, init: RequestInit) => {
+      sent = JSON.parse(init.body as string);
+      return new Response(JSON.stringify({ id: 'abc', expiresAt: 5 }), { status: 201 });
+    }) as unknown as typeof fetch;
+
+    const link = await createShortLink({ elements: [{ id: 'a', tagName: 'x', content: '', children: [] }] });
+    expect(link).toEqual({ id: 'abc', expiresAt: 5 });
+    expect(sent?.payload.elements).toEqual([{ tagName: 'x', content: '', children: [] }]);
+  });
+
+  test('surfaces the server message', async () => {
+    respond(413, { error: 'Too big.' });
+    await expect(createShortLink({ elements: [] })).rejects.toThrow('Too big.');
+  });
+});
+
+describe('fetchShortLink', () => {
+  test('returns the prompt with fresh ids', async () => {
+    respond(200, { id: 'abc', payload: { v: 1, elements: [{ tagName: 'x', content: 'y', children: [] }] } });
+    const prompt = await fetchShortLink('abc');
+    expect(prompt.elements[0]).toMatchObject({ tagName: 'x', content: 'y' });
+    expect(prompt.elements[0].id).toMatch(/^element-/);
+  });
+
+  test('explains missing links', async () => {
+    respond(404, { error: 'This share link does not exist or has expired.' });
+    await expect(fetchShortLink('gone')).rejects.toThrow('expired');
+  });
+});
@@ -0,0 +1,96 @@
+// Share Link Tests
+import {
+  SHARE_LINK_MAX_LENGTH,
+  SHARE_LINK_WARN_LENGTH,
+  buildShareUrl,
+  decodeSharedPrompt,
+  encodeSharedPrompt,
+  fromSharePayload,
+  shareLinkSize,
+  toSharePayload,
+  SHARE_PAYLOAD_VERSION
+} from '../share-link';
+import type { XMLElement } from '../../components/PromptBuilder';
+
+const elements: XMLElement[] = [
+  {
+    id: 'a',
+    tagName: 'task',
+    content: 'Summarize {{topic}} – “quoted”',
+    attributes: [{ name: 'lang', value: 'en' }],
+    collapsed: true,
+    children: [
+      { id: 'b', kind: 'text', tagName: '', content: 'some text', children: [] },
+      { id: 'c', tagName: 'hidden', content: '', isVisible: false, children: [] }
+    ]
+  }
+];
+
+const withoutIds = (nodes: XMLElement[]): unknown[] =>
+  nodes.map(({ id: _id, children, ...rest }) => ({ ...rest, children: withoutIds(children) }));
+
+describe('encodeSharedPrompt / decodeSharedPrompt', () => {
+  test('round-trips the tree and variables with fresh ids', async () => {
+    const variables = [{ name: 'topic', defaultValue: 'cats', required: true }];
+    const fragment = await encodeSharedPrompt({ elements, variables });
+    expect(fragment).toMatch(/^[A-Za-z0-9_-]+$/);
+
+    const decoded = await decodeSharedPrompt(fragment);
+    expect(withoutIds(decoded.elements)).toEqual(withoutIds(elements));
+    expect(decoded.variables).toEqual(variables);
+    expect(decoded.elements[0].id).not.toBe('a');
+    expect(decoded.elements[0].children[0].id).toMatch(/^element-/);
+  });
+
+  test('accepts a leading "#"', async () => {
+    const fragment = await encodeSharedPrompt({ elements });
+    const decoded = await decodeSharedPrompt(`#${fragment}`);
+    expect(decoded.elements[0].tagName).toBe('task');
+    expect(decoded.variables).toBeUndefined();
+  });
+
+  test('compresses repetitive prompts', async () => {
+    const long: XMLElement[] = Array.from({ length: 50 }, (_, i) => ({
+      id: `e${i}`,
+      tagName: 'example',
+      content: 'The quick brown fox jumps over the lazy dog.',
+      children: []
+    }));
+    const fragment = await encodeSharedPrompt({ elements: long });
+    expect(fragment.length).toBeLessThan(JSON.stringify(long).length / 4);
+  });
+
+  test('rejects damaged links', async () => {
+    const fragment = await encodeSharedPrompt({ elements });
+    await expect(decodeSharedPrompt(fragment.slice(0, fragment.length / 2))).rejects.toThrow('damaged');
+    await expect(decodeSharedPrompt('not-a-link')).rejects.toThrow('damaged');
+  });
+});
+
+describe('toSharePayload / fromSharePayload', () => {
+  test('leaves ids out of the payload', () => {
+    const payload = toSharePayload({ elements });
+    expect(JSON.stringify(payload)).not.toContain('"id"');
+    expect(payload.variables).toBeUndefined();
+  });
+
+  test('rejects payloads from a newer version', () => {
+    const payload = { ...toSharePayload({ elements }), v: SHARE_PAYLOAD_VERSION + 1 };
+    expect(() => fromSharePayload(payload)).toThrow('newer version');
+  });
+});
+
+describe('buildShareUrl', () => {
+  test('puts the payload in the fragment of the builder or viewer route', () => {
+    expect(buildShareUrl('https://x.dev', 'abc')).toBe('https://x.dev/share#abc');
+    expect(buildShareUrl('https://x.dev', 'abc', 'preview')).toBe('https://x.dev/view#abc');
+  });
+});
+
+describe('shareLinkSize', () => {
+  test('grades links by length', () => {
+    expect(shareLinkSize('x'.repeat(SHARE_LINK_WARN_LENGTH))).toBe('ok');
+    expect(shareLinkSize('x'.repeat(SHARE_LINK_WARN_LENGTH + 1))).toBe('long');
+    expect(shareLinkSize('x'.repeat(SHARE_LINK_MAX_LENGTH + 1))).toBe('too-long');
+  });
+});
@@ -0,0 +1,64 @@
+// Source Edit Tests
+import { reparseSource, treeToSource } from '../source-edit';
+import { DEFAULT_SERIALIZE_OPTIONS } from '../serialize-xml';
+import type { XMLElement } from '../../components/PromptBuilder';
+import { el } from './fixtures';
+
+// Trees that a parse of their own source would reshape
+const tree: XMLElement[] = [
+  el('a', 'style', 'Use <b>bold</b> here'),
+  el('b', 'task', 'Intro beside children', [el('c', 'step', 'One')]),
+  el('d', 'notes', 'First line\n  indented line'),
+  el('e', 'secret', 'Hidden', [], { isVisible: false })
+];
+
+describe('reparseSource', () => {
+  test('opening and closing source mode without edits changes nothing', () => {
+    const source = treeToSource(tree, DEFAULT_SERIALIZE_OPTIONS);
+    // The editor only reports a new tree (and so a history step) for a non-null result
+    expect(reparseSource(tree, source, source)).toBeNull();
+  });
+
+  test('merges a real edit and keeps untouched elements', () => {
+    const source = treeToSource(tree, DEFAULT_SERIALIZE_OPTIONS);
+    const result = reparseSource(tree, source.replace('Hidden', 'Still hidden'), source)!;
+    expect(result.error).toBeNull();
+    const secret = result.elements!.find(element => element.id === 'e')!;
+    expect(secret.content).toBe('Still hidden');
+    expect(secret.isVisible).toBe(false);
+  });
+
+  test('editing one element leaves its untouched siblings identical', () => {
+    const source = treeToSource(tree, DEFAULT_SERIALIZE_OPTIONS);
+    const result = reparseSource(tree, source.replace('Hidden', 'Still hidden'), source)!;
+    // Inline markup, content beside children and indentation would all be reshaped by a fresh parse
+    expect(result.elements![0]).toBe(tree[0]);
+    expect(result.elements![1]).toBe(tree[1]);
+    expect(result.elements![2]).toBe(tree[2]);
+  });
+
+  test('editing a child keeps the parent content next to it', () => {
+    const source = treeToSource(tree, DEFAULT_SERIALIZE_OPTIONS);
+    const result = reparseSource(tree, source.replace('One', 'Uno'), source)!;
+    const task = result.elements![1];
+    expect(task.id).toBe('b');
+    expect(task.content).toBe('Intro beside children');
+    expect(task.children.map(child => [child.id, child.content])).toEqual([['c', 'Uno']]);
+    expect(result.elements![0]).toBe(tree[0]);
+  });
+
+  test('editing parent content beside children updates it in place', () => {
+    const source = treeToSource(tree, DEFAULT_SERIALIZE_OPTIONS);
+    const result = reparseSource(tree, source.replace('Intro beside', 'Lead beside'), source)!;
+    const task = result.elements![1];
+    expect(task.content).toBe('Lead beside children');
+    expect(task.children[0]).toBe(tree[1].children[0]);
+  });
+
+  test('returns no tree when the edit parses to the same elements', () => {
+    const simple = [el('a', 'role', 'Assistant')];
+    const result = reparseSource(simple, '<role>Assistant</role>\n', '<role>Assistant</role>')!;
+    expect(result.error).toBeNull();
+    expect(result.elements).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+// Template Bundle Tests
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_SCHEMA_VERSION,
+  bundleFileName,
+  createBundle,
+  parseBundle,
+  findConflict,
+  findMalformedElement,
+  findSharedConflicts,
+  planBundleImport
+} from '../template-bundle';
+import type { SavedTemplate } from '../template-store';
+
+const tpl = (id: string, overrides: Partial<SavedTemplate> = {}): SavedTemplate => ({
+  id,
+  name: id,
+  createdAt: 1,
+  updatedAt: 1,
+  elements: [{ id: `${id}-root`, tagName: 'role', content: id, children: [] }],
+  ...overrides
+});
+
+describe('createBundle / parseBundle', () => {
+  test('round-trips templates', async () => {
+    const templates = [tpl('a'), tpl('b', { tags: ['x'] })];
+    const bundle = await createBundle(templates, 42);
+    expect(bundle.format).toBe(BUNDLE_FORMAT);
+    expect(bundle.schemaVersion).toBe(BUNDLE_SCHEMA_VERSION);
+    expect(bundle.exportedAt).toBe(42);
+    expect(bundle.checksum).toMatch(/^[0-9a-f]{64}$/);
+    expect(await parseBundle(JSON.stringify(bundle))).toEqual(templates);
+  });
+
+  test('rejects edited templates by checksum', async () => {
+    const bundle = await createBundle([tpl('a')]);
+    bundle.templates[0].name = 'changed';
+    await expect(parseBundle(JSON.stringify(bundle))).rejects.toThrow('Checksum mismatch');
+  });
+
+  test('rejects non-JSON, foreign and newer files', async () => {
+    await expect(parseBundle('<xml/>')).rejects.toThrow('not valid JSON');
+    await expect(parseBundle('{"format":"other"}')).rejects.toThrow('not a template bundle');
+    const bundle = await createBundle([tpl('a')]);
+    await expect(
+      parseBundle(JSON.stringify({ ...bundle, schemaVersion: BUNDLE_SCHEMA_VERSION + 1 }))
+    ).rejects.toThrow('newer version');
+  });
+
+  test('rejects malformed templates', async () => {
+    const bundle = await createBundle([tpl('a')]);
+    await expect(
+      parseBundle(JSON.stringify({ ...bundle, templates: [{ id: 'a' }] }))
+    ).rejects.toThrow('malformed');
+  });
+
+  test('names the file after the date', () => {
+    expect(bundleFileName(new Date(2024, 0, 5))).toBe('xml-prompt-templates-2024-01-05.json');
+  });
+});
+
+describe('findConflict', () => {
+  test('matches by id first, then by name', () => {
+    const existing = [tpl('a', { name: 'Alpha' }), tpl('b', { name: 'Beta' })];
+    expect(findConflict(tpl('b', { name: 'Alpha' }), existing)?.id).toBe('b');
+    expect(findConflict(tpl('z', { name: 'Alpha' }), existing)?.id).toBe('a');
+    expect(findConflict(tpl('z', { name: 'Gamma' }), existing)).toBeUndefined();
+  });
+});
+
+describe('findMalformedElement', () => {
+  test('finds the first element without an id, tag name or children array', () => {
+    const child = { id: 'c', tagName: 'step', content: '', children: [] };
+    expect(findMalformedElement([{ id: 'r', tagName: 'task', content: '', children: [child] }])).toBeNull();
+    expect(findMalformedElement([{ id: 'r', tagName: 'task', children: [child, { id: 'd', tagName: 'step' }] }]))
+      .toBe('elements[0].children[1]');
+    expect(findMalformedElement([{ id: 1, tagName: 'task', children: [] }])).toBe('elements[0]');
+    expect(findMalformedElement([null])).toBe('elements[0]');
+  });
+});
+
+describe('findSharedConflicts', () => {
+  test('lists incoming templates that resolve to the same existing one', () => {
+    const existing = [tpl('a', { name: 'Alpha' }), tpl('b', { name: 'Beta' })];
+    const incoming = [tpl('a', { name: 'Other' }), tpl('x', { name: 'Alpha' }), tpl('y', { name: 'Beta' })];
+    expect([...findSharedConflicts(incoming, existing)]).toEqual(['a', 'x']);
+  });
+});
+
+describe('planBundleImport', () => {
+  const existing = [tpl('a', { name: 'Alpha', createdAt: 5 })];
+
+  test('adds templates without a conflict', () => {
+    const plan = planBundleImport([tpl('n', { name: 'New' })], existing, {});
+    expect(plan.writes.map(t => t.id)).toEqual(['n']);
+    expect(plan.outcomes).toEqual([{ name: 'New', action: 'added' }]);
+  });
+
+  test('skips conflicts by default', () => {
+    const plan = planBundleImport([tpl('x', { name: 'Alpha' })], existing, {});
+    expect(plan.writes).toEqual([]);
+    expect(plan.outcomes).toEqual([{ name: 'Alpha', action: 'skipped' }]);
+  });
+
+  test('overwrite keeps the local id, name and creation time', () => {
+    const plan = planBundleImport([tpl('a', { name: 'Renamed' })], existing, { a: 'overwrite' }, 99);
+    expect(plan.writes[0]).toMatchObject({ id: 'a', name: 'Alpha', createdAt: 5, updatedAt: 99 });
+    expect(plan.writes[0].elements[0].content).toBe('a');
+    expect(plan.outcomes).toEqual([{ name: 'Renamed', action: 'overwritten', savedAs: 'Alpha' }]);
+  });
+
+  test('keep-both stores a copy under a fresh id and unique name', () => {
+    const incoming = [tpl('x', { name: 'Alpha' }), tpl('y', { name: 'Alpha' })];
+    const plan = planBundleImport(incoming, existing, { x: 'keep-both', y: 'keep-both' }, 7);
+    expect(plan.writes.map(t => t.name)).toEqual(['Alpha (2)', 'Alpha (3)']);
+    expect(plan.writes.map(t => t.id)).toEqual(['tpl-7-0', 'tpl-7-1']);
+    expect(plan.outcomes.map(o => o.action)).toEqual(['kept-both', 'kept-both']);
+  });
+
+  test('renames duplicates within the bundle itself', () => {
+    const plan = planBundleImport([tpl('p', { name: 'Same' }), tpl('q', { name: 'Same' })], [], {});
+    expect(plan.writes.map(t => t.name)).toEqual(['Same', 'Same (2)']);
+    expect(plan.outcomes[1]).toEqual({ name: 'Same', action: 'added', savedAs: 'Same (2)' });
+  });
+
+  test('rejects templates with a malformed element tree', () => {
+    const broken = tpl('m', { name: 'Broken', elements: [{ id: 'r', tagName: 'task' } as never] });
+    const plan = planBundleImport([broken, tpl('n', { name: 'New' })], existing, {});
+    expect(plan.writes.map(t => t.id)).toEqual(['n']);
+    expect(plan.outcomes[0]).toEqual({ name: 'Broken', action: 'rejected', reason: 'Malformed element at elements[0]' });
+  });
+
+  test('overwrites an existing template only once', () => {
+    const incoming = [tpl('a', { name: 'First' }), tpl('x', { name: 'Alpha' })];
+    const plan = planBundleImport(incoming, existing, { a: 'overwrite', x: 'overwrite' });
+    expect(plan.writes).toHaveLength(1);
+    expect(plan.writes[0].elements[0].content).toBe('a');
+    expect(plan.outcomes[1]).toEqual({
+      name: 'Alpha',
+      action: 'skipped',
+      reason: 'Another template in the bundle already overwrote "Alpha"'
+    });
+  });
+});
@@ -0,0 +1,80 @@
+// Template Library Tests
+import {
+  parseTags,
+  normalizeFolder,
+  templateSearchText,
+  filterTemplates,
+  sortTemplates,
+  collectFolders,
+  collectTags
+} from '../template-library';
+import type { SavedTemplate } from '../template-store';
+
+const tpl = (id: string, overrides: Partial<SavedTemplate> = {}): SavedTemplate => ({
+  id,
+  name: id,
+  createdAt: 0,
+  updatedAt: 0,
+  elements: [],
+  ...overrides
+});
+
+const library = [
+  tpl('code-review', {
+    updatedAt: 3,
+    createdAt: 1,
+    folder: 'Team/Reviews',
+    tags: ['review', 'Code'],
+    elements: [{ id: 'a', tagName: 'role', content: 'Senior engineer', children: [] }]
+  }),
+  tpl('Summary 10', { updatedAt: 1, createdAt: 3, folder: 'Team', tags: ['writing'] }),
+  tpl('summary 2', { updatedAt: 2, createdAt: 2, description: 'Short digest of a meeting' })
+];
+
+describe('parseTags', () => {
+  test('trims, drops blanks and case-insensitive duplicates', () => {
+    expect(parseTags(' review, ,Code, code ')).toEqual(['review', 'Code']);
+  });
+});
+
+describe('normalizeFolder', () => {
+  test('tidies separators and whitespace', () => {
+    expect(normalizeFolder(' /Team // Reviews/ ')).toBe('Team/Reviews');
+  });
+});
+
+describe('filterTemplates', () => {
+  const ids = (query: string, folder = '', tag = '') =>
+    filterTemplates(library, { query, folder, tag }).map(t => t.id);
+
+  test('searches element content and metadata, requiring every word', () => {
+    expect(ids('senior')).toEqual(['code-review']);
+    expect(ids('meeting digest')).toEqual(['summary 2']);
+    expect(ids('meeting senior')).toEqual([]);
+    expect(templateSearchText(library[0])).toContain('team/reviews');
+  });
+
+  test('filters by folder including subfolders', () => {
+    expect(ids('', 'Team')).toEqual(['code-review', 'Summary 10']);
+    expect(ids('', 'Team/Reviews')).toEqual(['code-review']);
+  });
+
+  test('filters by tag ignoring case', () => {
+    expect(ids('', '', 'code')).toEqual(['code-review']);
+  });
+});
+
+describe('sortTemplates', () => {
+  test('sorts by update, creation or natural name order', () => {
+    expect(sortTemplates(library, 'updated').map(t => t.id)).toEqual(['code-review', 'summary 2', 'Summary 10']);
+    expect(sortTemplates(library, 'created').map(t => t.id)).toEqual(['Summary 10', 'summary 2', 'code-review']);
+    expect(sortTemplates(library, 'name').map(t => t.id)).toEqual(['code-review', 'summary 2', 'Summary 10']);
+  });
+});
+
+describe('collectFolders / collectTags', () => {
+  test('lists folders with their parents and tags once each', () => {
+    expect(collectFolders(library)).toEqual(['Team', 'Team/Reviews']);
+    expect(collectTags([...library, tpl('x', { tags: ['REVIEW'] })])).toEqual(['Code', 'review', 'writing']);
+  });
+});
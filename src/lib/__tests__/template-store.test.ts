@@ -0,0 +1,42 @@
+// Template Store Tests (the IndexedDB calls need a browser; these cover migration parsing)
+import { parseLegacyTemplates, parseLegacyElements, describeStorageError } from '../template-store';
+
+const template = {
+  id: 'tpl-1',
+  name: 'Review',
+  createdAt: 1,
+  updatedAt: 2,
+  elements: [{ id: 'a', tagName: 'role', content: 'Reviewer', children: [] }]
+};
+
+describe('parseLegacyTemplates', () => {
+  test('reads the stored template list', () => {
+    expect(parseLegacyTemplates(JSON.stringify([template]))).toEqual([template]);
+  });
+
+  test('skips malformed entries and tolerates bad JSON', () => {
+    expect(parseLegacyTemplates(JSON.stringify([template, { name: 'no id' }, null]))).toEqual([template]);
+    expect(parseLegacyTemplates('{not json')).toEqual([]);
+    expect(parseLegacyTemplates(null)).toEqual([]);
+  });
+});
+
+describe('parseLegacyElements', () => {
+  test('accepts a bare array or an { elements } wrapper', () => {
+    expect(parseLegacyElements(JSON.stringify(template.elements))).toEqual(template.elements);
+    expect(parseLegacyElements(JSON.stringify({ elements: template.elements }))).toEqual(template.elements);
+  });
+
+  test('returns null when there is nothing usable', () => {
+    expect(parseLegacyElements(null)).toBeNull();
+    expect(parseLegacyElements('"text"')).toBeNull();
+  });
+});
+
+describe('describeStorageError', () => {
+  test('explains quota and availability failures', () => {
+    expect(describeStorageError({ name: 'QuotaExceededError' })).toMatch(/full/);
+    expect(describeStorageError({ name: 'SecurityError' })).toMatch(/unavailable/);
+    expect(describeStorageError(new Error('boom'))).toBe('Storage error: boom');
+  });
+});
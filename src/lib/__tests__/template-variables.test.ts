@@ -0,0 +1,86 @@
+// Template Variables Tests
+import {
+  extractVariables,
+  findVariablesInText,
+  getMissingRequired,
+  renderElements,
+  renderText,
+  syncVariableDefinitions,
+  type TemplateVariable
+} from '../template-variables';
+import type { XMLElement } from '@/components/PromptBuilder';
+
+const createTree = (): XMLElement[] => [
+  {
+    id: 'root-1',
+    tagName: 'prompt',
+    content: '',
+    isVisible: true,
+    children: [
+      {
+        id: 'child-1',
+        tagName: 'greeting',
+        content: 'Hello {{customer_name}}, welcome to {{ product }}!',
+        attributes: [{ name: 'tone', value: '{{tone}}' }],
+        isVisible: true,
+        children: []
+      },
+      {
+        id: 'child-2',
+        tagName: 'signoff',
+        content: 'Thanks, {{customer_name}}',
+        isVisible: false,
+        children: []
+      }
+    ]
+  }
+];
+
+describe('Template Variables', () => {
+  test('finds distinct variables in order of first use', () => {
+    expect(findVariablesInText('{{a}} {{b}} {{a}} {{ c }}')).toEqual(['a', 'b', 'c']);
+  });
+
+  test('ignores malformed placeholders', () => {
+    expect(findVariablesInText('{{}} {{1abc}} {single}')).toEqual([]);
+  });
+
+  test('extracts variables from content and attributes across the tree', () => {
+    expect(extractVariables(createTree())).toEqual(['customer_name', 'product', 'tone']);
+  });
+
+  test('syncs definitions with detected names', () => {
+    const definitions: TemplateVariable[] = [
+      { name: 'product', defaultValue: 'Acme' },
+      { name: 'stale', required: true }
+    ];
+    expect(syncVariableDefinitions(['customer_name', 'product'], definitions)).toEqual([
+      { name: 'customer_name' },
+      { name: 'product', defaultValue: 'Acme' }
+    ]);
+  });
+
+  test('renders values, then defaults, and leaves unknown placeholders', () => {
+    const definitions: TemplateVariable[] = [{ name: 'product', defaultValue: 'Acme' }];
+    expect(renderText('{{name}} uses {{product}} {{other}}', { name: 'Bob' }, definitions))
+      .toBe('Bob uses Acme {{other}}');
+  });
+
+  test('renders elements without mutating the original tree', () => {
+    const tree = createTree();
+    const rendered = renderElements(tree, { customer_name: 'Bob', tone: 'warm' }, []);
+
+    expect(rendered[0].children[0].content).toBe('Hello Bob, welcome to {{ product }}!');
+    expect(rendered[0].children[0].attributes).toEqual([{ name: 'tone', value: 'warm' }]);
+    expect(tree[0].children[0].content).toBe('Hello {{customer_name}}, welcome to {{ product }}!');
+  });
+
+  test('reports required variables that have no value or default', () => {
+    const definitions: TemplateVariable[] = [
+      { name: 'a', required: true },
+      { name: 'b', required: true, defaultValue: 'x' },
+      { name: 'c', required: true }
+    ];
+    expect(getMissingRequired({ c: 'filled' }, definitions)).toEqual(['a']);
+  });
+});
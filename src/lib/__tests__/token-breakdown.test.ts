@@ -0,0 +1,55 @@
+// Token Breakdown Tests
+import { collectSubtreeTexts, findOverBudgetIds } from '../token-breakdown';
+import type { XMLElement } from '@/components/PromptBuilder';
+
+const el = (id: string, children: XMLElement[] = [], extra: Partial<XMLElement> = {}): XMLElement => ({
+  id,
+  tagName: id,
+  content: `${id} text`,
+  children,
+  isVisible: true,
+  ...extra
+});
+
+describe('collectSubtreeTexts', () => {
+  test('serializes each element with its descendants, in tree order', () => {
+    const texts = collectSubtreeTexts([el('a', [el('b')]), el('c', [], { isVisible: false })]);
+    expect(texts.map(t => t.id)).toEqual(['a', 'b', 'c']);
+    expect(texts[0].text).toBe('<a>\n  a text\n  <b>\n    b text\n  </b>\n</a>');
+    expect(texts[1].text).toBe('  <b>\n    b text\n  </b>');
+    expect(texts[2].text).toBe('<c>\n  c text\n</c>');
+  });
+
+  test('skips what omitted hidden elements contain', () => {
+    const tree = [el('a', [el('h', [el('inner')], { isVisible: false })])];
+    const texts = collectSubtreeTexts(tree);
+    expect(texts.map(t => t.id)).toEqual(['a', 'h']);
+    expect(texts[0].text).not.toContain('<h>');
+    expect(collectSubtreeTexts(tree, { hiddenElements: 'comment' }).map(t => t.id)).toEqual(['a', 'h', 'inner']);
+  });
+});
+
+describe('findOverBudgetIds', () => {
+  const tree = [el('small'), el('big', [el('huge')]), el('medium')];
+  const counts = { small: 10, big: 500, huge: 450, medium: 100 };
+
+  test('flags nothing when within budget or no budget is set', () => {
+    expect(findOverBudgetIds(tree, counts, 610, 1000).size).toBe(0);
+    expect(findOverBudgetIds(tree, counts, 610, 0).size).toBe(0);
+  });
+
+  test('flags the largest sections that cover the overflow', () => {
+    expect([...findOverBudgetIds(tree, counts, 610, 550)]).toEqual(['big']);
+    expect([...findOverBudgetIds(tree, counts, 610, 50)].sort()).toEqual(['big', 'huge', 'medium']);
+  });
+
+  test('flags nested elements that alone exceed the budget', () => {
+    expect(findOverBudgetIds(tree, counts, 610, 400).has('huge')).toBe(true);
+  });
+
+  test('never flags hidden subtrees', () => {
+    const hidden = [el('shown'), el('box', [el('inner')], { isVisible: false })];
+    const hiddenCounts = { shown: 10, box: 900, inner: 800 };
+    expect([...findOverBudgetIds(hidden, hiddenCounts, 910, 5)]).toEqual(['shown']);
+  });
+});
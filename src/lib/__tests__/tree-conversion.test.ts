@@ -294,6 +294,43 @@ describe('Tree Conversion Utilities', () => {
       
       expect(tree).toEqual(createMockTree());
     });
+
+    test('preserves element attributes', () => {
+      const tree: XMLElement[] = [
+        {
+          id: 'attr-1',
+          tagName: 'example',
+          content: 'Example body',
+          attributes: [{ name: 'index', value: '1' }, { name: 'lang', value: 'en' }],
+          collapsed: false,
+          isVisible: true,
+          children: []
+        }
+      ];
+
+      const flat = treeToFlat(tree);
+      expect(flat[0].attributes).toEqual([{ name: 'index', value: '1' }, { name: 'lang', value: 'en' }]);
+      expect(flatToTree(flat)).toEqual(tree);
+    });
+
+    test('preserves text nodes in mixed content', () => {
+      const tree: XMLElement[] = [
+        {
+          id: 'mixed-1',
+          tagName: 'prompt',
+          content: '',
+          isVisible: true,
+          children: [
+            { id: 'text-1', kind: 'text', tagName: '', content: 'Intro', isVisible: true, children: [] },
+            { id: 'task-1', tagName: 'task', content: 'Do it', isVisible: true, children: [] }
+          ]
+        }
+      ];
+
+      const flat = treeToFlat(tree);
+      expect(flat.map(el => el.kind)).toEqual([undefined, 'text', undefined]);
+      expect(flatToTree(flat)).toEqual(tree);
+    });
   });
 
   describe('canMoveElement', () => {
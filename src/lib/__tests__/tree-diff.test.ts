@@ -0,0 +1,46 @@
+// Tree Diff Tests
+import { diffTrees } from '../tree-diff';
+import type { XMLElement } from '../../components/PromptBuilder';
+import { el } from './fixtures';
+
+const summary = (before: XMLElement[], after: XMLElement[]) =>
+  diffTrees(before, after).map(change => `${change.kind}:${change.id}`);
+
+describe('diffTrees', () => {
+  test('reports nothing for identical trees', () => {
+    const tree = [el('a', 'prompt', '', [el('b', 'role', 'x')])];
+    expect(diffTrees(tree, tree)).toEqual([]);
+  });
+
+  test('reports added and removed subtrees once, at their root', () => {
+    const before = [el('a', 'prompt', '', [el('old', 'rules', '', [el('r1', 'rule', 'x')])])];
+    const after = [el('a', 'prompt', '', [el('new', 'examples', '', [el('e1', 'example', 'y')])])];
+    expect(summary(before, after)).toEqual(['added:new', 'removed:old']);
+  });
+
+  test('reports content, tag and attribute changes with the old and new text', () => {
+    const before = [el('a', 'role', 'Reviewer')];
+    const after = [{ ...el('a', 'persona', 'Editor'), attributes: [{ name: 'tone', value: 'dry' }] }];
+    const [change] = diffTrees(before, after);
+    expect(change).toMatchObject({
+      kind: 'changed',
+      path: 'persona',
+      fields: ['tagName', 'content', 'attributes'],
+      before: 'Reviewer',
+      after: 'Editor'
+    });
+  });
+
+  test('reports an element moved to another parent with its old path', () => {
+    const before = [el('p', 'prompt', '', [el('x', 'note', 'n')]), el('q', 'other')];
+    const after = [el('p', 'prompt'), el('q', 'other', '', [el('x', 'note', 'n')])];
+    const [change] = diffTrees(before, after);
+    expect(change).toMatchObject({ kind: 'moved', id: 'x', before: 'prompt › note', after: 'other › note' });
+  });
+
+  test('only flags siblings that broke order, not those shifted by an insert', () => {
+    const before = [el('1', 'a'), el('2', 'b'), el('3', 'c')];
+    expect(summary(before, [el('0', 'new'), el('1', 'a'), el('2', 'b'), el('3', 'c')])).toEqual(['added:0']);
+    expect(summary(before, [el('3', 'c'), el('1', 'a'), el('2', 'b')])).toEqual(['moved:3']);
+  });
+});
@@ -0,0 +1,60 @@
+// Tree Filter Tests
+import { applyTreeFilter, elementMatchesFilter, filterTree } from '../tree-filter';
+import { treeToFlat } from '../tree-conversion';
+import type { XMLElement } from '../../components/PromptBuilder';
+import { el } from './fixtures';
+
+const tree: XMLElement[] = [
+  el('a', 'instructions', '', [
+    el('b', 'step', 'Greet the user', [
+      el('c', 'example', 'Hello there')
+    ]),
+    el('d', 'step', 'Answer briefly'),
+    el('t', '', 'user text', [], { kind: 'text' })
+  ], { collapsed: true }),
+  el('e', 'rules', 'No jargon')
+];
+
+describe('elementMatchesFilter', () => {
+  test('matches tag names and content without regard to case', () => {
+    expect(elementMatchesFilter({ tagName: 'Rules', content: '' }, 'rul')).toBe(true);
+    expect(elementMatchesFilter({ tagName: 'x', content: 'No Jargon' }, ' jargon ')).toBe(true);
+    expect(elementMatchesFilter({ tagName: 'x', content: 'y' }, 'z')).toBe(false);
+  });
+
+  test('ignores the tag name of text nodes', () => {
+    expect(elementMatchesFilter({ kind: 'text', tagName: 'rules', content: 'abc' }, 'rules')).toBe(false);
+  });
+});
+
+describe('filterTree', () => {
+  test('returns null for a blank query', () => {
+    expect(filterTree(tree, '')).toBeNull();
+    expect(filterTree(tree, '   ')).toBeNull();
+  });
+
+  test('keeps matches and their ancestors and counts matches below each', () => {
+    const result = filterTree(tree, 'hello')!;
+    expect([...result.matchIds]).toEqual(['c']);
+    expect([...result.visibleIds].sort()).toEqual(['a', 'b', 'c']);
+    expect(result.descendantMatches.get('a')).toBe(1);
+    expect(result.descendantMatches.get('b')).toBe(1);
+    expect(result.descendantMatches.has('c')).toBe(false);
+    expect(result.total).toBe(6);
+  });
+
+  test('counts several matches under one ancestor', () => {
+    const result = filterTree(tree, 'user')!;
+    expect([...result.matchIds].sort()).toEqual(['b', 't']);
+    expect(result.descendantMatches.get('a')).toBe(2);
+  });
+});
+
+describe('applyTreeFilter', () => {
+  test('shows filtered rows inside collapsed elements without expanding them', () => {
+    const flat = treeToFlat(tree);
+    const rows = applyTreeFilter(flat, filterTree(tree, 'step')!);
+    expect(rows.map(row => row.id)).toEqual(['a', 'b', 'd']);
+    expect(rows[0].collapsed).toBe(true);
+  });
+});
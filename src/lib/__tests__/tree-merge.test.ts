@@ -0,0 +1,83 @@
+// Tree Merge Tests
+import { mergeEditedTree, mergeParsedTree, showAllElements } from '../tree-merge';
+import { looseParseXML } from '../loose-xml';
+import { el } from './fixtures';
+
+describe('mergeParsedTree', () => {
+  test('returns untouched elements as-is', () => {
+    const previous = [el('1', 'role', 'Assistant'), el('2', 'task', 'Summarize')];
+    const merged = mergeParsedTree(previous, looseParseXML('<role>Assistant</role><task>Summarize</task>'));
+    expect(merged[0]).toBe(previous[0]);
+    expect(merged[1]).toBe(previous[1]);
+  });
+
+  test('keeps id and UI state when content changes', () => {
+    const previous = [el('1', 'role', 'Assistant', [], { collapsed: true, isVisible: false })];
+    const [merged] = mergeParsedTree(previous, looseParseXML('<role>Reviewer</role>'));
+    expect(merged.id).toBe('1');
+    expect(merged.content).toBe('Reviewer');
+    expect(merged.collapsed).toBe(true);
+    expect(merged.isVisible).toBe(false);
+  });
+
+  test('matches reordered siblings by content', () => {
+    const previous = [el('1', 'example', 'a'), el('2', 'example', 'b')];
+    const merged = mergeParsedTree(previous, looseParseXML('<example>b</example><example>a</example>'));
+    expect(merged.map(m => m.id)).toEqual(['2', '1']);
+  });
+
+  test('shares unchanged children of an edited parent', () => {
+    const child = el('c', 'rule', 'Be brief');
+    const previous = [el('p', 'rules', '', [child])];
+    const [merged] = mergeParsedTree(previous, looseParseXML('<rules><rule>Be brief</rule><rule>Cite</rule></rules>'));
+    expect(merged.id).toBe('p');
+    expect(merged.children[0]).toBe(child);
+    expect(merged.children[1].content).toBe('Cite');
+  });
+
+  test('keeps the chosen escaping while the text is unchanged', () => {
+    const previous = [el('1', 'code', 'a < b', [], { escaping: 'cdata' })];
+    const [merged] = mergeParsedTree(previous, looseParseXML('<code>a < b</code>'));
+    expect(merged).toBe(previous[0]);
+  });
+
+  test('drops removed elements and adds new ones', () => {
+    const previous = [el('1', 'role', 'x'), el('2', 'task', 'y')];
+    const merged = mergeParsedTree(previous, looseParseXML('<role>x</role><context>z</context>'));
+    expect(merged).toHaveLength(2);
+    expect(merged[0].id).toBe('1');
+    expect(merged[1].tagName).toBe('context');
+  });
+});
+
+describe('mergeEditedTree', () => {
+  const markup = el('1', 'style', 'Use <b>bold</b> here');
+  const previous = [markup, el('2', 'task', 'Summarize')];
+  const before = looseParseXML('<style>Use <b>bold</b> here</style><task>Summarize</task>');
+
+  test('keeps untouched originals even when their source parses differently', () => {
+    const merged = mergeEditedTree(previous, before, looseParseXML('<style>Use <b>bold</b> here</style><task>Review</task>'));
+    expect(merged[0]).toBe(markup);
+    expect(merged[1]).toMatchObject({ id: '2', content: 'Review' });
+  });
+
+  test('adds and removes elements around untouched ones', () => {
+    const merged = mergeEditedTree(previous, before, looseParseXML('<role>New</role><style>Use <b>bold</b> here</style>'));
+    expect(merged).toHaveLength(2);
+    expect(merged[0].tagName).toBe('role');
+    expect(merged[1]).toBe(markup);
+  });
+
+  test('falls back to a plain merge when the source no longer lines up', () => {
+    const merged = mergeEditedTree(previous, looseParseXML('<other/>'), looseParseXML('<task>Summarize</task>'));
+    expect(merged).toEqual([previous[1]]);
+  });
+});
+
+describe('showAllElements', () => {
+  test('marks every element visible', () => {
+    const shown = showAllElements([el('1', 'a', '', [el('2', 'b', '', [], { isVisible: false })], { isVisible: false })]);
+    expect(shown[0].isVisible).toBe(true);
+    expect(shown[0].children[0].isVisible).toBe(true);
+  });
+});
@@ -0,0 +1,231 @@
+// Tree Operations Tests
+import {
+  cloneWithFreshIds,
+  duplicateElement,
+  incrementNumericSuffix,
+  setAllCollapsed,
+  findAncestorIds,
+  expandAncestors,
+  listElements,
+  indentElement,
+  outdentElement,
+  selectionRoots,
+  removeElements,
+  updateElements,
+  wrapElements,
+  insertElements
+} from '../tree-ops';
+import type { XMLElement } from '../../components/PromptBuilder';
+import { el } from './fixtures';
+
+const tree: XMLElement[] = [
+  el('a', 'root', '', [
+    el('b', 'section', '', [el('c', 'item', 'deep')], { collapsed: true }),
+    el('d', 'note')
+  ], { collapsed: true }),
+  el('e', 'footer')
+];
+
+const ids = (elements: XMLElement[]): string[] => elements.flatMap(e => [e.id, ...ids(e.children)]);
+
+describe('cloneWithFreshIds', () => {
+  test('copies the subtree with new ids and no shared references', () => {
+    const source = el('x', 'task', '', [el('y', 'step')], { attributes: [{ name: 'k', value: 'v' }] });
+    const copy = cloneWithFreshIds(source);
+    expect(copy.id).not.toBe('x');
+    expect(copy.children[0].id).not.toBe('y');
+    expect(copy.children[0].tagName).toBe('step');
+    expect(copy.attributes).toEqual(source.attributes);
+    expect(copy.attributes).not.toBe(source.attributes);
+  });
+});
+
+describe('duplicateElement', () => {
+  test('inserts the copy right after the original', () => {
+    const result = duplicateElement(tree, 'b')!;
+    const siblings = result.elements[0].children;
+    expect(siblings.map(s => s.tagName)).toEqual(['section', 'section', 'note']);
+    expect(siblings[1]).toBe(result.copy);
+    expect(result.copy.children[0].content).toBe('deep');
+    // Untouched branches are shared
+    expect(result.elements[1]).toBe(tree[1]);
+  });
+
+  test('returns null for unknown ids', () => {
+    expect(duplicateElement(tree, 'zzz')).toBeNull();
+  });
+
+  test('numbers the copy after its siblings when asked', () => {
+    const examples = [
+      el('x1', 'example-1', '', [], { attributes: [{ name: 'n', value: '1' }] }),
+      el('x2', 'example-2', '', [], { attributes: [{ name: 'n', value: '2' }] })
+    ];
+    const result = duplicateElement(examples, 'x1', { incrementTag: true, incrementAttribute: 'n' })!;
+    expect(result.elements.map(e => e.tagName)).toEqual(['example-1', 'example-3', 'example-2']);
+    expect(result.copy.attributes).toEqual([{ name: 'n', value: '3' }]);
+  });
+
+  test('leaves names without numbers alone', () => {
+    const result = duplicateElement(tree, 'e', { incrementTag: true, incrementAttribute: 'n' })!;
+    expect(result.copy.tagName).toBe('footer');
+    expect(result.copy.attributes).toBeUndefined();
+  });
+});
+
+describe('incrementNumericSuffix', () => {
+  test('bumps trailing numbers and keeps padding', () => {
+    expect(incrementNumericSuffix('example-1')).toBe('example-2');
+    expect(incrementNumericSuffix('v09')).toBe('v10');
+    expect(incrementNumericSuffix('step99')).toBe('step100');
+    expect(incrementNumericSuffix('7')).toBe('8');
+  });
+
+  test('returns null without a trailing number', () => {
+    expect(incrementNumericSuffix('example')).toBeNull();
+    expect(incrementNumericSuffix('1a')).toBeNull();
+  });
+});
+
+describe('setAllCollapsed', () => {
+  test('only touches elements with children', () => {
+    const expanded = setAllCollapsed(tree, false);
+    expect(expanded[0].collapsed).toBe(false);
+    expect(expanded[0].children[0].collapsed).toBe(false);
+    expect(expanded[1]).toBe(tree[1]);
+  });
+});
+
+describe('findAncestorIds / expandAncestors', () => {
+  test('finds the chain of ancestors', () => {
+    expect(findAncestorIds(tree, 'c')).toEqual(['a', 'b']);
+    expect(findAncestorIds(tree, 'e')).toEqual([]);
+    expect(findAncestorIds(tree, 'zzz')).toBeNull();
+  });
+
+  test('expands ancestors and nothing else', () => {
+    const next = expandAncestors(tree, 'c');
+    expect(next[0].collapsed).toBe(false);
+    expect(next[0].children[0].collapsed).toBe(false);
+    expect(next[0].children[1]).toBe(tree[0].children[1]);
+  });
+
+  test('returns the same tree when already visible', () => {
+    expect(expandAncestors(tree, 'e')).toBe(tree);
+    const open = setAllCollapsed(tree, false);
+    expect(expandAncestors(open, 'c')).toBe(open);
+  });
+});
+
+describe('listElements', () => {
+  test('lists every element in document order with its path', () => {
+    const list = listElements(tree);
+    expect(list.map(m => m.element.id)).toEqual(ids(tree));
+    expect(list.find(m => m.element.id === 'c')?.path).toEqual(['root', 'section']);
+  });
+});
+
+describe('indentElement', () => {
+  test('moves the element to the end of its previous sibling and expands it', () => {
+    const next = indentElement(tree, 'd')!;
+    const section = next[0].children[0];
+    expect(next[0].children.map(c => c.id)).toEqual(['b']);
+    expect(section.children.map(c => c.id)).toEqual(['c', 'd']);
+    expect(section.collapsed).toBe(false);
+  });
+
+  test('works at the top level', () => {
+    const next = indentElement(tree, 'e')!;
+    expect(next.map(e => e.id)).toEqual(['a']);
+    expect(next[0].children.map(c => c.id)).toEqual(['b', 'd', 'e']);
+  });
+
+  test('returns null for first children and under text nodes', () => {
+    expect(indentElement(tree, 'b')).toBeNull();
+    const withText = [el('t', '', 'hi', [], { kind: 'text' }), el('x', 'item')];
+    expect(indentElement(withText, 'x')).toBeNull();
+    expect(indentElement(tree, 'zzz')).toBeNull();
+  });
+});
+
+describe('outdentElement', () => {
+  test('places the element right after its parent', () => {
+    const next = outdentElement(tree, 'b')!;
+    expect(next.map(e => e.id)).toEqual(['a', 'b', 'e']);
+    expect(next[0].children.map(c => c.id)).toEqual(['d']);
+    expect(next[1].children[0].id).toBe('c');
+  });
+
+  test('works below the top level and keeps untouched branches', () => {
+    const next = outdentElement(tree, 'c')!;
+    expect(next[0].children.map(c => c.id)).toEqual(['b', 'c', 'd']);
+    expect(next[1]).toBe(tree[1]);
+  });
+
+  test('returns null for top-level elements', () => {
+    expect(outdentElement(tree, 'a')).toBeNull();
+    expect(outdentElement(tree, 'zzz')).toBeNull();
+  });
+});
+
+describe('selectionRoots', () => {
+  test('drops elements inside other selected elements and keeps document order', () => {
+    expect(selectionRoots(tree, ['e', 'c', 'b']).map(e => e.id)).toEqual(['b', 'e']);
+    expect(selectionRoots(tree, ['zzz'])).toEqual([]);
+  });
+});
+
+describe('removeElements', () => {
+  test('removes the elements and their descendants, sharing the rest', () => {
+    const next = removeElements(tree, ['b', 'e']);
+    expect(ids(next)).toEqual(['a', 'd']);
+    expect(next[0].children[0]).toBe(tree[0].children[1]);
+    expect(removeElements(tree, ['zzz'])).toBe(tree);
+  });
+});
+
+describe('updateElements', () => {
+  test('updates each element and keeps children', () => {
+    const next = updateElements(tree, ['a', 'c'], e => ({ ...e, isVisible: false }));
+    expect(next[0].isVisible).toBe(false);
+    expect(next[0].children[0].children[0].isVisible).toBe(false);
+    expect(next[0].children[1]).toBe(tree[0].children[1]);
+    expect(ids(next)).toEqual(ids(tree));
+  });
+});
+
+describe('wrapElements', () => {
+  test('wraps elements from different parents at the first one, in order', () => {
+    const result = wrapElements(tree, ['e', 'c'], { id: 'w', tagName: 'group', content: '' })!;
+    expect(ids(result.elements)).toEqual(['a', 'b', 'w', 'c', 'e', 'd']);
+    expect(result.wrapper.children.map(c => c.id)).toEqual(['c', 'e']);
+    expect(result.elements[0].children[0].children).toEqual([result.wrapper]);
+  });
+
+  test('returns null when nothing matches', () => {
+    expect(wrapElements(tree, [], { id: 'w', tagName: 'group', content: '' })).toBeNull();
+  });
+});
+
+describe('insertElements', () => {
+  const pasted = [el('p', 'pasted'), el('q', 'also')];
+
+  test('inserts after the anchor, in order', () => {
+    expect(ids(insertElements(tree, 'b', 'after', pasted))).toEqual(['a', 'b', 'c', 'p', 'q', 'd', 'e']);
+  });
+
+  test('inserts as last children and expands the anchor', () => {
+    const next = insertElements(tree, 'a', 'child', pasted);
+    expect(next[0].children.map(c => c.id)).toEqual(['b', 'd', 'p', 'q']);
+    expect(next[0].collapsed).toBe(false);
+  });
+
+  test('appends at the top level without an anchor', () => {
+    expect(insertElements(tree, null, 'after', pasted).map(e => e.id)).toEqual(['a', 'e', 'p', 'q']);
+    expect(insertElements(tree, 'zzz', 'child', pasted).map(e => e.id)).toEqual(['a', 'e', 'p', 'q']);
+  });
+
+  test('refuses children for text nodes', () => {
+    const withText = [el('t', '', 'hi', [], { kind: 'text' })];
+    expect(() => insertElements(withText, 't', 'child', pasted)).toThrow("Text can't contain elements");
+  });
+});
@@ -0,0 +1,140 @@
+// Tree Refactoring Tests
+import {
+  convertContentToElements,
+  headingToTagName,
+  mergeSiblings,
+  splitContentSections,
+  splitElementContent,
+  unwrapElement
+} from '../tree-refactor';
+import type { XMLElement } from '../../components/PromptBuilder';
+import { el } from './fixtures';
+
+// Tag names (or "text:content") by level, for readable assertions
+const shape = (elements: XMLElement[]): unknown[] =>
+  elements.map(element => {
+    const label = element.kind === 'text' ? `text:${element.content}` : element.tagName;
+    return element.children.length ? { [label]: shape(element.children) } : label;
+  });
+
+describe('headingToTagName', () => {
+  test('slugifies heading text into a valid tag name', () => {
+    expect(headingToTagName('Output Format')).toBe('output-format');
+    expect(headingToTagName('  Step 2: Plan!  ')).toBe('step-2-plan');
+    expect(headingToTagName('2024 goals')).toBe('section-2024-goals');
+    expect(headingToTagName('???')).toBe('section');
+  });
+});
+
+describe('splitContentSections', () => {
+  test('splits on blank lines', () => {
+    expect(splitContentSections('One\nstill one\n\n  \nTwo\n\n', 'paragraphs')).toEqual({
+      preamble: '',
+      sections: [
+        { tagName: 'paragraph', content: 'One\nstill one' },
+        { tagName: 'paragraph', content: 'Two' }
+      ]
+    });
+  });
+
+  test('splits on markdown headings and keeps the preamble', () => {
+    expect(splitContentSections('Intro\n\n# Role\nYou help.\n## Output Format ##\n- short', 'headings')).toEqual({
+      preamble: 'Intro',
+      sections: [
+        { tagName: 'role', content: 'You help.' },
+        { tagName: 'output-format', content: '- short' }
+      ]
+    });
+  });
+});
+
+describe('unwrapElement', () => {
+  const tree = [
+    el('a', 'before'),
+    el('w', 'wrapper', 'Lead text', [el('b', 'one'), el('c', 'two')]),
+    el('d', 'after')
+  ];
+
+  test('promotes children into the parent and keeps content as a text node', () => {
+    const result = unwrapElement(tree, 'w')!;
+    expect(shape(result)).toEqual(['before', 'text:Lead text', 'one', 'two', 'after']);
+    expect(result.map(element => element.id)).not.toContain('w');
+  });
+
+  test('works below the top level and without content', () => {
+    const nested = [el('p', 'parent', '', [el('w', 'wrapper', '', [el('b', 'one')]), el('c', 'two')])];
+    expect(shape(unwrapElement(nested, 'w')!)).toEqual([{ parent: ['one', 'two'] }]);
+  });
+
+  test('returns null for text nodes and unknown ids', () => {
+    expect(unwrapElement([el('t', '', 'x', [], { kind: 'text' })], 't')).toBeNull();
+    expect(unwrapElement(tree, 'missing')).toBeNull();
+  });
+});
+
+describe('splitElementContent', () => {
+  test('moves paragraphs into children ahead of existing ones', () => {
+    const tree = [el('a', 'notes', 'First\n\nSecond', [el('b', 'old')], { collapsed: true })];
+    const result = splitElementContent(tree, 'a', 'paragraphs')!;
+    expect(result[0].content).toBe('');
+    expect(result[0].collapsed).toBe(false);
+    expect(shape(result)).toEqual([{ notes: ['paragraph', 'paragraph', 'old'] }]);
+    expect(result[0].children.map(child => child.content)).toEqual(['First', 'Second', '']);
+  });
+
+  test('turns headings into named children', () => {
+    const tree = [el('a', 'prompt', 'Hi\n# Task\nDo it\n# Rules\nBe nice')];
+    const result = splitElementContent(tree, 'a', 'headings')!;
+    expect(result[0].content).toBe('Hi');
+    expect(shape(result)).toEqual([{ prompt: ['task', 'rules'] }]);
+  });
+
+  test('returns null when there is nothing to split', () => {
+    expect(splitElementContent([el('a', 'x', 'one paragraph')], 'a', 'paragraphs')).toBeNull();
+    expect(splitElementContent([el('a', 'x', 'no headings')], 'a', 'headings')).toBeNull();
+  });
+});
+
+describe('mergeSiblings', () => {
+  const tree = [
+    el('a', 'rule', 'One', [el('a1', 'why')], { attributes: [{ name: 'id', value: '1' }] }),
+    el('b', 'rule', 'Two', [el('b1', 'how')], { attributes: [{ name: 'id', value: '2' }, { name: 'level', value: 'high' }] }),
+    el('c', 'rule', 'Three'),
+    el('t', '', 'text', [], { kind: 'text' })
+  ];
+
+  test('merges a single element with its next sibling', () => {
+    const result = mergeSiblings(tree, ['a'])!;
+    expect(shape(result)).toEqual([{ rule: ['why', 'how'] }, 'rule', 'text:text']);
+    expect(result[0].content).toBe('One\n\nTwo');
+    expect(result[0].attributes).toEqual([{ name: 'id', value: '1' }, { name: 'level', value: 'high' }]);
+  });
+
+  test('merges a selection in document order', () => {
+    const result = mergeSiblings(tree, ['c', 'b', 'a'])!;
+    expect(result).toHaveLength(2);
+    expect(result[0].id).toBe('a');
+    expect(result[0].content).toBe('One\n\nTwo\n\nThree');
+  });
+
+  test('refuses gaps, mixed kinds, different parents and a last element', () => {
+    expect(mergeSiblings(tree, ['a', 'c'])).toBeNull();
+    expect(mergeSiblings(tree, ['c', 't'])).toBeNull();
+    expect(mergeSiblings(tree, ['a', 'a1'])).toBeNull();
+    expect(mergeSiblings(tree, ['t'])).toBeNull();
+  });
+});
+
+describe('convertContentToElements', () => {
+  test('turns tags in content into children with the text around them', () => {
+    const tree = [el('a', 'prompt', 'Use these:\n<example>Hi</example>\nThanks', [el('b', 'old')])];
+    const result = convertContentToElements(tree, 'a')!;
+    expect(result[0].content).toBe('');
+    expect(shape(result)).toEqual([{ prompt: ['text:Use these:', 'example', 'text:Thanks', 'old'] }]);
+    expect(result[0].children[1].content).toBe('Hi');
+  });
+
+  test('returns null when the content has no tags', () => {
+    expect(convertContentToElements([el('a', 'x', 'plain < text')], 'a')).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+// Viewer Source Tests
+import { parseViewerLink, viewerPathFor } from '../viewer-source';
+
+describe('parseViewerLink', () => {
+  test('recognises fragment links for the builder and the viewer', () => {
+    expect(parseViewerLink('https://x.dev/share#abc_-1')).toEqual({ kind: 'fragment', fragment: 'abc_-1' });
+    expect(parseViewerLink(' http://localhost:8080/view#abc ')).toEqual({ kind: 'fragment', fragment: 'abc' });
+  });
+
+  test('recognises short links', () => {
+    expect(parseViewerLink('https://x.dev/s/Ab12')).toEqual({ kind: 'short', id: 'Ab12' });
+    expect(parseViewerLink('https://x.dev/view?s=Ab12')).toEqual({ kind: 'short', id: 'Ab12' });
+  });
+
+  test('ignores other text', () => {
+    expect(parseViewerLink('{"format":"xmlpb-template-bundle"}')).toBeNull();
+    expect(parseViewerLink('https://x.dev/share')).toBeNull();
+    expect(parseViewerLink('https://x.dev/other#abc')).toBeNull();
+  });
+});
+
+describe('viewerPathFor', () => {
+  test('round-trips through parseViewerLink', () => {
+    for (const link of [{ kind: 'short', id: 'Ab12' }, { kind: 'fragment', fragment: 'xyz' }] as const) {
+      expect(parseViewerLink(`https://x.dev${viewerPathFor(link)}`)).toEqual(link);
+    }
+  });
+});
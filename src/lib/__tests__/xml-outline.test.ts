@@ -0,0 +1,74 @@
+// XML Outline Tests
+import { buildOutline, highlightXML, type OutlineSection } from '../xml-outline';
+import { serializeXML } from '../serialize-xml';
+import type { XMLElement } from '../../components/PromptBuilder';
+import { el } from './fixtures';
+
+const tree: XMLElement[] = [
+  el('a', 'task', 'line one\nline two', [
+    el('b', 'step', 'first'),
+    el('t', '', 'loose text', [], { kind: 'text' }),
+    el('h', 'hidden', 'x', [], { isVisible: false }),
+    el('c', 'step', '', [el('d', 'note', 'deep')])
+  ]),
+  el('e', 'format', 'json')
+];
+
+const flatten = (sections: OutlineSection[]): OutlineSection[] =>
+  sections.flatMap(section => [section, ...flatten(section.children)]);
+
+const checkAgainstText = (options: Parameters<typeof serializeXML>[1]) => {
+  const lines = serializeXML(tree, options).split('\n');
+  const sections = flatten(buildOutline(tree, options));
+  sections.forEach(section => {
+    expect(lines[section.startLine].trim().startsWith(`<${section.tagName}`)).toBe(true);
+    expect(lines[section.endLine].trim().endsWith(`</${section.tagName}>`)).toBe(true);
+  });
+  return sections;
+};
+
+describe('buildOutline', () => {
+  test('matches the serialized text line for line', () => {
+    const sections = checkAgainstText({});
+    expect(sections.map(s => s.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  test('follows inline content and blank lines between sections', () => {
+    checkAgainstText({ inlineShortContent: true, blankLineBetweenSections: true, indent: 'tab' });
+  });
+
+  test('skips hidden elements and text nodes', () => {
+    const [task] = buildOutline(tree);
+    expect(task.children.map(c => c.id)).toEqual(['b', 'c']);
+  });
+});
+
+describe('highlightXML', () => {
+  test('classifies tags, attributes and text', () => {
+    const [line] = highlightXML('<task lang="en">Hi</task>');
+    expect(line).toEqual([
+      { kind: 'punct', text: '<' },
+      { kind: 'tag', text: 'task' },
+      { kind: 'text', text: ' ' },
+      { kind: 'attr-name', text: 'lang' },
+      { kind: 'punct', text: '=' },
+      { kind: 'attr-value', text: '"en"' },
+      { kind: 'punct', text: '>' },
+      { kind: 'text', text: 'Hi' },
+      { kind: 'punct', text: '</' },
+      { kind: 'tag', text: 'task' },
+      { kind: 'punct', text: '>' }
+    ]);
+  });
+
+  test('keeps one entry per line, splitting multi-line tokens', () => {
+    const lines = highlightXML('<a>\n<![CDATA[x\ny]]>\n</a>');
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toEqual([{ kind: 'cdata', text: '<![CDATA[x' }]);
+    expect(lines[2]).toEqual([{ kind: 'cdata', text: 'y]]>' }]);
+  });
+
+  test('treats stray angle brackets as text', () => {
+    expect(highlightXML('a < b')[0].map(t => t.kind)).toEqual(['text', 'text']);
+  });
+});
@@ -0,0 +1,103 @@
+// Element Clipboard - copy and paste subtrees between trees, tabs and other apps
+// Copies carry XML text for everything else and an exact JSON payload for this app
+
+import type { XMLElement } from '@/components/PromptBuilder';
+import { looseParseXML } from '@/lib/loose-xml';
+import { serializeXML, type SerializeOptions } from '@/lib/serialize-xml';
+import { fromSharePayload, toSharePayload, type SharePayload } from '@/lib/share-link';
+import { cloneWithFreshIds } from '@/lib/tree-ops';
+
+/** Structured payload type; same shape as a share link payload, without variables */
+export const ELEMENT_CLIPBOARD_TYPE = 'application/x-xml-prompt-elements+json';
+// The async Clipboard API only accepts custom types under the "web " prefix
+const WEB_CLIPBOARD_TYPE = `web ${ELEMENT_CLIPBOARD_TYPE}`;
+
+export interface ClipboardContents {
+  text: string;
+  /** JSON payload, when the copy came from this app */
+  json?: string;
+}
+
+/**
+ * What to put on the clipboard for these elements
+ */
+export function toClipboardContents(elements: XMLElement[], options: Partial<SerializeOptions>): ClipboardContents {
+  return {
+    text: serializeXML(elements, options),
+    json: JSON.stringify(toSharePayload({ elements }))
+  };
+}
+
+/**
+ * Elements from clipboard contents, always with fresh ids.
+ * Prefers the exact payload; plain text is read as loose XML.
+ * Throws an Error with a user-facing message when there is nothing to paste.
+ */
+export function fromClipboardContents({ text, json }: ClipboardContents): XMLElement[] {
+  if (json) {
+    try {
+      const { elements } = fromSharePayload(JSON.parse(json) as SharePayload);
+      if (elements.length > 0) return elements;
+    } catch {
+      // Damaged or from a newer version: the XML text is still there
+    }
+  }
+  if (!text.trim()) {
+    throw new Error('The clipboard has no XML or elements to paste.');
+  }
+  return looseParseXML(text).map(cloneWithFreshIds);
+}
+
+/**
+ * Copy/cut event handlers: synchronous, and custom types work without the "web " prefix
+ */
+export function writeToDataTransfer(data: DataTransfer, contents: ClipboardContents): void {
+  data.setData('text/plain', contents.text);
+  if (contents.json) data.setData(ELEMENT_CLIPBOARD_TYPE, contents.json);
+}
+
+export function readFromDataTransfer(data: DataTransfer): ClipboardContents {
+  return {
+    text: data.getData('text/plain'),
+    json: data.getData(ELEMENT_CLIPBOARD_TYPE) || undefined
+  };
+}
+
+/**
+ * For buttons and menus, outside a clipboard event. Browsers without custom
+ * clipboard types still get the XML text.
+ */
+export async function writeToClipboard(contents: ClipboardContents): Promise<void> {
+  if (contents.json && typeof ClipboardItem !== 'undefined' && navigator.clipboard?.write) {
+    try {
+      await navigator.clipboard.write([
+        new ClipboardItem({
+          'text/plain': new Blob([contents.text], { type: 'text/plain' }),
+          [WEB_CLIPBOARD_TYPE]: new Blob([contents.json], { type: WEB_CLIPBOARD_TYPE })
+        })
+      ]);
+      return;
+    } catch {
+      // Fall through to plain text
+    }
+  }
+  await navigator.clipboard.writeText(contents.text);
+}
+
+export async function readFromClipboard(): Promise<ClipboardContents> {
+  if (navigator.clipboard?.read) {
+    try {
+      const items = await navigator.clipboard.read();
+      for (const item of items) {
+        const json = item.types.includes(WEB_CLIPBOARD_TYPE)
+          ? await (await item.getType(WEB_CLIPBOARD_TYPE)).text()
+          : undefined;
+        const text = item.types.includes('text/plain') ? await (await item.getType('text/plain')).text() : '';
+        if (json || text) return { text, json };
+      }
+    } catch {
+      // Permission refused or unsupported; try plain text below
+    }
+  }
+  return { text: await navigator.clipboard.readText() };
+}
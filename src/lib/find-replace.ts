@@ -0,0 +1,208 @@
+// Find & Replace - search tag names and content across the whole tree
+// Collapsed and hidden elements are searched too; replacements return a new tree for one undo step
+
+import type { XMLElement } from '@/components/PromptBuilder';
+
+export interface FindOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  /** Treat the query as a regular expression; replacements may then use $1, $<name>, $& */
+  regex: boolean;
+}
+
+export const DEFAULT_FIND_OPTIONS: FindOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+};
+
+export type FindField = 'tagName' | 'content';
+
+/** Start (inclusive) and end (exclusive) offsets */
+export type TextRange = [number, number];
+
+export interface FindMatch {
+  elementId: string;
+  field: FindField;
+  start: number;
+  end: number;
+}
+
+/** Matches for one element, ready for highlighting */
+export interface ElementHighlight {
+  tagName: TextRange[];
+  content: TextRange[];
+  /** The current match, when it is in this element */
+  current?: { field: FindField; start: number };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The search as a global RegExp; null for an empty query.
+ * Throws an Error with a user-facing message for an invalid regular expression.
+ */
+export function createMatcher(query: string, options: FindOptions): RegExp | null {
+  if (!query) return null;
+  let source = options.regex ? query : escapeRegExp(query);
+  // Lookarounds rather than \b so queries that start or end with punctuation still work
+  if (options.wholeWord) source = `(?<![A-Za-z0-9_])(?:${source})(?![A-Za-z0-9_])`;
+  try {
+    return new RegExp(source, `gm${options.caseSensitive ? '' : 'i'}`);
+  } catch (err) {
+    throw new Error(`Invalid regular expression: ${err instanceof Error ? err.message : query}`);
+  }
+}
+
+// Every non-empty match; empty ones (e.g. /x*/) would never end
+const execAll = (text: string, matcher: RegExp): RegExpExecArray[] => {
+  const re = new RegExp(matcher.source, matcher.flags);
+  const found: RegExpExecArray[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      re.lastIndex++;
+      continue;
+    }
+    found.push(match);
+  }
+  return found;
+};
+
+/**
+ * Where `matcher` matches in a piece of text
+ */
+export function findInText(text: string, matcher: RegExp): TextRange[] {
+  return execAll(text, matcher).map(match => [match.index, match.index + match[0].length]);
+}
+
+/**
+ * All matches in document order: each element's tag name, then its content
+ */
+export function findMatches(elements: XMLElement[], matcher: RegExp): FindMatch[] {
+  const matches: FindMatch[] = [];
+  const walk = (items: XMLElement[]) => {
+    items.forEach(item => {
+      const fields: FindField[] = item.kind === 'text' ? ['content'] : ['tagName', 'content'];
+      fields.forEach(field => {
+        findInText(item[field], matcher).forEach(([start, end]) => {
+          matches.push({ elementId: item.id, field, start, end });
+        });
+      });
+      walk(item.children);
+    });
+  };
+  walk(elements);
+  return matches;
+}
+
+/**
+ * Group matches by element for the tree
+ */
+export function groupMatches(matches: FindMatch[], current?: FindMatch): Map<string, ElementHighlight> {
+  const byElement = new Map<string, ElementHighlight>();
+  matches.forEach(match => {
+    const entry = byElement.get(match.elementId) ?? { tagName: [], content: [] };
+    entry[match.field].push([match.start, match.end]);
+    if (match === current) entry.current = { field: match.field, start: match.start };
+    byElement.set(match.elementId, entry);
+  });
+  return byElement;
+}
+
+// String.replace's $ patterns, for one match
+const expandReplacement = (replacement: string, match: RegExpExecArray): string =>
+  replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, body: string, name?: string) => {
+    if (body === '$') return '$';
+    if (body === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const group = Number(body);
+    return group > 0 && group < match.length ? match[group] ?? '' : token;
+  });
+
+// Tag names can't hold whitespace; an empty result leaves the tag as it was
+const applyToField = (field: FindField, before: string, after: string): string => {
+  if (field === 'content') return after;
+  const tag = after.replace(/\s+/g, '-');
+  return tag ? tag : before;
+};
+
+const replaceInText = (
+  text: string,
+  matcher: RegExp,
+  replacement: string,
+  options: FindOptions,
+  only?: number
+): { text: string; count: number } => {
+  let result = '';
+  let last = 0;
+  let count = 0;
+  execAll(text, matcher).forEach(match => {
+    if (only !== undefined && match.index !== only) return;
+    result += text.slice(last, match.index) + (options.regex ? expandReplacement(replacement, match) : replacement);
+    last = match.index + match[0].length;
+    count++;
+  });
+  return { text: result + text.slice(last), count };
+};
+
+const mapElement = (elements: XMLElement[], id: string, update: (element: XMLElement) => XMLElement): XMLElement[] =>
+  elements.map(element => {
+    if (element.id === id) return update(element);
+    if (element.children.length === 0) return element;
+    const children = mapElement(element.children, id, update);
+    return children === element.children ? element : { ...element, children };
+  });
+
+/**
+ * Replace one match; null if it no longer exists (the tree changed since the search)
+ */
+export function replaceMatch(
+  elements: XMLElement[],
+  match: FindMatch,
+  matcher: RegExp,
+  replacement: string,
+  options: FindOptions
+): XMLElement[] | null {
+  let replaced = false;
+  const next = mapElement(elements, match.elementId, element => {
+    const before = element[match.field];
+    const { text, count } = replaceInText(before, matcher, replacement, options, match.start);
+    if (count === 0) return element;
+    const value = applyToField(match.field, before, text);
+    if (value === before) return element;
+    replaced = true;
+    return { ...element, [match.field]: value };
+  });
+  return replaced ? next : null;
+}
+
+/**
+ * Replace every match in the tree
+ */
+export function replaceAllMatches(
+  elements: XMLElement[],
+  matcher: RegExp,
+  replacement: string,
+  options: FindOptions
+): { elements: XMLElement[]; count: number } {
+  let total = 0;
+  const walk = (items: XMLElement[]): XMLElement[] =>
+    items.map(item => {
+      let next = item;
+      const fields: FindField[] = item.kind === 'text' ? ['content'] : ['tagName', 'content'];
+      fields.forEach(field => {
+        const { text, count } = replaceInText(item[field], matcher, replacement, options);
+        const value = applyToField(field, item[field], text);
+        if (count > 0 && value !== item[field]) {
+          total += count;
+          next = { ...next, [field]: value };
+        }
+      });
+      const children = item.children.length > 0 ? walk(item.children) : item.children;
+      return children === item.children ? next : { ...next, children };
+    });
+
+  const next = walk(elements);
+  return { elements: total > 0 ? next : elements, count: total };
+}
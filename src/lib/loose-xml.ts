@@ -1,15 +1,192 @@
 // src/lib/loose-xml.ts
-import type { XMLElement } from "@/components/PromptBuilder";
+import type { ContentEscaping, XMLAttribute, XMLElement } from "@/components/PromptBuilder";
+
+const CDATA_OPEN = "<![CDATA[";
+const CDATA_CLOSE = "]]>";
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/** matches the five XML entities plus decimal/hex character references */
+const ENTITY_PATTERN = /&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);/g;
+
+/** decode XML entities; anything unrecognised is left as-is */
+export const decodeEntities = (value: string): string =>
+  value.replace(ENTITY_PATTERN, (entity, body: string) => {
+    if (body[0] !== "#") return NAMED_ENTITIES[body];
+    const code = body[1] === "x" ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+    try {
+      return String.fromCodePoint(code);
+    } catch {
+      return entity;     // out-of-range code point
+    }
+  });
+
+const decodeAttributeValue = decodeEntities;
+
+/**
+ * Turn raw element text into what the user actually wrote:
+ * CDATA sections are unwrapped verbatim, entities elsewhere are decoded.
+ * Also reports which escaping style the source used so it can round-trip.
+ */
+export function decodeContent(raw: string): { text: string; escaping?: ContentEscaping } {
+  let text = "";
+  let hadCdata = false;
+  let hadEntities = false;
+  let p = 0;
+
+  while (p < raw.length) {
+    const start = raw.indexOf(CDATA_OPEN, p);
+    const end = start === -1 ? -1 : raw.indexOf(CDATA_CLOSE, start + CDATA_OPEN.length);
+    const plainEnd = end === -1 ? raw.length : start;
+
+    const plain = raw.slice(p, plainEnd);
+    const decoded = decodeEntities(plain);
+    if (decoded !== plain) hadEntities = true;
+    text += decoded;
+
+    if (end === -1) break;
+    hadCdata = true;
+    text += raw.slice(start + CDATA_OPEN.length, end);
+    p = end + CDATA_CLOSE.length;
+  }
+
+  return {
+    text,
+    escaping: hadCdata ? "cdata" : hadEntities ? "escape" : undefined,
+  };
+}
+
+/** text node for a run of mixed content, or null when it is only layout whitespace */
+const createTextNode = (raw: string): XMLElement | null => {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  const { text, escaping } = decodeContent(trimmed);
+  return {
+    id: `element-${crypto.randomUUID()}`,
+    kind: "text",
+    tagName: "",
+    content: text,
+    ...(escaping ? { escaping } : {}),
+    children: [],
+    isVisible: true,
+  };
+};
+
+/**
+ * Parse the raw text between a tag name and its closing '>' into attributes.
+ * Accepts double-quoted, single-quoted, unquoted and bare (valueless) forms.
+ */
+export function parseAttributes(raw: string): XMLAttribute[] {
+  const attrs: XMLAttribute[] = [];
+  const re = /([^\s=/"'>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(raw)) !== null) {
+    const value = m[2] ?? m[3] ?? m[4] ?? "";
+    attrs.push({ name: m[1], value: decodeAttributeValue(value) });
+  }
+  return attrs;
+}
+
+export type ParseDiagnosticKind =
+  | "unclosed-tag"
+  | "stray-closing-tag"
+  | "malformed-tag";
+
+/**
+ * Something the parser had to work around.
+ * "error" means input was lost; "warning" means it was kept as plain text.
+ */
+export interface ParseDiagnostic {
+  kind: ParseDiagnosticKind;
+  severity: "error" | "warning";
+  message: string;
+  /** character offset into the source */
+  offset: number;
+  /** number of source characters the diagnostic covers */
+  length: number;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+}
+
+export interface ParseResult {
+  elements: XMLElement[];
+  diagnostics: ParseDiagnostic[];
+}
+
+const PREVIEW_LENGTH = 40;
+
+/** [open, close] pairs of markup that carries no prompt content */
+const PROLOG_MARKUP: [string, string][] = [
+  ["<?", "?>"],
+  ["<!--", "-->"],
+  ["<!", ">"],
+];
+
+/** single-line excerpt of source text for messages */
+const preview = (text: string): string => {
+  const flat = text.trim().replace(/\s+/g, " ");
+  return flat.length > PREVIEW_LENGTH ? `${flat.slice(0, PREVIEW_LENGTH)}…` : flat;
+};
+
+/** build an offset → line/column lookup for `text` */
+const createLocator = (text: string) => {
+  const lineStarts = [0];
+  for (let p = 0; p < text.length; p++) {
+    if (text[p] === "\n") lineStarts.push(p + 1);
+  }
+  return (offset: number) => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return { line: lo + 1, column: offset - lineStarts[lo] + 1 };
+  };
+};
 
 /**
  * Ultra-tolerant “XML-ish” parser.
  *  • Creates a child node ONLY when <name> … </name> exists at the same depth.
  *  • Leaves every other angle-bracket sequence untouched inside parent.content.
+ *  • Text next to child elements (or outside any element) becomes ordered text nodes.
  */
 export function looseParseXML(xml: string): XMLElement[] {
+  return parseXMLWithDiagnostics(xml).elements;
+}
+
+/**
+ * Same parse as looseParseXML, plus a report of everything it had to work around:
+ * unclosed and malformed opening tags and stray closing tags.
+ */
+export function parseXMLWithDiagnostics(xml: string): ParseResult {
   let i = 0;
   const len = xml.length;
   const out: XMLElement[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const locate = createLocator(xml);
+
+  const report = (
+    kind: ParseDiagnosticKind,
+    severity: ParseDiagnostic["severity"],
+    offset: number,
+    length: number,
+    message: string
+  ) => {
+    diagnostics.push({ kind, severity, message, offset, length, ...locate(offset) });
+  };
+
+  /** opening tag the last parseNode call gave up on, so the caller can step over it */
+  let failedTag: { start: number; end: number } | null = null;
 
   /** true if we’ve hit the end of input */
   const eof = () => i >= len;
@@ -32,22 +209,45 @@ export function looseParseXML(xml: string): XMLElement[] {
     return xml.slice(start, i);
   };
 
+  /**
+   * Find the next <name> or <name attr…> opening tag at or after `from`.
+   * Returns -1 if there is none.
+   */
+  const findOpen = (name: string, from: number): number => {
+    const open = `<${name}`;
+    let p = xml.indexOf(open, from);
+    while (p !== -1) {
+      const after = xml[p + open.length] ?? "";
+      if (after === ">" || /\s/.test(after)) return p;
+      p = xml.indexOf(open, p + open.length);
+    }
+    return -1;
+  };
+
   /**
    * Find the position of the matching </name> FOR THIS DEPTH ONLY.
+   * Tags inside CDATA sections are ignored.
    * Returns -1 if not found before limit.
    */
   const findClose = (name: string, from: number, limit: number): number => {
-    const open = `<${name}>`;
     const close = `</${name}>`;
     let depth = 0;
     let p = from;
     while (p < limit) {
-      const openPos = xml.indexOf(open, p);
+      const openPos = findOpen(name, p);
       const closePos = xml.indexOf(close, p);
       if (closePos === -1) return -1;           // no close at all
+      const cdataPos = xml.indexOf(CDATA_OPEN, p);
+      if (cdataPos !== -1 && cdataPos < closePos && (openPos === -1 || cdataPos < openPos)) {
+        const cdataEnd = xml.indexOf(CDATA_CLOSE, cdataPos + CDATA_OPEN.length);
+        if (cdataEnd !== -1) {
+          p = cdataEnd + CDATA_CLOSE.length;    // skip the whole section
+          continue;
+        }
+      }
       if (openPos !== -1 && openPos < closePos) {
         depth++;
-        p = openPos + open.length;
+        p = openPos + name.length + 1;
         continue;
       }
       if (depth === 0) return closePos;         // this is the real match
@@ -57,15 +257,22 @@ export function looseParseXML(xml: string): XMLElement[] {
     return -1;
   };
 
+  /** `</name>` at position p, if there is one */
+  const matchClosingTag = (p: number) => /^<\/([A-Za-z0-9._-]+)\s*>/.exec(xml.slice(p, p + 256));
+
   /**
    * Core recursive routine: parse the next node starting at the current i.
    * Returns null when no tag is found (caller will advance i manually).
+   * `nested` only affects diagnostics: inside an element, failures stay as text.
    */
-  const parseNode = (): XMLElement | null => {
+  const parseNode = (nested: boolean): XMLElement | null => {
+    failedTag = null;
     skipWS();
     if (peek() !== "<" || peek(1) === "/") return null;  // not an opening tag
 
     const startTagPos = i;   // remember in case we bail out
+    const severity = nested ? "warning" : "error";
+    const outcome = nested ? "kept as text" : "dropped";
     next();                  // consume '<'
     const tag = readName();
     if (!tag) {
@@ -73,15 +280,52 @@ export function looseParseXML(xml: string): XMLElement[] {
       return null;
     }
 
-    // skip to end of the opening tag '>'
-    while (!eof() && peek() !== ">") next();
-    if (eof()) return null;  // malformed; treat as plain text outside
+    const afterName = peek();
+    if (afterName !== "" && afterName !== ">" && afterName !== "/" && !/\s/.test(afterName)) {
+      const gt = xml.indexOf(">", i);
+      const end = gt === -1 ? len : gt + 1;
+      report("malformed-tag", severity, startTagPos, end - startTagPos,
+        `Malformed opening tag "${preview(xml.slice(startTagPos, end))}" (${outcome})`);
+      failedTag = { start: startTagPos, end };
+      i = startTagPos;
+      return null;
+    }
+
+    // collect everything up to the end of the opening tag '>' as attributes
+    const attrStart = i;
+    while (!eof() && peek() !== ">" && peek() !== "<") next();
+    if (peek() !== ">") {
+      // ran into the end of input or the next tag before '>'
+      report("malformed-tag", severity, startTagPos, i - startTagPos,
+        `Opening tag <${tag}> is missing its closing ">" (${outcome})`);
+      failedTag = { start: startTagPos, end: i };
+      i = startTagPos;
+      return null;
+    }
+    const rawAttributes = xml.slice(attrStart, i);
+    const selfClosing = rawAttributes.trimEnd().endsWith("/");
+    const attributes = parseAttributes(selfClosing ? rawAttributes.trimEnd().slice(0, -1) : rawAttributes);
     next();                  // consume '>'
 
+    // <tag/> is an empty element
+    if (selfClosing) {
+      return {
+        id: `element-${crypto.randomUUID()}`,
+        tagName: tag,
+        content: "",
+        ...(attributes.length ? { attributes } : {}),
+        children: [],
+        isVisible: true,
+      };
+    }
+
     const contentStart = i;
     const closePos = findClose(tag, contentStart, len);
     if (closePos === -1) {
       // unmatched <tag> – revert: leave whole thing as plain text
+      report("unclosed-tag", severity, startTagPos, contentStart - startTagPos,
+        `<${tag}> is never closed; add </${tag}> (${outcome})`);
+      failedTag = { start: startTagPos, end: contentStart };
       i = startTagPos;                   // rewind
       return null;
     }
@@ -90,6 +334,13 @@ export function looseParseXML(xml: string): XMLElement[] {
     let segs: string[] = [];
     let cursor = contentStart;
 
+    /** text between child elements becomes a text node of its own, in order */
+    const pushTextRun = () => {
+      const textNode = createTextNode(segs.join(""));
+      if (textNode) children.push(textNode);
+      segs = [];
+    };
+
     while (true) {
       const nextLt = xml.indexOf("<", cursor);
       if (nextLt === -1 || nextLt >= closePos) break;
@@ -97,13 +348,29 @@ export function looseParseXML(xml: string): XMLElement[] {
       // push text before '<'
       segs.push(xml.slice(cursor, nextLt));
 
+      // CDATA section – keep verbatim, never look for children inside it
+      if (xml.startsWith(CDATA_OPEN, nextLt)) {
+        const cdataEnd = xml.indexOf(CDATA_CLOSE, nextLt + CDATA_OPEN.length);
+        if (cdataEnd !== -1 && cdataEnd < closePos) {
+          cursor = cdataEnd + CDATA_CLOSE.length;
+          segs.push(xml.slice(nextLt, cursor));
+          continue;
+        }
+      }
+
       // Attempt to parse child
       i = nextLt;
-      const child = parseNode();
+      const child = parseNode(true);
       if (child) {
+        pushTextRun();
         children.push(child);
         cursor = i;        // parseNode left i after child's </name>
       } else {
+        const stray = matchClosingTag(nextLt);
+        if (stray) {
+          report("stray-closing-tag", "warning", nextLt, stray[0].length,
+            `</${stray[1]}> has no matching opening tag (kept as text)`);
+        }
         // Not a real child – keep '<' verbatim
         const gt = xml.indexOf(">", nextLt);
         const end = gt === -1 || gt >= closePos ? closePos : gt + 1;
@@ -118,26 +385,78 @@ export function looseParseXML(xml: string): XMLElement[] {
     // move i right past </tag>
     i = closePos + tag.length + 3;  // 3 = "</>".length
 
+    // Mixed content keeps its text as nodes; plain text stays on the element itself.
+    // Surrounding whitespace is layout from the serializer, not content
+    const hasChildren = children.length > 0;
+    if (hasChildren) pushTextRun();
+    const { text, escaping } = hasChildren ? { text: "", escaping: undefined } : decodeContent(segs.join("").trim());
+
     return {
       id: `element-${crypto.randomUUID()}`,
       tagName: tag,
-      content: children.length ? "" : segs.join(""),
+      content: text,
+      ...(attributes.length ? { attributes } : {}),
+      ...(escaping ? { escaping } : {}),
       children,
       isVisible: true,
     };
   };
 
+  /** start of the current run of text outside any element */
+  let textStart = 0;
+
+  /** keep the pending top-level text run as a text node */
+  const flushText = (end: number) => {
+    const textNode = createTextNode(xml.slice(textStart, end));
+    if (textNode) out.push(textNode);
+  };
+
   /** Main driver loop */
   while (!eof()) {
+    skipWS();
+    if (eof()) break;
     const mark = i;
-    const node = parseNode();
+
+    // a CDATA section is text (serializeXML writes top-level cdata text this way), not a declaration
+    if (xml.startsWith(CDATA_OPEN, mark)) {
+      const end = xml.indexOf(CDATA_CLOSE, mark + CDATA_OPEN.length);
+      i = end === -1 ? mark + CDATA_OPEN.length : end + CDATA_CLOSE.length;
+      continue;
+    }
+
+    // declarations, processing instructions and comments are dropped without a warning
+    const markup = PROLOG_MARKUP.find(([open]) => xml.startsWith(open, mark));
+    if (markup) {
+      flushText(mark);
+      const end = xml.indexOf(markup[1], mark + markup[0].length);
+      i = textStart = end === -1 ? len : end + markup[1].length;
+      continue;
+    }
+
+    const stray = peek() === "<" && peek(1) === "/" ? matchClosingTag(mark) : null;
+    if (stray) {
+      flushText(mark);
+      report("stray-closing-tag", "error", mark, stray[0].length,
+        `</${stray[1]}> has no matching opening tag (dropped)`);
+      i = textStart = mark + stray[0].length;
+      continue;
+    }
+
+    const node = parseNode(false);
     if (node) {
+      flushText(mark);
       out.push(node);
+      textStart = i;
+    } else if (failedTag && failedTag.start === mark) {
+      // already reported; carry on with whatever was inside it
+      flushText(mark);
+      i = textStart = failedTag.end;
     } else {
       // plain char – advance & merge consecutive text later
       i = mark + 1;
     }
   }
+  flushText(len);
 
-  return out;
+  return { elements: out, diagnostics };
 } 
\ No newline at end of file
@@ -0,0 +1,151 @@
+// XML Serializer - Turns the element tree into prompt text
+// Pure and configurable so the preview, copy and tests all share one generator
+
+import type { ContentEscaping, XMLAttribute, XMLElement } from '@/components/PromptBuilder';
+
+export interface SerializeOptions {
+  /** Spaces per nesting level, or 'tab' for one tab per level */
+  indent: number | 'tab';
+  /** Put short single-line content on the same line as its tags: <name>Bob</name> */
+  inlineShortContent: boolean;
+  /** Longest content (in characters) that still counts as "short" */
+  inlineMaxLength: number;
+  /** Separate top-level sections with an empty line */
+  blankLineBetweenSections: boolean;
+  /** Emit <name/> for elements with no content and no children */
+  selfCloseEmpty: boolean;
+  /** End the output with a newline */
+  trailingNewline: boolean;
+  /** Drop hidden elements, or keep them as XML comments */
+  hiddenElements: 'omit' | 'comment';
+  /** Document-wide content escaping; elements may override it */
+  contentEscaping: ContentEscaping;
+}
+
+export const DEFAULT_SERIALIZE_OPTIONS: SerializeOptions = {
+  indent: 2,
+  inlineShortContent: false,
+  inlineMaxLength: 60,
+  blankLineBetweenSections: false,
+  selfCloseEmpty: false,
+  trailingNewline: false,
+  hiddenElements: 'omit',
+  contentEscaping: 'raw',
+};
+
+/**
+ * Escape an attribute value for use inside double quotes
+ */
+export function escapeAttributeValue(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;');
+}
+
+/**
+ * Write element content in the requested escaping mode.
+ * CDATA cannot contain "]]>", so that sequence is split across two sections.
+ */
+export function escapeContent(content: string, mode: ContentEscaping): string {
+  switch (mode) {
+    case 'escape':
+      return content
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+    case 'cdata':
+      return `<![CDATA[${content.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+    default:
+      return content;
+  }
+}
+
+/**
+ * Render attributes as ` name="value"` pairs, skipping unnamed ones
+ */
+export function formatAttributes(attributes: XMLAttribute[] | undefined): string {
+  if (!attributes || attributes.length === 0) return '';
+  return attributes
+    .filter(attr => attr.name.trim().length > 0)
+    .map(attr => ` ${attr.name}="${escapeAttributeValue(attr.value)}"`)
+    .join('');
+}
+
+/**
+ * Serialize an element tree to XML text.
+ * `onElement` sees each element's output, indented as it appears in the result, children first.
+ */
+export function serializeXML(
+  elements: XMLElement[],
+  options: Partial<SerializeOptions> = {},
+  onElement?: (element: XMLElement, xml: string) => void
+): string {
+  const opts: SerializeOptions = { ...DEFAULT_SERIALIZE_OPTIONS, ...options };
+  const unit = opts.indent === 'tab' ? '\t' : ' '.repeat(Math.max(0, opts.indent));
+
+  const serializeElement = (element: XMLElement, level: number): string => {
+    const xml = writeElement(element, level);
+    onElement?.(element, xml);
+    return xml;
+  };
+
+  const writeElement = (element: XMLElement, level: number): string => {
+    const indent = unit.repeat(level);
+    // Text runs between elements sit at the same indentation as their siblings
+    if (element.kind === 'text') {
+      return `${indent}${escapeContent(element.content, element.escaping ?? opts.contentEscaping)}`;
+    }
+    const openTag = `<${element.tagName}${formatAttributes(element.attributes)}`;
+    const hasContent = element.content.trim().length > 0;
+    const content = escapeContent(element.content, element.escaping ?? opts.contentEscaping);
+    const children = serializeChildren(element.children, level + 1);
+    const hasChildren = children.length > 0;
+
+    if (!hasContent && !hasChildren) {
+      return opts.selfCloseEmpty
+        ? `${indent}${openTag}/>`
+        : `${indent}${openTag}>\n${indent}</${element.tagName}>`;
+    }
+
+    const canInline =
+      opts.inlineShortContent &&
+      hasContent &&
+      !hasChildren &&
+      !element.content.includes('\n') &&
+      element.content.length <= opts.inlineMaxLength;
+
+    if (canInline) {
+      return `${indent}${openTag}>${content}</${element.tagName}>`;
+    }
+
+    const lines = [`${indent}${openTag}>`];
+    if (hasContent) lines.push(`${indent}${unit}${content}`);
+    if (hasChildren) lines.push(children);
+    lines.push(`${indent}</${element.tagName}>`);
+    return lines.join('\n');
+  };
+
+  const serializeChildren = (items: XMLElement[], level: number): string => {
+    return items
+      .map(item => {
+        if (item.isVisible !== false) return serializeElement(item, level);
+        if (opts.hiddenElements === 'comment') {
+          // Comment out the whole subtree, keeping it readable in place
+          const indent = unit.repeat(level);
+          const body = serializeElement({ ...item, isVisible: true }, level).replace(/-(?=-)/g, '- ');
+          return `${indent}<!--\n${body}\n${indent}-->`;
+        }
+        return null;
+      })
+      .filter((xml): xml is string => xml !== null)
+      .join('\n');
+  };
+
+  const sections = elements
+    .map(element => serializeChildren([element], 0))
+    .filter(xml => xml.length > 0);
+
+  const xml = sections.join(opts.blankLineBetweenSections ? '\n\n' : '\n');
+  return opts.trailingNewline && xml.length > 0 ? `${xml}\n` : xml;
+}
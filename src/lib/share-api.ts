@@ -0,0 +1,64 @@
+// Short Links - store a prompt snapshot on the worker and share it as /s/:id
+// For prompts whose fragment link would be too long to send around
+
+import { fromSharePayload, toSharePayload, VIEW_PATH, type SharedPrompt, type ShareMode } from '@/lib/share-link';
+
+export const SHORT_LINK_PATH = '/s';
+
+export interface ShortLink {
+  id: string;
+  expiresAt: number;
+}
+
+// The worker answers errors with { error }; fall back to something readable otherwise
+const readError = async (response: Response, fallback: string): Promise<string> => {
+  try {
+    const body = await response.json();
+    return typeof body?.error === 'string' ? body.error : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Upload an immutable snapshot. Throws an Error with a user-facing message on failure.
+ */
+export async function createShortLink(prompt: SharedPrompt): Promise<ShortLink> {
+  let response: Response;
+  try {
+    response = await fetch('/api/share', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ payload: toSharePayload(prompt) })
+    });
+  } catch {
+    throw new Error('Could not reach the share service. Check your connection.');
+  }
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Could not create a short link.'));
+  }
+  return response.json();
+}
+
+/**
+ * Fetch a snapshot by id. Throws an Error with a user-facing message when it is missing or expired.
+ */
+export async function fetchShortLink(id: string): Promise<SharedPrompt> {
+  let response: Response;
+  try {
+    response = await fetch(`/api/share/${encodeURIComponent(id)}`);
+  } catch {
+    throw new Error('Could not reach the share service. Check your connection.');
+  }
+  if (!response.ok) {
+    throw new Error(await readError(response, 'This share link could not be opened.'));
+  }
+  const { payload } = await response.json();
+  return fromSharePayload(payload);
+}
+
+export function buildShortUrl(origin: string, id: string, mode: ShareMode = 'builder'): string {
+  return mode === 'preview'
+    ? `${origin}${VIEW_PATH}?s=${id}`
+    : `${origin}${SHORT_LINK_PATH}/${id}`;
+}
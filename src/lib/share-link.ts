@@ -0,0 +1,124 @@
+// Share Links - pack a prompt into the URL fragment so it can be sent as a link
+// The fragment never reaches a server; it is deflated and base64url-encoded to stay short
+
+import type { XMLElement } from '@/components/PromptBuilder';
+import type { TemplateVariable } from '@/lib/template-variables';
+import { generateUUID } from '@/lib/utils';
+
+export const SHARE_PAYLOAD_VERSION = 1;
+export const SHARE_PATH = '/share';
+export const VIEW_PATH = '/view';
+
+// Many chat apps, mail clients and URL shorteners cut links around here
+export const SHARE_LINK_WARN_LENGTH = 2000;
+// Beyond this some browsers and servers refuse the URL outright
+export const SHARE_LINK_MAX_LENGTH = 32000;
+
+export type ShareMode = 'builder' | 'preview';
+
+export interface SharedPrompt {
+  elements: XMLElement[];
+  variables?: TemplateVariable[];
+}
+
+// Element ids are regenerated on open, so they are left out of the link
+type CompactElement = Omit<XMLElement, 'id' | 'children'> & { children: CompactElement[] };
+
+/** The serialized form of a shared prompt, used both in link fragments and short-link snapshots */
+export interface SharePayload {
+  v: number;
+  elements: CompactElement[];
+  variables?: TemplateVariable[];
+}
+
+const stripIds = (elements: XMLElement[]): CompactElement[] =>
+  elements.map(({ id: _id, children, ...rest }) => ({ ...rest, children: stripIds(children) }));
+
+const assignIds = (elements: CompactElement[]): XMLElement[] =>
+  elements.map(element => ({
+    ...element,
+    id: `element-${generateUUID()}`,
+    children: assignIds(Array.isArray(element.children) ? element.children : [])
+  }));
+
+export function toSharePayload({ elements, variables }: SharedPrompt): SharePayload {
+  return {
+    v: SHARE_PAYLOAD_VERSION,
+    elements: stripIds(elements),
+    ...(variables?.length ? { variables } : {})
+  };
+}
+
+/**
+ * Turn a payload back into a prompt with fresh element ids.
+ * Throws an Error with a user-facing message when it is malformed or from a newer version.
+ */
+export function fromSharePayload(payload: SharePayload): SharedPrompt {
+  if (!payload || typeof payload.v !== 'number' || !Array.isArray(payload.elements)) {
+    throw new Error('This share link is damaged or incomplete.');
+  }
+  if (payload.v > SHARE_PAYLOAD_VERSION) {
+    throw new Error('This link was made by a newer version of the app. Update and try again.');
+  }
+
+  return {
+    elements: assignIds(payload.elements),
+    variables: Array.isArray(payload.variables) ? payload.variables : undefined
+  };
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+/**
+ * Encode a prompt as a URL-safe fragment (no leading "#")
+ */
+export async function encodeSharedPrompt(prompt: SharedPrompt): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(toSharePayload(prompt)));
+  return toBase64Url(await pipe(json, new CompressionStream('deflate-raw')));
+}
+
+/**
+ * Decode a fragment made by encodeSharedPrompt. Throws an Error with a
+ * user-facing message when the link is damaged or from a newer version.
+ */
+export async function decodeSharedPrompt(fragment: string): Promise<SharedPrompt> {
+  let payload: SharePayload;
+  try {
+    const bytes = await pipe(fromBase64Url(fragment.replace(/^#/, '')), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('This share link is damaged or incomplete.');
+  }
+  return fromSharePayload(payload);
+}
+
+/**
+ * Builder links go through /share; preview links open the read-only viewer
+ */
+export function buildShareUrl(origin: string, fragment: string, mode: ShareMode = 'builder'): string {
+  return `${origin}${mode === 'preview' ? VIEW_PATH : SHARE_PATH}#${fragment}`;
+}
+
+/**
+ * How worried to be about a link's length: fine, may get cut by some apps, or likely to break
+ */
+export function shareLinkSize(url: string): 'ok' | 'long' | 'too-long' {
+  if (url.length > SHARE_LINK_MAX_LENGTH) return 'too-long';
+  if (url.length > SHARE_LINK_WARN_LENGTH) return 'long';
+  return 'ok';
+}
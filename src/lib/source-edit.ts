@@ -0,0 +1,46 @@
+// Source Edit - turn edited XML source back into the element tree
+// Only what the edit changed is merged: re-parsing untouched source would reshape the tree (inline markup, indentation)
+
+import { parseXMLWithDiagnostics, type ParseDiagnostic } from './loose-xml';
+import { serializeXML, type SerializeOptions } from './serialize-xml';
+import { mergeEditedTree, showAllElements } from './tree-merge';
+import type { XMLElement } from '@/components/PromptBuilder';
+
+export interface SourceParseResult {
+  /** The merged tree; null when the edit leaves the tree as it is or can't be read */
+  elements: XMLElement[] | null;
+  error: string | null;
+  /** Problems that lose text; warnings (kept as content) aren't worth interrupting typing for */
+  problems: ParseDiagnostic[];
+}
+
+/**
+ * The source text for a tree. Hidden elements are written out too, otherwise
+ * editing the source would delete them.
+ */
+export function treeToSource(elements: XMLElement[], options: SerializeOptions): string {
+  return serializeXML(showAllElements(elements), { ...options, hiddenElements: 'omit' });
+}
+
+/**
+ * Parse `text` and merge it into `previous`. `source` is the text `previous`
+ * was last written as or read from; the same text again is no edit and yields null.
+ * Both are parsed so elements whose source the edit didn't touch stay exactly as they were.
+ */
+export function reparseSource(previous: XMLElement[], text: string, source: string): SourceParseResult | null {
+  if (text === source) return null;
+
+  const { elements: parsed, diagnostics } = parseXMLWithDiagnostics(text);
+  const problems = diagnostics.filter(d => d.severity === 'error');
+  if (parsed.length === 0 && text.trim().length > 0) {
+    return {
+      elements: null,
+      error: 'No complete elements found. Check that every <tag> has a matching </tag>.',
+      problems
+    };
+  }
+
+  const merged = mergeEditedTree(previous, parseXMLWithDiagnostics(source).elements, parsed);
+  const unchanged = merged.length === previous.length && merged.every((el, i) => el === previous[i]);
+  return { elements: unchanged ? null : merged, error: null, problems };
+}
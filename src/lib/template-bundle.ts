@@ -0,0 +1,209 @@
+// Template Bundle - share saved templates as a single JSON file
+// Versioned and checksummed so a truncated or hand-edited file is caught on import
+
+import type { SavedTemplate } from '@/lib/template-store';
+import type { XMLElement } from '@/components/PromptBuilder';
+
+export const BUNDLE_FORMAT = 'xmlpb-template-bundle';
+export const BUNDLE_SCHEMA_VERSION = 1;
+
+export interface TemplateBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  /** SHA-256 (hex) of JSON.stringify(templates) */
+  checksum: string;
+  templates: SavedTemplate[];
+}
+
+export type ConflictResolution = 'skip' | 'overwrite' | 'keep-both';
+
+export const CONFLICT_RESOLUTIONS: Array<{ value: ConflictResolution; label: string }> = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'keep-both', label: 'Keep both' },
+];
+
+export interface BundleImportOutcome {
+  name: string;
+  action: 'added' | 'skipped' | 'overwritten' | 'kept-both' | 'rejected';
+  /** Name it was stored under, when that differs from the bundle */
+  savedAs?: string;
+  /** Why a template was rejected, or skipped despite the chosen resolution */
+  reason?: string;
+}
+
+export interface BundleImportPlan {
+  writes: SavedTemplate[];
+  outcomes: BundleImportOutcome[];
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function createBundle(templates: SavedTemplate[], now = Date.now()): Promise<TemplateBundle> {
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: now,
+    checksum: await sha256Hex(JSON.stringify(templates)),
+    templates
+  };
+}
+
+export function bundleFileName(now = new Date()): string {
+  const date = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  return `xml-prompt-templates-${date}.json`;
+}
+
+const isTemplate = (value: unknown): value is SavedTemplate => {
+  const tpl = value as SavedTemplate;
+  return Boolean(tpl) &&
+    typeof tpl.id === 'string' &&
+    typeof tpl.name === 'string' &&
+    typeof tpl.createdAt === 'number' &&
+    typeof tpl.updatedAt === 'number' &&
+    Array.isArray(tpl.elements);
+};
+
+/**
+ * Where an element tree stops being one (an element without a string id or
+ * tagName, or without a children array), as a path like "elements[0].children[2]";
+ * null when the whole tree is well-formed.
+ */
+export function findMalformedElement(elements: unknown[], path = 'elements'): string | null {
+  for (let index = 0; index < elements.length; index++) {
+    const element = elements[index] as XMLElement;
+    const at = `${path}[${index}]`;
+    if (!element || typeof element.id !== 'string' || typeof element.tagName !== 'string' || !Array.isArray(element.children)) {
+      return at;
+    }
+    const nested = findMalformedElement(element.children, `${at}.children`);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+/**
+ * Read a bundle file. Throws an Error with a user-facing message when the file
+ * isn't a bundle, comes from a newer version, or fails its checksum.
+ */
+export async function parseBundle(text: string): Promise<SavedTemplate[]> {
+  let bundle: Partial<TemplateBundle>;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  if (!bundle || bundle.format !== BUNDLE_FORMAT) {
+    throw new Error('This file is not a template bundle.');
+  }
+  if (typeof bundle.schemaVersion !== 'number' || bundle.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+    throw new Error('This bundle was made by a newer version of the app. Update and try again.');
+  }
+  if (!Array.isArray(bundle.templates) || !bundle.templates.every(isTemplate)) {
+    throw new Error('The bundle contains malformed templates.');
+  }
+  if (bundle.checksum !== await sha256Hex(JSON.stringify(bundle.templates))) {
+    throw new Error('Checksum mismatch: the bundle was modified or is incomplete.');
+  }
+
+  return bundle.templates;
+}
+
+/**
+ * The existing template an incoming one would collide with (same id, else same name)
+ */
+export function findConflict(incoming: SavedTemplate, existing: SavedTemplate[]): SavedTemplate | undefined {
+  return existing.find(t => t.id === incoming.id) ?? existing.find(t => t.name === incoming.name);
+}
+
+const uniqueName = (name: string, taken: Set<string>): string => {
+  for (let n = 2; ; n++) {
+    const candidate = `${name} (${n})`;
+    if (!taken.has(candidate)) return candidate;
+  }
+};
+
+/**
+ * Incoming templates that resolve to the same existing template, by incoming id.
+ * Only one of them can overwrite it.
+ */
+export function findSharedConflicts(incoming: SavedTemplate[], existing: SavedTemplate[]): Set<string> {
+  const byTarget = new Map<string, string[]>();
+  incoming.forEach(tpl => {
+    const conflict = findConflict(tpl, existing);
+    if (conflict) byTarget.set(conflict.id, [...(byTarget.get(conflict.id) ?? []), tpl.id]);
+  });
+  return new Set([...byTarget.values()].filter(ids => ids.length > 1).flat());
+}
+
+/**
+ * Decide what to write for each incoming template.
+ * Templates with a malformed element tree are rejected, and templates without
+ * a conflict are always added; `resolutions` (by incoming id) covers the rest
+ * and defaults to skipping. Only the first overwrite of an existing template
+ * is kept, later ones in the bundle are skipped.
+ */
+export function planBundleImport(
+  incoming: SavedTemplate[],
+  existing: SavedTemplate[],
+  resolutions: Record<string, ConflictResolution>,
+  now = Date.now()
+): BundleImportPlan {
+  const writes: SavedTemplate[] = [];
+  const outcomes: BundleImportOutcome[] = [];
+  const takenNames = new Set(existing.map(t => t.name));
+  const takenIds = new Set(existing.map(t => t.id));
+  const overwritten = new Set<string>();
+
+  incoming.forEach((tpl, index) => {
+    const malformed = findMalformedElement(tpl.elements);
+    if (malformed) {
+      outcomes.push({ name: tpl.name, action: 'rejected', reason: `Malformed element at ${malformed}` });
+      return;
+    }
+
+    const conflict = findConflict(tpl, existing);
+
+    if (!conflict) {
+      // A name repeated inside the bundle itself still gets its own entry
+      const name = takenNames.has(tpl.name) ? uniqueName(tpl.name, takenNames) : tpl.name;
+      const id = takenIds.has(tpl.id) ? `tpl-${now}-${index}` : tpl.id;
+      writes.push({ ...tpl, id, name });
+      takenNames.add(name);
+      takenIds.add(id);
+      outcomes.push({ name: tpl.name, action: 'added', ...(name !== tpl.name ? { savedAs: name } : {}) });
+      return;
+    }
+
+    switch (resolutions[tpl.id] ?? 'skip') {
+      case 'overwrite':
+        if (overwritten.has(conflict.id)) {
+          outcomes.push({ name: tpl.name, action: 'skipped', reason: `Another template in the bundle already overwrote "${conflict.name}"` });
+          break;
+        }
+        overwritten.add(conflict.id);
+        // Keep the local id so the overwrite lands in the existing template's history
+        writes.push({ ...tpl, id: conflict.id, name: conflict.name, createdAt: conflict.createdAt, updatedAt: now });
+        outcomes.push({ name: tpl.name, action: 'overwritten', ...(conflict.name !== tpl.name ? { savedAs: conflict.name } : {}) });
+        break;
+      case 'keep-both': {
+        const name = uniqueName(tpl.name, takenNames);
+        const id = `tpl-${now}-${index}`;
+        writes.push({ ...tpl, id, name, updatedAt: now });
+        takenNames.add(name);
+        takenIds.add(id);
+        outcomes.push({ name: tpl.name, action: 'kept-both', savedAs: name });
+        break;
+      }
+      default:
+        outcomes.push({ name: tpl.name, action: 'skipped' });
+    }
+  });
+
+  return { writes, outcomes };
+}
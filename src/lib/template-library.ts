@@ -0,0 +1,125 @@
+// Template Library - searching, filtering and sorting saved templates
+// Pure helpers behind the Load dialog
+
+import type { XMLElement } from '@/components/PromptBuilder';
+import type { SavedTemplate } from '@/lib/template-store';
+
+export type TemplateSort = 'updated' | 'created' | 'name';
+
+export const TEMPLATE_SORTS: Array<{ value: TemplateSort; label: string }> = [
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'created', label: 'Recently created' },
+  { value: 'name', label: 'Name' },
+];
+
+export interface TemplateFilter {
+  query: string;
+  /** Show only this folder and its subfolders; '' for all */
+  folder: string;
+  /** Show only templates carrying this tag; '' for all */
+  tag: string;
+}
+
+/**
+ * Split a comma-separated tag list, dropping blanks and duplicates
+ */
+export function parseTags(input: string): string[] {
+  const seen = new Set<string>();
+  return input
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Tidy a folder path: trimmed segments joined by "/", no empty segments
+ */
+export function normalizeFolder(input: string): string {
+  return input
+    .split('/')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join('/');
+}
+
+const collectElementText = (elements: XMLElement[], out: string[]) => {
+  elements.forEach(element => {
+    out.push(element.tagName, element.content);
+    element.attributes?.forEach(attr => out.push(attr.name, attr.value));
+    collectElementText(element.children, out);
+  });
+};
+
+/**
+ * Everything a search can match: metadata plus every tag, attribute and text in the tree
+ */
+export function templateSearchText(template: SavedTemplate): string {
+  const parts = [template.name, template.description ?? '', template.folder ?? '', ...(template.tags ?? [])];
+  collectElementText(template.elements, parts);
+  return parts.join('\n').toLowerCase();
+}
+
+/**
+ * Apply the search query (every word must appear somewhere), folder and tag filters
+ */
+export function filterTemplates(
+  templates: SavedTemplate[],
+  { query, folder, tag }: TemplateFilter,
+  searchText: (template: SavedTemplate) => string = templateSearchText
+): SavedTemplate[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const tagKey = tag.toLowerCase();
+
+  return templates.filter(template => {
+    if (folder) {
+      const own = template.folder ?? '';
+      if (own !== folder && !own.startsWith(`${folder}/`)) return false;
+    }
+    if (tagKey && !(template.tags ?? []).some(t => t.toLowerCase() === tagKey)) return false;
+    if (words.length === 0) return true;
+    const text = searchText(template);
+    return words.every(word => text.includes(word));
+  });
+}
+
+export function sortTemplates(templates: SavedTemplate[], sort: TemplateSort): SavedTemplate[] {
+  const sorted = [...templates];
+  switch (sort) {
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true }));
+    case 'created':
+      return sorted.sort((a, b) => b.createdAt - a.createdAt);
+    default:
+      return sorted.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+}
+
+/**
+ * Every folder in use, including parents of nested ones, alphabetically
+ */
+export function collectFolders(templates: SavedTemplate[]): string[] {
+  const folders = new Set<string>();
+  templates.forEach(template => {
+    const parts = (template.folder ?? '').split('/').filter(Boolean);
+    parts.forEach((_, i) => folders.add(parts.slice(0, i + 1).join('/')));
+  });
+  return [...folders].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Every tag in use (first spelling wins), alphabetically
+ */
+export function collectTags(templates: SavedTemplate[]): string[] {
+  const tags = new Map<string, string>();
+  templates.forEach(template =>
+    (template.tags ?? []).forEach(tag => {
+      if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+    })
+  );
+  return [...tags.values()].sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,304 @@
+// Template Store - saved templates and the working tree, kept in IndexedDB
+// localStorage caps out at a few megabytes; IndexedDB grows with the library
+
+import type { XMLElement } from '@/components/PromptBuilder';
+import type { TemplateVariable } from '@/lib/template-variables';
+
+export interface SavedTemplate {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  elements: XMLElement[];
+  variables?: TemplateVariable[];
+  /** "/"-separated path, e.g. "Team/Reviews"; absent means the library root */
+  folder?: string;
+  tags?: string[];
+  description?: string;
+}
+
+/**
+ * A snapshot taken every time a template is saved; the template itself holds the latest
+ */
+export interface TemplateVersion {
+  id: string;
+  templateId: string;
+  createdAt: number;
+  message?: string;
+  elements: XMLElement[];
+  variables?: TemplateVariable[];
+}
+
+const DB_NAME = 'xmlpb';
+const DB_VERSION = 2;
+const TEMPLATES_STORE = 'templates';
+const VERSIONS_STORE = 'versions';
+const VERSIONS_BY_TEMPLATE = 'templateId';
+const WORKSPACE_STORE = 'workspace';
+const WORKSPACE_KEY = 'current';
+
+// Where earlier versions kept everything; read once when the database is created
+export const LEGACY_TEMPLATES_KEY = 'xmlpb_templates_v1';
+export const LEGACY_ELEMENTS_KEY = 'xmlpb_elements_v1';
+
+/**
+ * Parse the old localStorage template list, skipping anything unusable
+ */
+export function parseLegacyTemplates(raw: string | null): SavedTemplate[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (tpl): tpl is SavedTemplate =>
+        tpl && typeof tpl.id === 'string' && typeof tpl.name === 'string' && Array.isArray(tpl.elements)
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse the old localStorage working tree (a bare array or { elements })
+ */
+export function parseLegacyElements(raw: string | null): XMLElement[] | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed)) return parsed as XMLElement[];
+    if (parsed && Array.isArray(parsed.elements)) return parsed.elements as XMLElement[];
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * User-facing explanation for a failed storage call
+ */
+export function describeStorageError(error: unknown): string {
+  const name = (error as { name?: string } | null)?.name;
+  if (name === 'QuotaExceededError') {
+    return 'Storage is full. Delete or export some templates, then try again.';
+  }
+  if (name === 'InvalidStateError' || name === 'SecurityError' || name === 'UnknownError') {
+    return 'Browser storage is unavailable (private mode or blocked by settings).';
+  }
+  const message = (error as { message?: string } | null)?.message;
+  return message ? `Storage error: ${message}` : 'Storage error';
+}
+
+const readLocalStorage = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Copy the localStorage data into a freshly created database.
+ * Runs inside the upgrade transaction, so it happens exactly once.
+ */
+function migrateLegacyData(transaction: IDBTransaction) {
+  const templates = transaction.objectStore(TEMPLATES_STORE);
+  parseLegacyTemplates(readLocalStorage(LEGACY_TEMPLATES_KEY)).forEach(tpl => templates.put(tpl));
+
+  const elements = parseLegacyElements(readLocalStorage(LEGACY_ELEMENTS_KEY));
+  if (elements) transaction.objectStore(WORKSPACE_STORE).put(elements, WORKSPACE_KEY);
+}
+
+/**
+ * Give every template that predates history a first version, so it can be restored later
+ */
+function seedFirstVersions(transaction: IDBTransaction) {
+  const versions = transaction.objectStore(VERSIONS_STORE);
+  const cursorRequest = transaction.objectStore(TEMPLATES_STORE).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    versions.put(createVersion(cursor.value as SavedTemplate));
+    cursor.continue();
+  };
+}
+
+const createVersion = (template: SavedTemplate, message?: string): TemplateVersion => ({
+  id: `ver-${template.updatedAt}-${Math.random().toString(36).slice(2, 8)}`,
+  templateId: template.id,
+  createdAt: template.updatedAt,
+  ...(message ? { message } : {}),
+  elements: template.elements,
+  ...(template.variables ? { variables: template.variables } : {})
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new DOMException('IndexedDB is not supported', 'InvalidStateError'));
+      return;
+    }
+
+    let migrated = false;
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+        db.createObjectStore(WORKSPACE_STORE);
+        migrateLegacyData(transaction);
+        migrated = true;
+      }
+      if (event.oldVersion < 2) {
+        const versions = db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' });
+        versions.createIndex(VERSIONS_BY_TEMPLATE, 'templateId');
+        seedFirstVersions(transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      if (migrated) {
+        // The copies are committed; drop the old keys so they stop eating quota
+        try {
+          localStorage.removeItem(LEGACY_TEMPLATES_KEY);
+          localStorage.removeItem(LEGACY_ELEMENTS_KEY);
+        } catch {
+          // ignore
+        }
+      }
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new DOMException('Database upgrade blocked by another tab', 'InvalidStateError'));
+  });
+
+  // Let a later call retry instead of caching the failure
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+/**
+ * Run one request in its own transaction and resolve once the transaction commits
+ * (quota errors surface at commit time, not on the request).
+ */
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? request.error);
+  });
+}
+
+/**
+ * All saved templates, most recently updated first
+ */
+export async function listTemplates(): Promise<SavedTemplate[]> {
+  const all = await run<SavedTemplate[]>(TEMPLATES_STORE, 'readonly', store => store.getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Run several writes in one transaction; resolves once they are all committed
+ */
+async function runWrites(storeNames: string[], write: (transaction: IDBTransaction) => void): Promise<void> {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeNames, 'readwrite');
+    write(transaction);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Insert or replace a template (matched by id) and record the save as a new version
+ */
+export async function putTemplate(template: SavedTemplate, message?: string): Promise<TemplateVersion> {
+  const version = createVersion(template, message?.trim());
+  await runWrites([TEMPLATES_STORE, VERSIONS_STORE], transaction => {
+    transaction.objectStore(TEMPLATES_STORE).put(template);
+    transaction.objectStore(VERSIONS_STORE).put(version);
+  });
+  return version;
+}
+
+/**
+ * Save several templates at once (e.g. a bundle import); all or nothing
+ */
+export async function putTemplates(templates: SavedTemplate[], message?: string): Promise<void> {
+  await runWrites([TEMPLATES_STORE, VERSIONS_STORE], transaction => {
+    templates.forEach(template => {
+      transaction.objectStore(TEMPLATES_STORE).put(template);
+      transaction.objectStore(VERSIONS_STORE).put(createVersion(template, message?.trim()));
+    });
+  });
+}
+
+/**
+ * Delete a template together with its history
+ */
+export async function removeTemplate(id: string): Promise<void> {
+  await runWrites([TEMPLATES_STORE, VERSIONS_STORE], transaction => {
+    transaction.objectStore(TEMPLATES_STORE).delete(id);
+    const versions = transaction.objectStore(VERSIONS_STORE).index(VERSIONS_BY_TEMPLATE);
+    const cursorRequest = versions.openKeyCursor(IDBKeyRange.only(id));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      transaction.objectStore(VERSIONS_STORE).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+  });
+}
+
+/**
+ * Every saved version of a template, newest first
+ */
+export async function listVersions(templateId: string): Promise<TemplateVersion[]> {
+  const versions = await run<TemplateVersion[]>(VERSIONS_STORE, 'readonly', store =>
+    store.index(VERSIONS_BY_TEMPLATE).getAll(IDBKeyRange.only(templateId))
+  );
+  return versions.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Make an old version the template's current content again.
+ * History is kept: the restore is appended as a version of its own.
+ */
+export async function restoreVersion(template: SavedTemplate, version: TemplateVersion): Promise<SavedTemplate> {
+  const restored: SavedTemplate = {
+    ...template,
+    elements: version.elements,
+    variables: version.variables,
+    updatedAt: Date.now()
+  };
+  await putTemplate(restored, `Restored version from ${new Date(version.createdAt).toLocaleString()}`);
+  return restored;
+}
+
+/**
+ * The tree that was being edited when the page was last open
+ */
+export async function loadWorkspace(): Promise<XMLElement[] | null> {
+  const elements = await run<XMLElement[] | undefined>(WORKSPACE_STORE, 'readonly', store => store.get(WORKSPACE_KEY));
+  return Array.isArray(elements) ? elements : null;
+}
+
+export async function saveWorkspace(elements: XMLElement[]): Promise<void> {
+  await run(WORKSPACE_STORE, 'readwrite', store => store.put(elements, WORKSPACE_KEY));
+}
@@ -0,0 +1,126 @@
+// Template Variables - {{placeholder}} detection and rendering
+// Saved templates keep the placeholders; only the preview/copy output is rendered
+
+import type { XMLElement } from '@/components/PromptBuilder';
+
+export interface TemplateVariable {
+  name: string;
+  defaultValue?: string;
+  description?: string;
+  required?: boolean;
+}
+
+export type VariableValues = Record<string, string>;
+
+// {{name}} with optional inner whitespace; names are word chars, dots and dashes
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+/**
+ * Find every distinct variable name in a piece of text, in order of first use
+ */
+export function findVariablesInText(text: string): string[] {
+  const names: string[] = [];
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+}
+
+/**
+ * Collect variable names across all element contents and attribute values
+ * (hidden elements included, so toggling visibility does not drop definitions)
+ */
+export function extractVariables(elements: XMLElement[]): string[] {
+  const names: string[] = [];
+  const add = (text: string) => {
+    findVariablesInText(text).forEach(name => {
+      if (!names.includes(name)) names.push(name);
+    });
+  };
+
+  const walk = (items: XMLElement[]) => {
+    items.forEach(item => {
+      add(item.content);
+      item.attributes?.forEach(attr => add(attr.value));
+      walk(item.children);
+    });
+  };
+
+  walk(elements);
+  return names;
+}
+
+/**
+ * Merge detected names with stored definitions.
+ * Definitions for names no longer present are dropped; new names get a blank definition.
+ */
+export function syncVariableDefinitions(
+  names: string[],
+  definitions: TemplateVariable[]
+): TemplateVariable[] {
+  return names.map(name => definitions.find(def => def.name === name) ?? { name });
+}
+
+/**
+ * Resolve the value a variable renders to: explicit value, then default.
+ * Returns undefined when neither is set so the placeholder is left in place.
+ */
+export function resolveVariable(
+  name: string,
+  values: VariableValues,
+  definitions: TemplateVariable[]
+): string | undefined {
+  const value = values[name];
+  if (value !== undefined && value !== '') return value;
+  const def = definitions.find(d => d.name === name);
+  if (def?.defaultValue !== undefined && def.defaultValue !== '') return def.defaultValue;
+  return undefined;
+}
+
+/**
+ * Substitute variables in a string
+ */
+export function renderText(
+  text: string,
+  values: VariableValues,
+  definitions: TemplateVariable[]
+): string {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    resolveVariable(name, values, definitions) ?? placeholder
+  );
+}
+
+/**
+ * Return a copy of the tree with every content and attribute value rendered
+ */
+export function renderElements(
+  elements: XMLElement[],
+  values: VariableValues,
+  definitions: TemplateVariable[]
+): XMLElement[] {
+  return elements.map(element => ({
+    ...element,
+    content: renderText(element.content, values, definitions),
+    ...(element.attributes
+      ? {
+          attributes: element.attributes.map(attr => ({
+            ...attr,
+            value: renderText(attr.value, values, definitions)
+          }))
+        }
+      : {}),
+    children: renderElements(element.children, values, definitions)
+  }));
+}
+
+/**
+ * Names of required variables that would still render as placeholders
+ */
+export function getMissingRequired(
+  values: VariableValues,
+  definitions: TemplateVariable[]
+): string[] {
+  return definitions
+    .filter(def => def.required && resolveVariable(def.name, values, definitions) === undefined)
+    .map(def => def.name);
+}
@@ -0,0 +1,81 @@
+// Token Breakdown - which parts of the prompt the tokens go to
+// Each element is measured as its own serialized subtree (descendants included)
+
+import type { XMLElement } from '@/components/PromptBuilder';
+import { serializeXML, type SerializeOptions } from '@/lib/serialize-xml';
+
+export interface SubtreeText {
+  id: string;
+  text: string;
+}
+
+/**
+ * Every element's subtree text, in tree order, collected in one serialization
+ * pass: a parent's text is built from its children's, never re-serialized.
+ * Texts are indented as they appear in the prompt. Hidden elements are measured
+ * as if shown so their size is still visible in the tree; what they contain is
+ * skipped when the output drops it.
+ */
+export function collectSubtreeTexts(
+  elements: XMLElement[],
+  options: Partial<SerializeOptions> = {}
+): SubtreeText[] {
+  const texts = new Map<string, string>();
+  serializeXML(elements, options, (element, xml) => texts.set(element.id, xml));
+
+  const result: SubtreeText[] = [];
+  const walk = (items: XMLElement[]) => {
+    items.forEach(item => {
+      const text = texts.get(item.id);
+      if (text !== undefined) {
+        result.push({ id: item.id, text });
+        walk(item.children);
+        return;
+      }
+      // An omitted hidden element: measured on its own, while what it contains is skipped
+      result.push({ id: item.id, text: serializeXML([{ ...item, isVisible: true }], options) });
+    });
+  };
+
+  walk(elements);
+  return result;
+}
+
+/**
+ * Pick the elements to flag when the prompt is over budget:
+ *  • the largest top-level sections that together account for the overflow
+ *  • any element whose subtree alone exceeds the whole budget
+ * Hidden subtrees are never flagged.
+ */
+export function findOverBudgetIds(
+  elements: XMLElement[],
+  counts: Record<string, number>,
+  total: number,
+  budget: number
+): Set<string> {
+  const flagged = new Set<string>();
+  if (budget <= 0 || total <= budget) return flagged;
+
+  let overflow = total - budget;
+  const sections = elements
+    .filter(el => el.isVisible !== false)
+    .map(el => ({ id: el.id, count: counts[el.id] ?? 0 }))
+    .sort((a, b) => b.count - a.count);
+
+  for (const section of sections) {
+    if (overflow <= 0) break;
+    flagged.add(section.id);
+    overflow -= section.count;
+  }
+
+  const walk = (items: XMLElement[]) => {
+    items.forEach(item => {
+      if (item.isVisible === false) return;
+      if ((counts[item.id] ?? 0) > budget) flagged.add(item.id);
+      walk(item.children);
+    });
+  };
+  walk(elements);
+
+  return flagged;
+}
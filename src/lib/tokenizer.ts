@@ -0,0 +1,103 @@
+// Tokenizer - token counts with OpenAI's BPE encodings, loaded lazily inside a web worker
+// Other vendors' models (Claude, Gemini, Llama…) tokenize differently, so for them a count is an estimate
+
+import { estimateTokenCount } from '@/lib/utils';
+
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base' | 'p50k_base' | 'r50k_base';
+
+export interface TokenizerModel {
+  id: string;
+  label: string;
+  encoding: TokenizerEncoding | null; // null = character heuristic only
+}
+
+export const TOKENIZER_MODELS: TokenizerModel[] = [
+  { id: 'gpt-4o', label: 'GPT-4o / o-series', encoding: 'o200k_base' },
+  { id: 'gpt-4', label: 'GPT-4 / GPT-3.5', encoding: 'cl100k_base' },
+  { id: 'codex', label: 'Codex / text-davinci', encoding: 'p50k_base' },
+  { id: 'gpt-3', label: 'GPT-3', encoding: 'r50k_base' },
+  { id: 'estimate', label: 'Other models (~4 chars/token)', encoding: null },
+];
+
+export const DEFAULT_TOKENIZER_MODEL = 'gpt-4o';
+
+/** Tooltip for the model pickers: the encodings are OpenAI's only */
+export const TOKENIZER_PICKER_TITLE = 'Tokenizer: exact for OpenAI models, an estimate for any other model';
+
+// Worker message protocol
+export interface TokenizerRequest {
+  id: number;
+  encoding: TokenizerEncoding;
+  texts: string[];
+}
+
+export type TokenizerResponse =
+  | { id: number; counts: number[]; error?: undefined }
+  | { id: number; error: string; counts?: undefined };
+
+export function getTokenizerModel(modelId: string): TokenizerModel {
+  return TOKENIZER_MODELS.find(model => model.id === modelId)
+    ?? TOKENIZER_MODELS.find(model => model.id === DEFAULT_TOKENIZER_MODEL)!;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (counts: number[]) => void; reject: (error: Error) => void }>();
+const loadedEncodings = new Set<TokenizerEncoding>();
+
+const getWorker = (): Worker | null => {
+  if (worker) return worker;
+  if (typeof Worker === 'undefined') return null;
+
+  worker = new Worker(new URL('../workers/tokenizer.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<TokenizerResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    if (event.data.error !== undefined) {
+      request.reject(new Error(event.data.error));
+    } else {
+      request.resolve(event.data.counts);
+    }
+  };
+  worker.onerror = () => {
+    // A dead worker fails every in-flight request; the next call starts a fresh one
+    pending.forEach(request => request.reject(new Error('Tokenizer worker failed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+/**
+ * Whether the vocabulary for an encoding has finished loading in the worker
+ */
+export function isEncodingLoaded(encoding: TokenizerEncoding): boolean {
+  return loadedEncodings.has(encoding);
+}
+
+/**
+ * Count tokens for several texts with one model.
+ * Falls back to the character heuristic when the model has no vocabulary
+ * or workers are unavailable.
+ */
+export function countTokensBatch(texts: string[], modelId: string): Promise<number[]> {
+  const { encoding } = getTokenizerModel(modelId);
+  const tokenizerWorker = encoding ? getWorker() : null;
+  if (!encoding || !tokenizerWorker) {
+    return Promise.resolve(texts.map(estimateTokenCount));
+  }
+
+  const id = nextRequestId++;
+  return new Promise<number[]>((resolve, reject) => {
+    pending.set(id, {
+      resolve: counts => {
+        loadedEncodings.add(encoding);
+        resolve(counts);
+      },
+      reject
+    });
+    tokenizerWorker.postMessage({ id, encoding, texts } satisfies TokenizerRequest);
+  });
+}
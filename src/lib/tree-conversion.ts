@@ -1,13 +1,16 @@
 // Tree Conversion Utilities - Pure, Elegant, Satisfying
 // Convert between nested XML tree and flat array structures
 
-import type { XMLElement } from '@/components/PromptBuilder';
+import type { ContentEscaping, XMLAttribute, XMLElement, XMLNodeKind } from '@/components/PromptBuilder';
 
 // Enhanced flat structure with all the metadata we need
 export interface FlatXMLElement {
   id: string;
+  kind?: XMLNodeKind;
   tagName: string;
   content: string;
+  attributes?: XMLAttribute[];
+  escaping?: ContentEscaping;
   depth: number;
   parentId: string | null;
   ancestorIds: string[];
@@ -17,6 +20,13 @@ export interface FlatXMLElement {
   hasChildren?: boolean; // Whether this element currently has children
 }
 
+/**
+ * True for mixed-content text runs, which can't hold children or attributes
+ */
+export function isTextNode(node: { kind?: XMLNodeKind }): boolean {
+  return node.kind === 'text';
+}
+
 /**
  * Convert nested tree structure to flat array
  * Each element remembers its place in the hierarchy
@@ -34,8 +44,11 @@ export function treeToFlat(elements: XMLElement[]): FlatXMLElement[] {
       // Create flat representation of this element
       const flatElement: FlatXMLElement = {
         id: item.id,
+        kind: item.kind,
         tagName: item.tagName,
         content: item.content,
+        attributes: item.attributes,
+        escaping: item.escaping,
         depth,
         parentId,
         ancestorIds: [...ancestorIds], // Copy array for immutability
@@ -92,8 +105,11 @@ export function flatToTree(flatElements: FlatXMLElement[]): XMLElement[] {
     
     return children.map(flatElement => ({
       id: flatElement.id,
+      kind: flatElement.kind,
       tagName: flatElement.tagName,
       content: flatElement.content,
+      attributes: flatElement.attributes,
+      escaping: flatElement.escaping,
       collapsed: flatElement.collapsed,
       isVisible: flatElement.isVisible,
       children: buildSubtree(flatElement.id) // Recursively build children
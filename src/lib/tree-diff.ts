@@ -0,0 +1,135 @@
+// Tree Diff - structural changes between two versions of an element tree
+// Elements are matched by id, which survives saving, loading and editing
+
+import type { XMLElement } from '@/components/PromptBuilder';
+import { treeToFlat, type FlatXMLElement } from '@/lib/tree-conversion';
+
+export type TreeChangeKind = 'added' | 'removed' | 'moved' | 'changed';
+
+export interface TreeChange {
+  kind: TreeChangeKind;
+  id: string;
+  /** Readable location, e.g. "prompt › rules › rule" (from the newer tree when possible) */
+  path: string;
+  /** For 'changed': which parts differ */
+  fields?: Array<'tagName' | 'content' | 'attributes'>;
+  before?: string;
+  after?: string;
+}
+
+const labelOf = (element: FlatXMLElement): string =>
+  element.kind === 'text' ? '#text' : element.tagName || '(unnamed)';
+
+const pathOf = (element: FlatXMLElement, byId: Map<string, FlatXMLElement>): string =>
+  [...element.ancestorIds.map(id => byId.get(id)), element]
+    .filter((el): el is FlatXMLElement => Boolean(el))
+    .map(labelOf)
+    .join(' › ');
+
+/**
+ * Indexes of the longest strictly increasing subsequence.
+ * Siblings on it kept their relative order; everything else was moved.
+ */
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, i) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) previous[i] = tails[lo - 1];
+    tails[lo] = i;
+  });
+
+  const result = new Set<number>();
+  let k = tails.length ? tails[tails.length - 1] : -1;
+  while (k !== -1) {
+    result.add(k);
+    k = previous[k];
+  }
+  return result;
+}
+
+const sameAttributes = (a: FlatXMLElement, b: FlatXMLElement) =>
+  JSON.stringify(a.attributes ?? []) === JSON.stringify(b.attributes ?? []);
+
+/**
+ * List what changed from `before` to `after`, in tree order of the newer version
+ * (removed elements follow, in their old order). Added and removed subtrees are
+ * reported once, at their root.
+ */
+export function diffTrees(before: XMLElement[], after: XMLElement[]): TreeChange[] {
+  const oldFlat = treeToFlat(before);
+  const newFlat = treeToFlat(after);
+  const oldById = new Map(oldFlat.map(el => [el.id, el]));
+  const newById = new Map(newFlat.map(el => [el.id, el]));
+  const changes: TreeChange[] = [];
+
+  // Elements that changed parent are moved; among those that stayed, only order breaks count
+  const stayedInOrder = new Set<string>();
+  const siblingsByParent = new Map<string | null, FlatXMLElement[]>();
+  newFlat.forEach(el => {
+    const old = oldById.get(el.id);
+    if (!old || old.parentId !== el.parentId) return;
+    const siblings = siblingsByParent.get(el.parentId) ?? [];
+    siblings.push(el);
+    siblingsByParent.set(el.parentId, siblings);
+  });
+  siblingsByParent.forEach(siblings => {
+    const oldOrders = siblings.map(el => oldById.get(el.id)!.order);
+    const kept = longestIncreasingSubsequence(oldOrders);
+    siblings.forEach((el, i) => {
+      if (kept.has(i)) stayedInOrder.add(el.id);
+    });
+  });
+
+  newFlat.forEach(el => {
+    const old = oldById.get(el.id);
+    const path = pathOf(el, newById);
+
+    if (!old) {
+      // A new subtree is reported once, at its root
+      if (el.parentId !== null && !oldById.has(el.parentId)) return;
+      changes.push({ kind: 'added', id: el.id, path, after: el.content || undefined });
+      return;
+    }
+
+    if (!stayedInOrder.has(el.id)) {
+      changes.push({
+        kind: 'moved',
+        id: el.id,
+        path,
+        before: pathOf(old, oldById),
+        after: path
+      });
+    }
+
+    const fields: TreeChange['fields'] = [];
+    if (old.tagName !== el.tagName) fields.push('tagName');
+    if (old.content !== el.content) fields.push('content');
+    if (!sameAttributes(old, el)) fields.push('attributes');
+    if (fields.length) {
+      changes.push({
+        kind: 'changed',
+        id: el.id,
+        path,
+        fields,
+        before: fields.includes('content') ? old.content : undefined,
+        after: fields.includes('content') ? el.content : undefined
+      });
+    }
+  });
+
+  oldFlat.forEach(old => {
+    if (newById.has(old.id)) return;
+    if (old.parentId !== null && !newById.has(old.parentId)) return;
+    changes.push({ kind: 'removed', id: old.id, path: pathOf(old, oldById), before: old.content || undefined });
+  });
+
+  return changes;
+}
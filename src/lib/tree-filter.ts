@@ -0,0 +1,58 @@
+// Tree Filter - narrow the tree to matching elements and the ancestors that lead to them
+// Works on the flat list and never touches collapse state, so clearing the filter restores the tree as it was
+
+import { treeToFlat, type FlatXMLElement } from './tree-conversion';
+import type { XMLElement } from '@/components/PromptBuilder';
+
+export interface TreeFilterResult {
+  query: string;
+  /** Elements whose tag name or content matches */
+  matchIds: Set<string>;
+  /** Matches plus their ancestors, the rows to show */
+  visibleIds: Set<string>;
+  /** Matching descendants per shown element */
+  descendantMatches: Map<string, number>;
+  /** Elements searched, for "n of m" */
+  total: number;
+}
+
+/**
+ * Case-insensitive substring match on the tag name and content; text nodes match on content only
+ */
+export function elementMatchesFilter(element: Pick<FlatXMLElement, 'kind' | 'tagName' | 'content'>, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  if (element.kind !== 'text' && element.tagName.toLowerCase().includes(needle)) return true;
+  return element.content.toLowerCase().includes(needle);
+}
+
+/**
+ * Filter the tree; null for a blank query (no filter)
+ */
+export function filterTree(elements: XMLElement[], query: string): TreeFilterResult | null {
+  if (!query.trim()) return null;
+
+  const flat = treeToFlat(elements);
+  const matchIds = new Set<string>();
+  const visibleIds = new Set<string>();
+  const descendantMatches = new Map<string, number>();
+
+  flat.forEach(element => {
+    if (!elementMatchesFilter(element, query)) return;
+    matchIds.add(element.id);
+    visibleIds.add(element.id);
+    element.ancestorIds.forEach(ancestorId => {
+      visibleIds.add(ancestorId);
+      descendantMatches.set(ancestorId, (descendantMatches.get(ancestorId) ?? 0) + 1);
+    });
+  });
+
+  return { query, matchIds, visibleIds, descendantMatches, total: flat.length };
+}
+
+/**
+ * The rows to render: every element the filter keeps, collapsed ancestors notwithstanding
+ */
+export function applyTreeFilter(flatElements: FlatXMLElement[], filter: TreeFilterResult): FlatXMLElement[] {
+  return flatElements.filter(element => filter.visibleIds.has(element.id));
+}
@@ -0,0 +1,175 @@
+// Tree Merge - fold a freshly parsed tree back into the existing one
+// Unchanged elements keep their ids and UI state (collapsed, hidden, escaping)
+
+import type { XMLAttribute, XMLElement } from '@/components/PromptBuilder';
+
+const sameAttributes = (a: XMLAttribute[] = [], b: XMLAttribute[] = []): boolean =>
+  a.length === b.length && a.every((attr, i) => attr.name === b[i].name && attr.value === b[i].value);
+
+/**
+ * Pick the previous sibling that a parsed element most likely corresponds to.
+ * Preference: identical tag/attributes/content, then same tag at the same index,
+ * then the first unused sibling with the same tag.
+ */
+function findMatch(
+  parsed: XMLElement,
+  index: number,
+  previous: XMLElement[],
+  used: Set<string>
+): XMLElement | undefined {
+  const candidates = previous.filter(
+    prev => !used.has(prev.id) && prev.kind === parsed.kind && prev.tagName === parsed.tagName
+  );
+  if (candidates.length === 0) return undefined;
+
+  return (
+    candidates.find(prev => prev.content === parsed.content && sameAttributes(prev.attributes, parsed.attributes)) ??
+    candidates.find(prev => previous.indexOf(prev) === index) ??
+    candidates[0]
+  );
+}
+
+/**
+ * Merge a parsed sibling list into the previous one, recursively.
+ * Matched elements take structure and text from the parse and keep everything else.
+ */
+export function mergeParsedTree(previous: XMLElement[], parsed: XMLElement[]): XMLElement[] {
+  const used = new Set<string>();
+
+  return parsed.map((node, index) => {
+    const match = findMatch(node, index, previous, used);
+    if (!match) return node;
+    used.add(match.id);
+
+    // The parser infers escaping from the source; an unchanged text keeps the original choice
+    const escaping = node.content === match.content ? match.escaping : node.escaping ?? match.escaping;
+
+    const children = mergeParsedTree(match.children, node.children);
+    const unchanged =
+      node.content === match.content &&
+      sameAttributes(node.attributes, match.attributes) &&
+      children.length === match.children.length &&
+      children.every((child, i) => child === match.children[i]);
+    // Structural sharing: an untouched subtree is returned as-is
+    if (unchanged) return match;
+
+    const merged: XMLElement = {
+      ...match,
+      tagName: node.tagName,
+      content: node.content,
+      children
+    };
+    if (node.attributes?.length) merged.attributes = node.attributes;
+    else delete merged.attributes;
+    if (escaping) merged.escaping = escaping;
+    else delete merged.escaping;
+    return merged;
+  });
+}
+
+// Same parse result, ids and UI state aside
+const sameParse = (a: XMLElement, b: XMLElement): boolean =>
+  a.kind === b.kind &&
+  a.tagName === b.tagName &&
+  a.content === b.content &&
+  a.escaping === b.escaping &&
+  sameAttributes(a.attributes, b.attributes) &&
+  a.children.length === b.children.length &&
+  a.children.every((child, i) => sameParse(child, b.children[i]));
+
+/** An original node, or the element's own content showing up as a leading text node */
+type Slot = { node: XMLElement | 'content'; parsed: XMLElement };
+
+const sameShape = (node: XMLElement, parsed: XMLElement) =>
+  node.kind === parsed.kind && node.tagName === parsed.tagName;
+
+/**
+ * Pair original nodes with the parse of their own source, one to one; null when
+ * the parse reshaped the list (e.g. inline markup in content became children)
+ */
+function alignSlots(nodes: Array<XMLElement | 'content'>, parsed: XMLElement[]): Slot[] | null {
+  if (nodes.length !== parsed.length) return null;
+  const aligned = nodes.every((node, i) =>
+    node === 'content' ? parsed[i].kind === 'text' : sameShape(node, parsed[i])
+  );
+  return aligned ? nodes.map((node, i) => ({ node, parsed: parsed[i] })) : null;
+}
+
+// An element's children as its source parses: content beside children comes back as a text node first
+const childSlots = (element: XMLElement): Array<XMLElement | 'content'> =>
+  element.content.trim() && element.children.length > 0 ? ['content', ...element.children] : element.children;
+
+/**
+ * Merge one level of an edit. Parsed nodes equal to the parse of an original
+ * node keep that node untouched; changed ones are merged into their counterpart.
+ */
+function mergeSlots(slots: Slot[], edited: XMLElement[]): { content: string | null; children: XMLElement[] } {
+  const used = new Set<Slot>();
+  const claim = (find: (slot: Slot) => boolean) => {
+    const slot = slots.find(candidate => !used.has(candidate) && find(candidate));
+    if (slot) used.add(slot);
+    return slot;
+  };
+  // The element's own content can only come back as the first node
+  const fits = (slot: Slot, node: XMLElement, index: number) =>
+    slot.node === 'content' ? index === 0 && node.kind === 'text' : sameShape(slot.node, node);
+
+  // Untouched nodes first, so an edit elsewhere can't claim their counterpart
+  const unchanged = edited.map((node, index) => claim(slot => fits(slot, node, index) && sameParse(slot.parsed, node)));
+  const paired = edited.map((node, index) => unchanged[index] ?? claim(slot => fits(slot, node, index)));
+
+  // null keeps the element's content exactly as it was
+  let content: string | null = null;
+  const children: XMLElement[] = [];
+  edited.forEach((node, index) => {
+    const slot = paired[index];
+    if (!slot) children.push(node);
+    else if (slot.node === 'content') content = slot === unchanged[index] ? null : node.content;
+    else children.push(slot === unchanged[index] ? slot.node : mergeEditedNode(slot.node, slot.parsed, node));
+  });
+
+  const contentSlot = slots.find(slot => slot.node === 'content');
+  if (contentSlot && !used.has(contentSlot)) content = '';
+  return { content, children };
+}
+
+function mergeEditedNode(original: XMLElement, before: XMLElement, after: XMLElement): XMLElement {
+  const slots = original.children.length > 0 && after.children.length > 0
+    ? alignSlots(childSlots(original), before.children)
+    : null;
+  // The element itself was edited and its source doesn't map onto its children one to one
+  if (!slots) return mergeParsedTree([original], [after])[0];
+
+  const { content, children } = mergeSlots(slots, after.children);
+  const merged: XMLElement = { ...original, tagName: after.tagName, children };
+  if (content !== null) merged.content = content;
+  if (!sameAttributes(before.attributes, after.attributes)) {
+    if (after.attributes?.length) merged.attributes = after.attributes;
+    else delete merged.attributes;
+  }
+  return merged;
+}
+
+/**
+ * Merge an edit of the tree's source. `before` is the parse of the source as it
+ * was written from `previous`, `after` the parse of the edited text. Subtrees
+ * whose parse didn't change keep the original nodes exactly, even where parsing
+ * their source would reshape them (inline markup, trimmed text); falls back to
+ * mergeParsedTree when the source no longer lines up with the tree.
+ */
+export function mergeEditedTree(previous: XMLElement[], before: XMLElement[], after: XMLElement[]): XMLElement[] {
+  const slots = alignSlots(previous, before);
+  if (!slots) return mergeParsedTree(previous, after);
+  return mergeSlots(slots, after).children;
+}
+
+/**
+ * Copy of the tree with every element shown, so hidden ones can be edited as source
+ */
+export function showAllElements(elements: XMLElement[]): XMLElement[] {
+  return elements.map(element => ({
+    ...element,
+    isVisible: true,
+    children: showAllElements(element.children)
+  }));
+}
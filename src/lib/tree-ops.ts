@@ -0,0 +1,357 @@
+// Tree Operations - immutable helpers for whole-tree edits
+// Each returns a new tree (untouched branches are shared) so results can go straight into history
+
+import type { XMLElement } from '@/components/PromptBuilder';
+import { generateUUID } from '@/lib/utils';
+
+export interface ElementMatch {
+  element: XMLElement;
+  /** Tag names from the top level down to the element's parent */
+  path: string[];
+}
+
+/**
+ * Deep copy of a subtree with new ids throughout
+ */
+export function cloneWithFreshIds(element: XMLElement): XMLElement {
+  return {
+    ...element,
+    id: `element-${generateUUID()}`,
+    attributes: element.attributes?.map(attr => ({ ...attr })),
+    children: element.children.map(cloneWithFreshIds)
+  };
+}
+
+/**
+ * Bump a trailing number, keeping zero padding: example-1 → example-2, v09 → v10.
+ * Null when the value doesn't end in digits.
+ */
+export function incrementNumericSuffix(value: string): string | null {
+  const match = /^(.*?)(\d+)$/.exec(value);
+  if (!match) return null;
+  const [, stem, digits] = match;
+  return stem + String(Number(digits) + 1).padStart(digits.length, '0');
+}
+
+/**
+ * Keep bumping until the value is free among `taken`; unchanged if there is no number to bump
+ */
+const nextFreeSuffix = (value: string, taken: Set<string>): string => {
+  let next = incrementNumericSuffix(value);
+  if (next === null) return value;
+  while (taken.has(next)) next = incrementNumericSuffix(next)!;
+  return next;
+};
+
+/**
+ * Numbering applied to the copy made by duplicateElement (its root only)
+ */
+export interface DuplicateOptions {
+  /** Bump a trailing number in the tag name: example-1 → example-2 */
+  incrementTag?: boolean;
+  /** Bump a trailing number in this attribute's value */
+  incrementAttribute?: string;
+}
+
+/**
+ * Insert a copy of `id`'s subtree right after it, among the same siblings.
+ * Numbers bumped by `options` skip values its siblings already use.
+ */
+export function duplicateElement(
+  elements: XMLElement[],
+  id: string,
+  options: DuplicateOptions = {}
+): { elements: XMLElement[]; copy: XMLElement } | null {
+  let copy: XMLElement | null = null;
+
+  const walk = (items: XMLElement[]): XMLElement[] => {
+    const index = items.findIndex(item => item.id === id);
+    if (index !== -1) {
+      const clone = cloneWithFreshIds(items[index]);
+      if (options.incrementTag && clone.kind !== 'text') {
+        clone.tagName = nextFreeSuffix(clone.tagName, new Set(items.map(item => item.tagName)));
+      }
+      const attribute = options.incrementAttribute;
+      if (attribute && clone.attributes?.some(attr => attr.name === attribute)) {
+        const taken = new Set(
+          items.flatMap(item => item.attributes?.filter(attr => attr.name === attribute).map(attr => attr.value) ?? [])
+        );
+        clone.attributes = clone.attributes.map(attr =>
+          attr.name === attribute ? { ...attr, value: nextFreeSuffix(attr.value, taken) } : attr
+        );
+      }
+      copy = clone;
+      return [...items.slice(0, index + 1), copy, ...items.slice(index + 1)];
+    }
+    let changed = false;
+    const next = items.map(item => {
+      if (copy || item.children.length === 0) return item;
+      const children = walk(item.children);
+      if (children === item.children) return item;
+      changed = true;
+      return { ...item, children };
+    });
+    return changed ? next : items;
+  };
+
+  const next = walk(elements);
+  return copy ? { elements: next, copy } : null;
+}
+
+/**
+ * Collapse or expand every element that has children
+ */
+export function setAllCollapsed(elements: XMLElement[], collapsed: boolean): XMLElement[] {
+  return elements.map(element =>
+    element.children.length > 0
+      ? { ...element, collapsed, children: setAllCollapsed(element.children, collapsed) }
+      : element
+  );
+}
+
+/**
+ * Ids of the ancestors of `id`, outermost first; null if it isn't in the tree
+ */
+export function findAncestorIds(elements: XMLElement[], id: string): string[] | null {
+  for (const element of elements) {
+    if (element.id === id) return [];
+    const below = findAncestorIds(element.children, id);
+    if (below) return [element.id, ...below];
+  }
+  return null;
+}
+
+/**
+ * Expand the ancestors of `id` so it is visible in the tree; the same tree if nothing was collapsed
+ */
+export function expandAncestors(elements: XMLElement[], id: string): XMLElement[] {
+  const ancestors = new Set(findAncestorIds(elements, id) ?? []);
+  if (ancestors.size === 0) return elements;
+
+  const walk = (items: XMLElement[]): XMLElement[] => {
+    let changed = false;
+    const next = items.map(item => {
+      if (!ancestors.has(item.id)) return item;
+      const children = walk(item.children);
+      if (!item.collapsed && children === item.children) return item;
+      changed = true;
+      return { ...item, collapsed: false, children };
+    });
+    return changed ? next : items;
+  };
+
+  return walk(elements);
+}
+
+/**
+ * Every element (text nodes included) with its ancestor path, in document order
+ */
+export function listElements(elements: XMLElement[], path: string[] = []): ElementMatch[] {
+  return elements.flatMap(element => [
+    { element, path },
+    ...listElements(element.children, [...path, element.tagName])
+  ]);
+}
+
+/**
+ * Make `id` the last child of its previous sibling (Tab in the tree).
+ * Null when there is no previous sibling or it is a text node; the new parent is expanded.
+ */
+export function indentElement(elements: XMLElement[], id: string): XMLElement[] | null {
+  let moved = false;
+
+  const walk = (items: XMLElement[]): XMLElement[] => {
+    const index = items.findIndex(item => item.id === id);
+    if (index !== -1) {
+      const parent = items[index - 1];
+      if (!parent || parent.kind === 'text') return items;
+      moved = true;
+      const adopted = { ...parent, collapsed: false, children: [...parent.children, items[index]] };
+      return [...items.slice(0, index - 1), adopted, ...items.slice(index + 1)];
+    }
+    let changed = false;
+    const next = items.map(item => {
+      if (changed || item.children.length === 0) return item;
+      const children = walk(item.children);
+      if (children === item.children) return item;
+      changed = true;
+      return { ...item, children };
+    });
+    return changed ? next : items;
+  };
+
+  const next = walk(elements);
+  return moved ? next : null;
+}
+
+/**
+ * Move `id` out of its parent to sit right after it (Shift+Tab in the tree).
+ * Null for top-level elements.
+ */
+export function outdentElement(elements: XMLElement[], id: string): XMLElement[] | null {
+  let moved = false;
+
+  const walk = (items: XMLElement[]): XMLElement[] => {
+    let changed = false;
+    const next = items.flatMap(item => {
+      if (changed) return [item];
+      const index = item.children.findIndex(child => child.id === id);
+      if (index !== -1) {
+        moved = changed = true;
+        const remaining = [...item.children.slice(0, index), ...item.children.slice(index + 1)];
+        return [{ ...item, children: remaining }, item.children[index]];
+      }
+      if (item.children.length === 0) return [item];
+      const children = walk(item.children);
+      if (children === item.children) return [item];
+      changed = true;
+      return [{ ...item, children }];
+    });
+    return changed ? next : items;
+  };
+
+  const next = walk(elements);
+  return moved ? next : null;
+}
+
+/**
+ * The selected elements that aren't inside another selected element, in document order.
+ * Bulk operations act on these; their descendants come along.
+ */
+export function selectionRoots(elements: XMLElement[], ids: Iterable<string>): XMLElement[] {
+  const selected = new Set(ids);
+  const roots: XMLElement[] = [];
+  const walk = (items: XMLElement[]) => {
+    items.forEach(item => {
+      if (selected.has(item.id)) roots.push(item);
+      else walk(item.children);
+    });
+  };
+  walk(elements);
+  return roots;
+}
+
+/**
+ * Remove every element in `ids` together with its descendants
+ */
+export function removeElements(elements: XMLElement[], ids: Iterable<string>): XMLElement[] {
+  const selected = new Set(ids);
+  const walk = (items: XMLElement[]): XMLElement[] => {
+    let changed = false;
+    const next: XMLElement[] = [];
+    items.forEach(item => {
+      if (selected.has(item.id)) {
+        changed = true;
+        return;
+      }
+      const children = item.children.length > 0 ? walk(item.children) : item.children;
+      if (children !== item.children) changed = true;
+      next.push(children === item.children ? item : { ...item, children });
+    });
+    return changed ? next : items;
+  };
+  return walk(elements);
+}
+
+/**
+ * Apply `update` to every element in `ids`; children are kept from the original
+ */
+export function updateElements(
+  elements: XMLElement[],
+  ids: Iterable<string>,
+  update: (element: XMLElement) => XMLElement
+): XMLElement[] {
+  const selected = new Set(ids);
+  const walk = (items: XMLElement[]): XMLElement[] => {
+    let changed = false;
+    const next = items.map(item => {
+      const children = item.children.length > 0 ? walk(item.children) : item.children;
+      if (!selected.has(item.id) && children === item.children) return item;
+      changed = true;
+      const base = children === item.children ? item : { ...item, children };
+      return selected.has(item.id) ? { ...update(base), children } : base;
+    });
+    return changed ? next : items;
+  };
+  return walk(elements);
+}
+
+/**
+ * Move the selected elements into `wrapper`, which takes the place of the first of them.
+ * Relative order is kept even when they came from different parents.
+ */
+export function wrapElements(
+  elements: XMLElement[],
+  ids: Iterable<string>,
+  wrapper: Omit<XMLElement, 'children'>
+): { elements: XMLElement[]; wrapper: XMLElement } | null {
+  const roots = selectionRoots(elements, ids);
+  if (roots.length === 0) return null;
+
+  const wrapped: XMLElement = { ...wrapper, collapsed: false, children: roots };
+  const moving = new Set(roots.map(root => root.id));
+  const first = roots[0].id;
+
+  const walk = (items: XMLElement[]): XMLElement[] => {
+    let changed = false;
+    const next: XMLElement[] = [];
+    items.forEach(item => {
+      if (item.id === first) {
+        changed = true;
+        next.push(wrapped);
+        return;
+      }
+      if (moving.has(item.id)) {
+        changed = true;
+        return;
+      }
+      const children = item.children.length > 0 ? walk(item.children) : item.children;
+      if (children !== item.children) changed = true;
+      next.push(children === item.children ? item : { ...item, children });
+    });
+    return changed ? next : items;
+  };
+
+  return { elements: walk(elements), wrapper: wrapped };
+}
+
+/**
+ * Insert `inserted` after `anchorId` or as its last children; at the end of the
+ * top level when there is no anchor. Throws for children of a text node.
+ */
+export function insertElements(
+  elements: XMLElement[],
+  anchorId: string | null,
+  position: 'after' | 'child',
+  inserted: XMLElement[]
+): XMLElement[] {
+  let placed = false;
+
+  const walk = (items: XMLElement[]): XMLElement[] => {
+    const index = items.findIndex(item => item.id === anchorId);
+    if (index !== -1) {
+      placed = true;
+      const anchor = items[index];
+      if (position === 'after') {
+        return [...items.slice(0, index + 1), ...inserted, ...items.slice(index + 1)];
+      }
+      if (anchor.kind === 'text') {
+        throw new Error("Text can't contain elements. Paste next to it instead.");
+      }
+      const parent = { ...anchor, collapsed: false, children: [...anchor.children, ...inserted] };
+      return [...items.slice(0, index), parent, ...items.slice(index + 1)];
+    }
+    let changed = false;
+    const next = items.map(item => {
+      if (placed || item.children.length === 0) return item;
+      const children = walk(item.children);
+      if (children === item.children) return item;
+      changed = true;
+      return { ...item, children };
+    });
+    return changed ? next : items;
+  };
+
+  const next = anchorId ? walk(elements) : elements;
+  return placed ? next : [...elements, ...inserted];
+}
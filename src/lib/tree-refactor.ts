@@ -0,0 +1,208 @@
+// Tree Refactorings - structural rewrites for restructuring imported prompts
+// Built on the flat form from tree-conversion; each returns a new tree (or null when it doesn't apply) for one undo step
+
+import type { XMLElement } from '@/components/PromptBuilder';
+import {
+  flatToTree,
+  getDirectChildren,
+  isTextNode,
+  treeToFlat,
+  type FlatXMLElement
+} from './tree-conversion';
+import { looseParseXML } from './loose-xml';
+import { generateUUID } from '@/lib/utils';
+
+export type SplitMode = 'paragraphs' | 'headings';
+
+/** The refactorings offered on a tree element */
+export type RefactorAction = 'wrap' | 'unwrap' | 'split-paragraphs' | 'split-headings' | 'merge' | 'convert';
+
+/** A content chunk that becomes a child element */
+export interface ContentSection {
+  tagName: string;
+  content: string;
+}
+
+const newId = () => `element-${generateUUID()}`;
+
+// Flat entry for a new node; parentId and order are set when it is arranged
+const toFlat = (node: Omit<XMLElement, 'id' | 'children'>, parentId: string | null): FlatXMLElement => ({
+  ...node,
+  id: newId(),
+  depth: 0,
+  parentId,
+  ancestorIds: [],
+  order: 0,
+  isVisible: node.isVisible ?? true
+});
+
+/**
+ * Make `ids` the children of `parentId`, in that order. flatToTree only reads
+ * parentId and order, so depth and ancestors can go stale in between.
+ */
+const arrange = (flat: FlatXMLElement[], parentId: string | null, ids: string[]): FlatXMLElement[] => {
+  const order = new Map(ids.map((id, index) => [id, index]));
+  return flat.map(element =>
+    order.has(element.id) ? { ...element, parentId, order: order.get(element.id)! } : element
+  );
+};
+
+const siblingIds = (flat: FlatXMLElement[], parentId: string | null) =>
+  getDirectChildren(flat, parentId).map(element => element.id);
+
+/**
+ * Tag name from heading text: "Output Format" → output-format
+ */
+export function headingToTagName(heading: string): string {
+  const slug = heading
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '');
+  if (!slug) return 'section';
+  return /^[a-z_]/.test(slug) ? slug : `section-${slug}`;
+}
+
+const HEADING = /^#{1,6}[ \t]+(.+?)[ \t]*#*[ \t]*$/;
+
+/**
+ * Cut content into sections: on blank lines, or on markdown headings (# Title).
+ * Heading text becomes the tag name; text before the first heading is the preamble.
+ */
+export function splitContentSections(
+  content: string,
+  mode: SplitMode
+): { preamble: string; sections: ContentSection[] } {
+  if (mode === 'paragraphs') {
+    const sections = content
+      .split(/\n[ \t]*\n/)
+      .map(chunk => chunk.trim())
+      .filter(Boolean)
+      .map(chunk => ({ tagName: 'paragraph', content: chunk }));
+    return { preamble: '', sections };
+  }
+
+  const preamble: string[] = [];
+  const sections: ContentSection[] = [];
+  content.split('\n').forEach(line => {
+    const heading = HEADING.exec(line);
+    if (heading) sections.push({ tagName: headingToTagName(heading[1]), content: '' });
+    else if (sections.length > 0) sections[sections.length - 1].content += `${line}\n`;
+    else preamble.push(line);
+  });
+  return {
+    preamble: preamble.join('\n').trim(),
+    sections: sections.map(section => ({ ...section, content: section.content.trim() }))
+  };
+}
+
+/**
+ * Replace an element with its children. Its own content stays in place as a
+ * text node; null for text nodes.
+ */
+export function unwrapElement(elements: XMLElement[], id: string): XMLElement[] | null {
+  const flat = treeToFlat(elements);
+  const target = flat.find(element => element.id === id);
+  if (!target || isTextNode(target)) return null;
+
+  const promoted = siblingIds(flat, id);
+  const added: FlatXMLElement[] = [];
+  if (target.content.trim()) {
+    added.push(toFlat({ kind: 'text', tagName: '', content: target.content.trim(), escaping: target.escaping }, target.parentId));
+  }
+
+  const siblings = siblingIds(flat, target.parentId).flatMap(siblingId =>
+    siblingId === id ? [...added.map(node => node.id), ...promoted] : [siblingId]
+  );
+  const rest = [...flat.filter(element => element.id !== id), ...added];
+  return flatToTree(arrange(rest, target.parentId, siblings));
+}
+
+/**
+ * Move an element's content into new children, ahead of any it already has.
+ * Null when there is nothing to split (fewer than two paragraphs, or no headings).
+ */
+export function splitElementContent(elements: XMLElement[], id: string, mode: SplitMode): XMLElement[] | null {
+  const flat = treeToFlat(elements);
+  const target = flat.find(element => element.id === id);
+  if (!target || isTextNode(target)) return null;
+
+  const { preamble, sections } = splitContentSections(target.content, mode);
+  if (sections.length === 0 || (mode === 'paragraphs' && sections.length < 2)) return null;
+
+  const added = sections.map(section => toFlat({ ...section, escaping: target.escaping }, id));
+  const rest = [
+    ...flat.map(element => (element.id === id ? { ...element, content: preamble, collapsed: false } : element)),
+    ...added
+  ];
+  return flatToTree(arrange(rest, id, [...added.map(node => node.id), ...siblingIds(flat, id)]));
+}
+
+/**
+ * Merge the given siblings into the first: content joined by a blank line,
+ * children and new attributes appended. They must be adjacent siblings of one
+ * kind; a single id merges with its next sibling. Null otherwise.
+ */
+export function mergeSiblings(elements: XMLElement[], ids: string[]): XMLElement[] | null {
+  const flat = treeToFlat(elements);
+  const first = flat.find(element => element.id === ids[0]);
+  if (!first) return null;
+
+  const siblings = siblingIds(flat, first.parentId);
+  const start = siblings.indexOf(first.id);
+  const selected = new Set(ids);
+  const merging = ids.length === 1
+    ? siblings.slice(start, start + 2)
+    : siblings.filter(siblingId => selected.has(siblingId));
+  // Every id has to be one of these siblings
+  if (merging.length < 2 || merging.length !== (ids.length === 1 ? 2 : selected.size)) return null;
+
+  // Adjacent: the merged run has no gaps
+  const from = siblings.indexOf(merging[0]);
+  if (merging.some((siblingId, index) => siblings[from + index] !== siblingId)) return null;
+
+  const parts = merging.map(mergeId => flat.find(element => element.id === mergeId)!);
+  const isText = isTextNode(parts[0]);
+  if (parts.some(part => isTextNode(part) !== isText)) return null;
+
+  const head = parts[0];
+  const attributes = [...(head.attributes ?? [])];
+  parts.slice(1).forEach(part => {
+    (part.attributes ?? []).forEach(attr => {
+      if (!attributes.some(existing => existing.name === attr.name)) attributes.push({ ...attr });
+    });
+  });
+  const merged: FlatXMLElement = {
+    ...head,
+    content: parts.map(part => part.content.trim()).filter(Boolean).join('\n\n'),
+    ...(attributes.length ? { attributes } : {})
+  };
+
+  const removed = new Set(merging.slice(1));
+  const children = merging.flatMap(mergeId => siblingIds(flat, mergeId));
+  const rest = flat
+    .filter(element => !removed.has(element.id))
+    .map(element => (element.id === head.id ? merged : element));
+  return flatToTree(arrange(rest, head.id, children));
+}
+
+/**
+ * Turn tags written inside an element's content into real child elements, ahead
+ * of any it already has; the text around them becomes text nodes. Null when
+ * the content holds no complete tags.
+ */
+export function convertContentToElements(elements: XMLElement[], id: string): XMLElement[] | null {
+  const flat = treeToFlat(elements);
+  const target = flat.find(element => element.id === id);
+  if (!target || isTextNode(target)) return null;
+
+  const parsed = looseParseXML(target.content);
+  if (!parsed.some(node => !isTextNode(node))) return null;
+
+  const added = treeToFlat(parsed);
+  const roots = added.filter(node => node.parentId === null).map(node => node.id);
+  const rest = [
+    ...flat.map(element => (element.id === id ? { ...element, content: '', collapsed: false } : element)),
+    ...added
+  ];
+  return flatToTree(arrange(rest, id, [...roots, ...siblingIds(flat, id)]));
+}
@@ -0,0 +1,42 @@
+// Viewer Sources - work out what a reviewer pasted into the /view page
+// Share links of either kind open directly; anything else is tried as a template bundle
+
+import { SHARE_PATH, VIEW_PATH } from '@/lib/share-link';
+import { SHORT_LINK_PATH } from '@/lib/share-api';
+
+export type ViewerLink =
+  | { kind: 'fragment'; fragment: string }
+  | { kind: 'short'; id: string };
+
+/**
+ * Recognise a share link (/share#…, /view#…, /s/:id or /view?s=id) from any origin
+ */
+export function parseViewerLink(input: string): ViewerLink | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+
+  const shortMatch = url.pathname.match(new RegExp(`^${SHORT_LINK_PATH}/([0-9A-Za-z]+)/?$`));
+  if (shortMatch) return { kind: 'short', id: shortMatch[1] };
+
+  const path = url.pathname.replace(/\/$/, '');
+  if (path === VIEW_PATH && url.searchParams.get('s')) {
+    return { kind: 'short', id: url.searchParams.get('s')! };
+  }
+  if ((path === VIEW_PATH || path === SHARE_PATH) && url.hash.length > 1) {
+    return { kind: 'fragment', fragment: url.hash.slice(1) };
+  }
+  return null;
+}
+
+/**
+ * The /view URL (path, query and hash) that shows the given link
+ */
+export function viewerPathFor(link: ViewerLink): string {
+  return link.kind === 'short'
+    ? `${VIEW_PATH}?s=${encodeURIComponent(link.id)}`
+    : `${VIEW_PATH}#${link.fragment}`;
+}
@@ -0,0 +1,130 @@
+// XML Outline - line ranges and syntax tokens for the read-only viewer
+// Ranges are measured from serializeXML itself so they always line up with the text shown
+
+import type { XMLElement } from '@/components/PromptBuilder';
+import { escapeContent, serializeXML, DEFAULT_SERIALIZE_OPTIONS, type SerializeOptions } from '@/lib/serialize-xml';
+
+export interface OutlineSection {
+  id: string;
+  tagName: string;
+  /** 0-based, inclusive */
+  startLine: number;
+  endLine: number;
+  /** Element children only; text nodes take up lines but aren't sections */
+  children: OutlineSection[];
+}
+
+export type XMLTokenKind = 'tag' | 'attr-name' | 'attr-value' | 'punct' | 'text' | 'comment' | 'cdata';
+
+export interface XMLToken {
+  kind: XMLTokenKind;
+  text: string;
+}
+
+const lineCount = (text: string) => text.split('\n').length;
+
+/**
+ * Where each visible element starts and ends in serializeXML(elements, options)
+ */
+export function buildOutline(elements: XMLElement[], options: Partial<SerializeOptions> = {}): OutlineSection[] {
+  // Hidden-as-comment subtrees are shown as comments, not sections
+  const opts: SerializeOptions = { ...DEFAULT_SERIALIZE_OPTIONS, ...options, hiddenElements: 'omit' };
+
+  // Returns the sections in `items` and the line after the last one
+  const place = (items: XMLElement[], start: number, gap: number): [OutlineSection[], number] => {
+    const sections: OutlineSection[] = [];
+    let line = start;
+    items.forEach(item => {
+      if (item.isVisible === false) return;
+      const text = serializeXML([item], opts);
+      // An empty top-level text node is dropped from the output entirely
+      if (text.length === 0) return;
+      const end = line + lineCount(text) - 1;
+      if (item.kind !== 'text') {
+        const visibleChildren = item.children.filter(child => child.isVisible !== false);
+        let children: OutlineSection[] = [];
+        // Children start under the opening tag and any content lines
+        if (visibleChildren.length > 0) {
+          const content = escapeContent(item.content, item.escaping ?? opts.contentEscaping);
+          const contentLines = item.content.trim().length > 0 ? lineCount(content) : 0;
+          [children] = place(visibleChildren, line + 1 + contentLines, 0);
+        }
+        sections.push({ id: item.id, tagName: item.tagName, startLine: line, endLine: end, children });
+      }
+      line = end + 1 + gap;
+    });
+    return [sections, line];
+  };
+
+  return place(elements, 0, opts.blankLineBetweenSections ? 1 : 0)[0];
+}
+
+/**
+ * Split XML text into highlightable tokens, grouped by line.
+ * Forgiving: anything that isn't recognisable markup is plain text.
+ */
+export function highlightXML(xml: string): XMLToken[][] {
+  const tokens: XMLToken[] = [];
+  const push = (kind: XMLTokenKind, text: string) => {
+    if (text) tokens.push({ kind, text });
+  };
+
+  let i = 0;
+  while (i < xml.length) {
+    if (xml.startsWith('<!--', i)) {
+      const end = xml.indexOf('-->', i + 4);
+      const stop = end === -1 ? xml.length : end + 3;
+      push('comment', xml.slice(i, stop));
+      i = stop;
+    } else if (xml.startsWith('<![CDATA[', i)) {
+      const end = xml.indexOf(']]>', i + 9);
+      const stop = end === -1 ? xml.length : end + 3;
+      push('cdata', xml.slice(i, stop));
+      i = stop;
+    } else if (xml[i] === '<' && /[A-Za-z_/]/.test(xml[i + 1] ?? '')) {
+      const tag = /^<\/?[^\s/>]*/.exec(xml.slice(i))![0];
+      push('punct', tag.startsWith('</') ? '</' : '<');
+      push('tag', tag.replace(/^<\/?/, ''));
+      i += tag.length;
+      // Attributes up to the end of the tag
+      while (i < xml.length && xml[i] !== '>') {
+        const rest = xml.slice(i);
+        const attr = /^(\s+)([^\s=/>]+)(=)("[^"]*"|'[^']*')?/.exec(rest);
+        if (attr) {
+          push('text', attr[1]);
+          push('attr-name', attr[2]);
+          push('punct', attr[3]);
+          if (attr[4]) push('attr-value', attr[4]);
+          i += attr[0].length;
+        } else if (rest.startsWith('/>')) {
+          break;
+        } else {
+          push('text', xml[i]);
+          i++;
+        }
+      }
+      if (xml.startsWith('/>', i)) {
+        push('punct', '/>');
+        i += 2;
+      } else if (xml[i] === '>') {
+        push('punct', '>');
+        i++;
+      }
+    } else {
+      const next = xml.indexOf('<', i + 1);
+      const stop = next === -1 ? xml.length : next;
+      push('text', xml.slice(i, stop));
+      i = stop;
+    }
+  }
+
+  // Regroup by line; tokens spanning newlines are split at them
+  const lines: XMLToken[][] = [[]];
+  tokens.forEach(token => {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ kind: token.kind, text: part });
+    });
+  });
+  return lines;
+}
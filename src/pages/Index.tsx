@@ -2,12 +2,18 @@
 import React from 'react';
 import PromptBuilder from '../components/PromptBuilder';
 import HelpDialog from '../components/HelpDialog';
-import { Code, Github, PlusCircle, Sparkles, Save } from 'lucide-react';
+import { Code, Eye, Github, PlusCircle, Sparkles, Save } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import type { SharedPrompt } from '@/lib/share-link';
 
 const Index = () => {
   const isMobile = useIsMobile();
+  const location = useLocation();
+  const navigate = useNavigate();
+  // Set by the /share route when a link should open in the builder
+  const sharedPrompt = (location.state as { sharedPrompt?: SharedPrompt } | null)?.sharedPrompt;
   
   return (
     <div className="min-h-screen bg-[#FEF7CD] dark:bg-gray-900">
@@ -30,6 +36,13 @@ const Index = () => {
                 className="h-9"
               />
             </a>
+            <Link
+              to="/view"
+              title="Read-only viewer"
+              className="h-9 w-9 flex items-center justify-center rounded-none hover:bg-[#9AE66E]/30"
+            >
+              <Eye className="h-5 w-5 stroke-[3]" />
+            </Link>
             <a 
               href="https://github.com/lolrazh/xml-prompt-builder"
               target="_blank"
@@ -90,7 +103,11 @@ const Index = () => {
         </div>
 
         {/* Prompt Builder Component */}
-        <PromptBuilder />
+        <PromptBuilder
+          sharedPrompt={sharedPrompt}
+          // Drop the prompt from history so a reload doesn't offer it again
+          onSharedPromptHandled={() => navigate('.', { replace: true, state: null })}
+        />
       </div>
       
       <footer className="border-t-2 border-black dark:border-gray-700 mt-16 py-6 bg-[#F2FCE2] dark:bg-gray-900">
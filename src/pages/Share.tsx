@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { Code } from 'lucide-react';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { decodeSharedPrompt } from '@/lib/share-link';
+import { fetchShortLink } from '@/lib/share-api';
+
+// Opens a link made by the Share dialog in the builder.
+// Serves both fragment links (/share#…) and short links (/s/:id) stored by the worker;
+// read-only preview links go to /view instead.
+const Share = () => {
+  const isMobile = useIsMobile();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { id } = useParams<{ id?: string }>();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!id && (!location.hash || location.hash === '#')) {
+      setError('This share link is empty.');
+      return;
+    }
+    (id ? fetchShortLink(id) : decodeSharedPrompt(location.hash))
+      .then(sharedPrompt => {
+        // The builder asks before replacing existing work, once its own workspace has loaded
+        if (!cancelled) navigate('/', { replace: true, state: { sharedPrompt } });
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'This share link could not be opened.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, location.hash, navigate]);
+
+  return (
+    <div className="min-h-screen bg-[#FEF7CD] dark:bg-gray-900">
+      <header className="border-b-2 border-black dark:border-gray-700 bg-[#9AE66E] dark:bg-gray-800 shadow-[0_4px_0px_0px_rgba(0,0,0,0.1)]">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <Link to="/" className={`${isMobile ? 'text-2xl' : 'text-3xl'} font-black text-black dark:text-white flex items-center gap-2`}>
+            <Code className="h-7 w-7 stroke-[3]" />
+            <span>XML Prompt Builder</span>
+          </Link>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-10">
+        {error ? (
+          <div className="max-w-xl mx-auto p-4 border-2 border-black dark:border-gray-100 rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] bg-[#F2FCE2] dark:bg-gray-800 text-center">
+            <p className="font-bold mb-4">{error}</p>
+            <Link to="/" className="font-mono underline">Go to the builder</Link>
+          </div>
+        ) : (
+          <p className="text-center font-mono">Opening shared prompt…</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Share;
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { Code, PencilLine } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import PromptViewer from '@/components/PromptViewer';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { decodeSharedPrompt, VIEW_PATH, type SharedPrompt } from '@/lib/share-link';
+import { fetchShortLink } from '@/lib/share-api';
+import { parseBundle } from '@/lib/template-bundle';
+import { parseViewerLink, viewerPathFor } from '@/lib/viewer-source';
+import type { SavedTemplate } from '@/lib/template-store';
+
+const buttonClass =
+  'bg-[#9AE66E] hover:bg-[#76B947] text-black font-bold border-2 border-black rounded-none shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all';
+
+const selectClass =
+  'h-8 max-w-full border-2 border-black dark:border-gray-100 rounded-none bg-white dark:bg-gray-700 px-1 text-sm font-mono font-bold';
+
+// Read-only viewer for reviewers: opens share links (/view#…, /view?s=id) or a pasted link or bundle
+const View = () => {
+  const isMobile = useIsMobile();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const shortId = new URLSearchParams(location.search).get('s');
+  const fragment = location.hash.length > 1 ? location.hash : '';
+
+  const [prompt, setPrompt] = useState<SharedPrompt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [input, setInput] = useState('');
+  const [bundle, setBundle] = useState<SavedTemplate[] | null>(null);
+  const [bundleIndex, setBundleIndex] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPrompt(null);
+    setError(null);
+    if (!shortId && !fragment) return;
+    setBundle(null);
+    (shortId ? fetchShortLink(shortId) : decodeSharedPrompt(fragment))
+      .then(decoded => {
+        if (!cancelled) setPrompt(decoded);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'This share link could not be opened.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [shortId, fragment]);
+
+  const openInput = async () => {
+    const link = parseViewerLink(input);
+    if (link) {
+      navigate(viewerPathFor(link));
+      return;
+    }
+    try {
+      setBundle(await parseBundle(input));
+      setBundleIndex(0);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : '';
+      toast.error(`Paste a share link or a template bundle. ${reason}`.trim());
+    }
+  };
+
+  const viewAnother = () => {
+    setBundle(null);
+    setInput('');
+    navigate(VIEW_PATH);
+  };
+
+  const shown: SharedPrompt | null = bundle
+    ? bundle[bundleIndex] ?? null
+    : prompt;
+  const isWaiting = !shown && !error && Boolean(shortId || fragment);
+
+  return (
+    <div className="min-h-screen bg-[#FEF7CD] dark:bg-gray-900">
+      <header className="border-b-2 border-black dark:border-gray-700 bg-[#9AE66E] dark:bg-gray-800 shadow-[0_4px_0px_0px_rgba(0,0,0,0.1)]">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <Link to="/" className={`${isMobile ? 'text-2xl' : 'text-3xl'} font-black text-black dark:text-white flex items-center gap-2`}>
+            <Code className="h-7 w-7 stroke-[3]" />
+            <span>XML Prompt Viewer</span>
+          </Link>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-10 space-y-4">
+        {error ? (
+          <div className="max-w-xl mx-auto p-4 border-2 border-black dark:border-gray-100 rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] bg-[#F2FCE2] dark:bg-gray-800 text-center">
+            <p className="font-bold mb-4">{error}</p>
+            <button type="button" onClick={viewAnother} className="font-mono underline">Open something else</button>
+          </div>
+        ) : isWaiting ? (
+          <p className="text-center font-mono">Loading prompt…</p>
+        ) : shown ? (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              {bundle ? (
+                <select
+                  aria-label="Template"
+                  value={bundleIndex}
+                  onChange={(e) => setBundleIndex(Number(e.target.value))}
+                  className={selectClass}
+                >
+                  {bundle.map((tpl, index) => (
+                    <option key={tpl.id} value={index}>{tpl.name}</option>
+                  ))}
+                </select>
+              ) : (
+                <h2 className={`${isMobile ? 'text-xl' : 'text-2xl'} font-black`}>Shared Prompt</h2>
+              )}
+              <div className="flex items-center gap-2">
+                <Button size="sm" onClick={viewAnother} className={buttonClass}>View another</Button>
+                <Button
+                  size="sm"
+                  onClick={() => navigate('/', { state: { sharedPrompt: { elements: shown.elements, variables: shown.variables } } })}
+                  className={buttonClass}
+                >
+                  <PencilLine className="h-4 w-4 stroke-[3] mr-1" />
+                  Open in builder
+                </Button>
+              </div>
+            </div>
+            {/* Fresh fold state per prompt */}
+            <PromptViewer key={bundle ? `bundle-${bundleIndex}` : shortId ?? fragment} elements={shown.elements} />
+          </>
+        ) : (
+          <div className="max-w-2xl mx-auto p-4 border-2 border-black dark:border-gray-100 rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] bg-[#F2FCE2] dark:bg-gray-800 space-y-3">
+            <h2 className={`${isMobile ? 'text-xl' : 'text-2xl'} font-black`}>Open a prompt</h2>
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Paste a share link, or the contents of an exported template bundle.
+            </p>
+            <Textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              rows={6}
+              placeholder="https://…/share#…"
+              className="rounded-none border-2 border-black font-mono text-sm"
+            />
+            <Button onClick={openInput} disabled={!input.trim()} className={buttonClass}>Open</Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default View;
@@ -0,0 +1,41 @@
+// Tokenizer Worker - counts tokens off the main thread
+// Each OpenAI BPE vocabulary is a separate chunk, imported the first time it is needed
+
+import type { TokenizerEncoding, TokenizerRequest, TokenizerResponse } from '@/lib/tokenizer';
+
+interface Encoder {
+  countTokens: (text: string, options?: { disallowedSpecial?: Set<string> }) => number;
+}
+
+const loaders: Record<TokenizerEncoding, () => Promise<Encoder>> = {
+  o200k_base: () => import('gpt-tokenizer/encoding/o200k_base'),
+  cl100k_base: () => import('gpt-tokenizer/encoding/cl100k_base'),
+  p50k_base: () => import('gpt-tokenizer/encoding/p50k_base'),
+  r50k_base: () => import('gpt-tokenizer/encoding/r50k_base'),
+};
+
+const encoders = new Map<TokenizerEncoding, Promise<Encoder>>();
+
+const getEncoder = (encoding: TokenizerEncoding): Promise<Encoder> => {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = loaders[encoding]();
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+};
+
+// Prompt text may legitimately contain strings like <|endoftext|>; count them as plain text
+const NO_DISALLOWED = { disallowedSpecial: new Set<string>() };
+
+self.onmessage = async (event: MessageEvent<TokenizerRequest>) => {
+  const { id, encoding, texts } = event.data;
+  try {
+    const encoder = await getEncoder(encoding);
+    const counts = texts.map(text => (text ? encoder.countTokens(text, NO_DISALLOWED) : 0));
+    self.postMessage({ id, counts } satisfies TokenizerResponse);
+  } catch (error) {
+    encoders.delete(encoding);
+    self.postMessage({ id, error: String(error) } satisfies TokenizerResponse);
+  }
+};
@@ -8,12 +8,20 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    // Share-link API calls go to `npm run dev:api` (wrangler dev with local KV)
+    proxy: {
+      "/api": "http://localhost:8787",
+    },
   },
   plugins: [
     react(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
+  worker: {
+    // The tokenizer worker lazy-loads vocabularies, which needs code-splitting
+    format: "es",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
@@ -0,0 +1,91 @@
+// Share API Tests - run against wrangler's local KV emulation
+import { getPlatformProxy } from 'wrangler';
+import { handleApi, MAX_SNAPSHOT_BYTES } from '../index';
+
+let proxy: Awaited<ReturnType<typeof getPlatformProxy<Env>>>;
+
+beforeAll(async () => {
+  proxy = await getPlatformProxy<Env>({ persist: false });
+}, 60000);
+
+afterAll(async () => {
+  await proxy?.dispose();
+});
+
+const payload = { v: 1, elements: [{ tagName: 'task', content: 'Hi', children: [] }] };
+
+const api = (path: string, init?: RequestInit) =>
+  handleApi(new Request(`http://localhost${path}`, init), proxy.env);
+
+const post = (body: unknown) =>
+  api('/api/share', { method: 'POST', body: typeof body === 'string' ? body : JSON.stringify(body) });
+
+describe('POST /api/share', () => {
+  test('stores a snapshot that GET returns', async () => {
+    const created = await post({ payload });
+    expect(created.status).toBe(201);
+    const { id, expiresAt } = await created.json() as { id: string; expiresAt: number };
+    expect(id).toMatch(/^[0-9A-Za-z]{10}$/);
+    expect(expiresAt).toBeGreaterThan(Date.now());
+
+    const fetched = await api(`/api/share/${id}`);
+    expect(fetched.status).toBe(200);
+    expect(fetched.headers.get('Cache-Control')).toContain('immutable');
+    expect(await fetched.json()).toMatchObject({ id, expiresAt, payload });
+  });
+
+  test('gives every snapshot its own id', async () => {
+    const a = await (await post({ payload })).json() as { id: string };
+    const b = await (await post({ payload })).json() as { id: string };
+    expect(a.id).not.toBe(b.id);
+  });
+
+  test('honours and caps the requested lifetime', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const short = await (await post({ payload, ttlDays: 1 })).json() as { expiresAt: number };
+    expect(short.expiresAt - Date.now()).toBeLessThanOrEqual(day);
+    const long = await (await post({ payload, ttlDays: 10000 })).json() as { expiresAt: number };
+    expect(long.expiresAt - Date.now()).toBeLessThanOrEqual(365 * day);
+  });
+
+  test('rejects bad bodies', async () => {
+    expect((await post('nope')).status).toBe(400);
+    expect((await post({ payload: { elements: 'x' } })).status).toBe(400);
+    expect((await post({ payload: { ...payload, pad: 'x'.repeat(MAX_SNAPSHOT_BYTES) } })).status).toBe(413);
+  });
+
+  test('rejects oversized bodies by Content-Length or while streaming', async () => {
+    const declared = await api('/api/share', {
+      method: 'POST',
+      headers: { 'Content-Length': String(MAX_SNAPSHOT_BYTES + 1) },
+      body: JSON.stringify({ payload })
+    });
+    expect(declared.status).toBe(413);
+
+    const chunk = new TextEncoder().encode('x'.repeat(64 * 1024));
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent > MAX_SNAPSHOT_BYTES) controller.close();
+        else controller.enqueue(chunk);
+        sent += chunk.byteLength;
+      }
+    });
+    const streamed = await api('/api/share', { method: 'POST', body, duplex: 'half' } as RequestInit);
+    expect(streamed.status).toBe(413);
+  });
+});
+
+describe('GET /api/share/:id', () => {
+  test('404s for unknown ids', async () => {
+    const res = await api('/api/share/doesnotexist');
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'This share link does not exist or has expired.' });
+  });
+
+  test('only allows the documented methods', async () => {
+    expect((await api('/api/share')).status).toBe(405);
+    expect((await api('/api/share/abc', { method: 'DELETE' })).status).toBe(405);
+    expect((await api('/api/other')).status).toBe(404);
+  });
+});
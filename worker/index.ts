@@ -0,0 +1,144 @@
+// Cloudflare Worker - serves the built app and a small API for short share links
+// Snapshots are immutable: an id is written once and then only read until KV expires it
+
+const SHARE_KEY_PREFIX = 'share:';
+const ID_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const ID_LENGTH = 10;
+
+// Plenty for any prompt, well under KV's 25 MiB value limit
+export const MAX_SNAPSHOT_BYTES = 512 * 1024;
+export const DEFAULT_TTL_DAYS = 30;
+export const MAX_TTL_DAYS = 365;
+const DAY_SECONDS = 24 * 60 * 60;
+
+interface StoredSnapshot {
+  createdAt: number;
+  expiresAt: number;
+  payload: { v: number; elements: unknown[] };
+}
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers }
+  });
+
+const error = (status: number, message: string): Response => json({ error: message }, status);
+
+// Bytes at or above this would make `byte % length` favour the first characters
+const UNBIASED_BYTE_LIMIT = 256 - (256 % ID_ALPHABET.length);
+
+const randomId = (): string => {
+  let id = '';
+  while (id.length < ID_LENGTH) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(ID_LENGTH))) {
+      if (byte < UNBIASED_BYTE_LIMIT && id.length < ID_LENGTH) id += ID_ALPHABET[byte % ID_ALPHABET.length];
+    }
+  }
+  return id;
+};
+
+const isPayload = (value: unknown): value is StoredSnapshot['payload'] => {
+  const payload = value as StoredSnapshot['payload'];
+  return Boolean(payload) && typeof payload.v === 'number' && Array.isArray(payload.elements);
+};
+
+/**
+ * The request body as text, or null once it passes `maxBytes`. Reading stops
+ * there, so an oversized body (with or without a Content-Length) is never buffered whole.
+ */
+async function readBodyCapped(request: Request, maxBytes: number): Promise<string | null> {
+  if (!request.body) return '';
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+async function createShare(request: Request, env: Env): Promise<Response> {
+  const tooLarge = () => error(413, `Prompts larger than ${MAX_SNAPSHOT_BYTES / 1024} KB can't be shared.`);
+  if (Number(request.headers.get('Content-Length')) > MAX_SNAPSHOT_BYTES) return tooLarge();
+  const text = await readBodyCapped(request, MAX_SNAPSHOT_BYTES);
+  if (text === null) return tooLarge();
+
+  let body: { payload?: unknown; ttlDays?: unknown };
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return error(400, 'Request body must be JSON.');
+  }
+  if (!isPayload(body?.payload)) {
+    return error(400, 'Request body must contain a prompt payload.');
+  }
+
+  const ttlDays = typeof body.ttlDays === 'number' && body.ttlDays >= 1
+    ? Math.min(Math.floor(body.ttlDays), MAX_TTL_DAYS)
+    : DEFAULT_TTL_DAYS;
+  const createdAt = Date.now();
+  const snapshot: StoredSnapshot = {
+    createdAt,
+    expiresAt: createdAt + ttlDays * DAY_SECONDS * 1000,
+    payload: body.payload
+  };
+
+  // Never overwrite an existing snapshot; a collision just draws a new id
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const id = randomId();
+    if (await env.SHARES.get(SHARE_KEY_PREFIX + id) !== null) continue;
+    await env.SHARES.put(SHARE_KEY_PREFIX + id, JSON.stringify(snapshot), {
+      expirationTtl: ttlDays * DAY_SECONDS
+    });
+    return json({ id, expiresAt: snapshot.expiresAt }, 201);
+  }
+  return error(503, 'Could not allocate a share id. Try again.');
+}
+
+async function getShare(id: string, env: Env): Promise<Response> {
+  const stored = await env.SHARES.get(SHARE_KEY_PREFIX + id);
+  if (stored === null) {
+    return error(404, 'This share link does not exist or has expired.');
+  }
+  const snapshot: StoredSnapshot = JSON.parse(stored);
+  // Content never changes for an id, so caches only need to respect expiry
+  const maxAge = Math.max(0, Math.floor((snapshot.expiresAt - Date.now()) / 1000));
+  return json({ id, ...snapshot }, 200, { 'Cache-Control': `public, max-age=${Math.min(maxAge, DAY_SECONDS)}, immutable` });
+}
+
+export async function handleApi(request: Request, env: Env): Promise<Response> {
+  const { pathname } = new URL(request.url);
+
+  if (pathname === '/api/share') {
+    return request.method === 'POST' ? createShare(request, env) : error(405, 'Method not allowed.');
+  }
+
+  const match = pathname.match(/^\/api\/share\/([0-9A-Za-z]+)$/);
+  if (match) {
+    return request.method === 'GET' ? getShare(match[1], env) : error(405, 'Method not allowed.');
+  }
+
+  return error(404, 'Not found.');
+}
+
+export default {
+  async fetch(request, env) {
+    const { pathname } = new URL(request.url);
+    if (pathname.startsWith('/api/')) return handleApi(request, env);
+    return env.ASSETS.fetch(request);
+  }
+} satisfies ExportedHandler<Env>;